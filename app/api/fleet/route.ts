@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getActiveOrchestrator } from "@/lib/robots";
+
+// Status of every robot in the latest dispatched fleet, with its queue counts
+export async function GET() {
+  const orchestrator = getActiveOrchestrator();
+  return NextResponse.json({
+    robots: orchestrator.getStatusReport(),
+    queue: orchestrator.getQueue().all(),
+  });
+}
+
+// Queue a task for one robot, e.g. an urgent task that preempts lower-priority work; it runs
+// with the next dispatch to a fleet with that robot
+export async function POST(req: NextRequest) {
+  try {
+    const { robotId, task, priority, dueTick, dependsOn, releaseTick } = await req.json();
+
+    if (!robotId || typeof robotId !== "string" || !task || typeof task !== "string") {
+      return NextResponse.json({ error: "robotId and task are required" }, { status: 400 });
+    }
+    if (priority !== undefined && !Number.isFinite(priority)) {
+      return NextResponse.json({ error: "priority must be a number" }, { status: 400 });
+    }
+    for (const [name, tick] of [["dueTick", dueTick], ["releaseTick", releaseTick]]) {
+      if (tick !== undefined && !(Number.isInteger(tick) && tick >= 0)) {
+        return NextResponse.json({ error: `${name} must be a tick (integer, 0 or more)` }, { status: 400 });
+      }
+    }
+    if (dependsOn !== undefined && !(Array.isArray(dependsOn) && dependsOn.every((queueId: unknown) => typeof queueId === "string"))) {
+      return NextResponse.json({ error: "dependsOn must be a list of queue IDs" }, { status: 400 });
+    }
+
+    const queued = getActiveOrchestrator().enqueueTask(robotId, task, { priority, dueTick, dependsOn, releaseTick });
+    return NextResponse.json({ success: true, task: queued });
+  } catch (err: unknown) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+}
@@ -5,6 +5,7 @@ export async function GET() {
   const hasOpenAIKey = !!process.env.OPENAI_API_KEY;
   const hasGrokKey = !!(process.env.GROK_API_KEY || process.env.XAI_API_KEY);
   const hasGeminiKey = !!(process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY);
+  const hasLocalServer = !!process.env.LOCAL_LLM_BASE_URL;
   
   return NextResponse.json({
     status: "ok",
@@ -14,13 +15,14 @@ export async function GET() {
       hasOpenAIKey,
       hasGrokKey,
       hasGeminiKey,
+      hasLocalServer,
       anthropicKeyLength: hasAnthropicKey ? process.env.ANTHROPIC_API_KEY?.length : 0,
       openAIKeyLength: hasOpenAIKey ? process.env.OPENAI_API_KEY?.length : 0,
       grokKeyLength: hasGrokKey ? (process.env.GROK_API_KEY || process.env.XAI_API_KEY)?.length : 0,
       geminiKeyLength: hasGeminiKey ? (process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY)?.length : 0,
     },
-    message: hasAnthropicKey || hasOpenAIKey || hasGrokKey || hasGeminiKey
+    message: hasAnthropicKey || hasOpenAIKey || hasGrokKey || hasGeminiKey || hasLocalServer
       ? "API keys are configured" 
-      : "WARNING: No API keys found. Please set GEMINI_API_KEY (FREE), ANTHROPIC_API_KEY, OPENAI_API_KEY, or GROK_API_KEY in .env file"
+      : "WARNING: No API keys found. Please set GEMINI_API_KEY (FREE), ANTHROPIC_API_KEY, OPENAI_API_KEY, GROK_API_KEY or LOCAL_LLM_BASE_URL in .env file"
   });
 }
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { LOCAL_MODEL_PREFIX, LocalProvider } from "@/lib/llm-providers";
+
+// Models offered by the local OpenAI-compatible server (LOCAL_LLM_BASE_URL), with the
+// "local:<id>" model ID to select each; empty when no server is configured
+export async function GET() {
+  const baseUrl = process.env.LOCAL_LLM_BASE_URL;
+  if (!baseUrl) {
+    return NextResponse.json({ local: [] });
+  }
+
+  try {
+    const models = await new LocalProvider(baseUrl, process.env.LOCAL_LLM_API_KEY || "").listModels();
+    return NextResponse.json({ local: models.map(name => ({ id: `${LOCAL_MODEL_PREFIX}${name}`, name })) });
+  } catch (err: unknown) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    return NextResponse.json({ local: [], error: error.message }, { status: 502 });
+  }
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getLLMProvider, detectProviderFromModel } from "@/lib/llm-providers";
-import { RobotOrchestrator } from "@/lib/robots";
+import { activateFleet } from "@/lib/robots";
+import { fleetFromScenario } from "@/lib/fleet";
+import { applyScenarioTransforms } from "@/lib/scenario-transforms";
+import { WarehouseMap } from "@/lib/warehouse-map";
 
 export async function POST(req: NextRequest) {
   try {
@@ -29,7 +32,15 @@ export async function POST(req: NextRequest) {
     }
 
     // Detect provider and get API key
-    const provider = detectProviderFromModel(model);
+    let provider: string;
+    try {
+      provider = detectProviderFromModel(model);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : `Unsupported model: ${model}` },
+        { status: 400 }
+      );
+    }
     let apiKey: string;
 
     if (provider === "anthropic") {
@@ -64,6 +75,16 @@ export async function POST(req: NextRequest) {
           { status: 500 }
         );
       }
+    } else if (provider === "local") {
+      apiKey = process.env.LOCAL_LLM_API_KEY || ""; // Most on-prem servers need no key
+      if (!process.env.LOCAL_LLM_BASE_URL) {
+        return NextResponse.json(
+          { error: "LOCAL_LLM_BASE_URL environment variable is not set" },
+          { status: 500 }
+        );
+      }
+    } else if (provider === "baseline") {
+      apiKey = ""; // Classical allocators run locally
     } else {
       return NextResponse.json(
         { error: `Unsupported model: ${model}` },
@@ -72,17 +93,31 @@ export async function POST(req: NextRequest) {
     }
 
     // Get LLM provider and generate tasks
-    const llmProvider = getLLMProvider(provider, apiKey);
+    const llmProvider = getLLMProvider(provider, apiKey, {
+      baseUrl: process.env.LOCAL_LLM_BASE_URL,
+      jsonMode: process.env.LOCAL_LLM_JSON_MODE !== "off",
+    });
     const tasks = await llmProvider.generateTasks(prompt, environment, model);
 
-    // Distribute tasks to robots
-    const orchestrator = new RobotOrchestrator();
-    const robotTasks = await orchestrator.distributeTasks(tasks);
+    // Distribute tasks to the robots listed in the environment (globalState.robots), after any declared transforms
+    const { fleet } = applyScenarioTransforms(fleetFromScenario(environment.globalState?.robots), environment.transforms);
+    const orchestrator = activateFleet(fleet, environment.robotTypes);
+    const robotTasks = await orchestrator.distributeTasks(tasks, environment.operatorCommands?.taskPool);
+
+    // Execute the dispatched paths when the environment carries a warehouse grid, together with
+    // tasks still waiting in the queue for these robots (e.g. added through /api/fleet)
+    const map = environment.warehouseMap
+      ? WarehouseMap.fromScenario(environment.warehouseMap)
+      : WarehouseMap.from(environment.environmentMatrix);
+    const simulation = !map.isEmpty
+      ? orchestrator.simulate(orchestrator.waitingTasks(), map)
+      : undefined;
 
     return NextResponse.json({
       success: true,
       tasks,
       robotTasks,
+      simulation,
       timestamp: new Date().toISOString(),
     });
   } catch (err: unknown) {
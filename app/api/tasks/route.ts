@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getActiveOrchestrator } from "@/lib/robots";
+
+// Tasks of the latest dispatched fleet with their lifecycle history; filter by ?queueId= or ?robotId=
+export async function GET(req: NextRequest) {
+  const queue = getActiveOrchestrator().getQueue();
+  const queueId = req.nextUrl.searchParams.get("queueId");
+  const robotId = req.nextUrl.searchParams.get("robotId");
+
+  if (queueId) {
+    const task = queue.get(queueId);
+    if (!task) {
+      return NextResponse.json({ error: `Unknown queued task: ${queueId}` }, { status: 404 });
+    }
+    return NextResponse.json({ task });
+  }
+
+  return NextResponse.json({ tasks: robotId ? queue.forRobot(robotId) : queue.all() });
+}
+
+// Cancel a task that has not finished: DELETE /api/tasks?queueId=R1-1&reason=...
+export async function DELETE(req: NextRequest) {
+  const queueId = req.nextUrl.searchParams.get("queueId");
+  if (!queueId) {
+    return NextResponse.json({ error: "queueId is required" }, { status: 400 });
+  }
+
+  try {
+    const task = getActiveOrchestrator().cancelTask(queueId, req.nextUrl.searchParams.get("reason") || undefined);
+    return NextResponse.json({ success: true, task });
+  } catch (err: unknown) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+}
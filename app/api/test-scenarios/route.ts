@@ -2,23 +2,53 @@ import { NextRequest, NextResponse } from "next/server";
 import { getLLMProvider, detectProviderFromModel } from "@/lib/llm-providers";
 import { executeWarehouseGraph, WarehouseState } from "@/lib/langgraph-workflow";
 import { testScenarios } from "@/lib/test-scenarios";
-import { createTestEnvironment } from "@/lib/environment-matrix";
 import { evaluateTestRun } from "@/lib/evaluation";
-import { generatePDFReport, TestRunResult, TestReport } from "@/lib/pdf-generator";
+import { generatePDFReport, summarizePlanningModes, TestRunResult, TestReport } from "@/lib/pdf-generator";
+import { planPath } from "@/lib/robot-plan";
+import { repairPath } from "@/lib/path-planner";
+import { compareWithPlanner } from "@/lib/multi-agent-planner";
+import { fleetFromScenario, getFleetTypes } from "@/lib/fleet";
+import { applyScenarioTransforms, NORMALIZE_ROBOT_STATES } from "@/lib/scenario-transforms";
+import { WarehouseMap } from "@/lib/warehouse-map";
+import { withReplenishmentTasks } from "@/lib/inventory";
+import { expandOrderWaves } from "@/lib/orders";
+import { PlanningMode, resolvePlanningMode } from "@/lib/hybrid-planning";
+import { TaskQueue } from "@/lib/task-queue";
+import { DEFAULT_FIXTURES_DIR, FixtureMode, FixtureStore, RecordingProvider, ReplayProvider, resolveFixtureMode } from "@/lib/llm-fixtures";
 
 export async function POST(req: NextRequest) {
   try {
-    const { model, scenarioIds, customScenarios } = await req.json();
+    const { model, scenarioIds, customScenarios, normalizeRobotStates, planningModes, useTools, fixtureMode } = await req.json();
 
     if (!model) {
       return NextResponse.json({ error: "Model is required" }, { status: 400 });
     }
 
     // Detect provider and get API key
-    const provider = detectProviderFromModel(model);
+    let provider: string;
+    try {
+      provider = detectProviderFromModel(model);
+    } catch (error) {
+      return NextResponse.json({ error: error instanceof Error ? error.message : `Unsupported model: ${model}` }, { status: 400 });
+    }
+    let fixtures: FixtureMode;
+    try {
+      fixtures = resolveFixtureMode(fixtureMode);
+    } catch (error) {
+      return NextResponse.json({ error: error instanceof Error ? error.message : `Unknown fixture mode: ${fixtureMode}` }, { status: 400 });
+    }
+    // Each scenario runs once per requested planning mode, so the modes can be compared side by side
+    let modes: PlanningMode[];
+    try {
+      modes = Array.isArray(planningModes) && planningModes.length > 0 ? planningModes.map(resolvePlanningMode) : ["llm"];
+    } catch (error) {
+      return NextResponse.json({ error: error instanceof Error ? error.message : `Unknown planning modes: ${planningModes}` }, { status: 400 });
+    }
     let apiKey: string;
 
-    if (provider === "anthropic") {
+    if (fixtures === "replay") {
+      apiKey = ""; // Responses come from recorded fixtures
+    } else if (provider === "anthropic") {
       apiKey = process.env.ANTHROPIC_API_KEY || "";
       if (!apiKey) {
         return NextResponse.json({ error: "ANTHROPIC_API_KEY not set" }, { status: 500 });
@@ -38,70 +68,80 @@ export async function POST(req: NextRequest) {
       if (!apiKey) {
         return NextResponse.json({ error: "GEMINI_API_KEY not set" }, { status: 500 });
       }
+    } else if (provider === "local") {
+      apiKey = process.env.LOCAL_LLM_API_KEY || ""; // Most on-prem servers need no key
+      if (!process.env.LOCAL_LLM_BASE_URL) {
+        return NextResponse.json({ error: "LOCAL_LLM_BASE_URL not set" }, { status: 500 });
+      }
+    } else if (provider === "baseline") {
+      apiKey = ""; // Classical allocators run locally
     } else {
       return NextResponse.json({ error: `Unsupported model: ${model}` }, { status: 400 });
     }
 
-    const llmProvider = getLLMProvider(provider, apiKey);
+    // Record or replay the provider's responses as fixture files for deterministic offline runs
+    const fixtureStore = new FixtureStore(process.env.LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR);
+    const providerOptions = { baseUrl: process.env.LOCAL_LLM_BASE_URL, jsonMode: process.env.LOCAL_LLM_JSON_MODE !== "off" };
+    const llmProvider = fixtures === "replay"
+      ? new ReplayProvider(fixtureStore)
+      : fixtures === "record"
+        ? new RecordingProvider(getLLMProvider(provider, apiKey, providerOptions), fixtureStore)
+        : getLLMProvider(provider, apiKey, providerOptions);
 
     // Merge default and custom scenarios
     const allAvailableScenarios = customScenarios && Array.isArray(customScenarios)
       ? [...testScenarios, ...customScenarios]
       : testScenarios;
     
-    // Get scenarios to run
-    const scenariosToRun = scenarioIds
+    // Get scenarios to run. Stock-driven tasks (replenishment) join each scenario's task pool,
+    // and scenarios with customer orders run once per wave.
+    const scenariosToRun = (scenarioIds
       ? allAvailableScenarios.filter(s => scenarioIds.includes(s.id))
-      : allAvailableScenarios;
+      : allAvailableScenarios
+    ).flatMap(scenario => expandOrderWaves(withReplenishmentTasks(scenario)));
+
+    const runs = scenariosToRun.flatMap(scenario => modes.map(planningMode => ({ scenario, planningMode })));
 
     const results: TestRunResult[] = [];
+    const skippedScenarios: Array<{ scenario: string; error: string }> = [];
 
     // Run each scenario
-    for (const scenario of scenariosToRun) {
+    for (const { scenario, planningMode } of runs) {
       const startTime = Date.now();
 
-      // Create initial state - all robots start at 100% battery and WORKING status
-      // Use scenario positions if available, otherwise use defaults
-      // R4 moved from (15,0) which is in charging area to (13,0) which is a path
-      const robotStatuses: WarehouseState["robotStatuses"] = {
-        R1: { position: { row: 0, col: 0 }, battery: 100, status: "working" },
-        R2: { position: { row: 15, col: 17 }, battery: 100, status: "working" },
-        R3: { position: { row: 14, col: 16 }, battery: 100, status: "working" },
-        R4: { position: { row: 13, col: 0 }, battery: 100, status: "working" }, // Moved from charging area to path
-      };
-
-      // Update with scenario-specific positions (but keep battery at 100% and status as "working")
-      // Special handling: Move R4 if it's in charging area
-      if (scenario.globalState?.robots) {
-        Object.entries(scenario.globalState.robots).forEach(([robotId, robot]: [string, any]) => {
-          if (robotStatuses[robotId as keyof typeof robotStatuses]) {
-            const scenarioRow = robot.position?.row || 0;
-            const scenarioCol = robot.position?.col || 0;
-            
-            // Special case: If R4 is in charging area (row 15, col 0-3), move it to path
-            let finalRow = scenarioRow;
-            let finalCol = scenarioCol;
-            if (robotId === 'R4' && scenarioRow === 15 && scenarioCol >= 0 && scenarioCol <= 3) {
-              finalRow = 13; // Move to path row
-              finalCol = 0;  // Keep same column but on path
-            }
-            
-            robotStatuses[robotId as keyof typeof robotStatuses] = {
-              position: { row: finalRow, col: finalCol },
-              battery: 100, // Always start at 100% battery
-              status: "working", // Always start as working (not idle, not charging)
-            };
-          }
-        });
+      // A malformed map only skips its own scenario, not the whole batch
+      let scenarioMap: WarehouseMap;
+      try {
+        scenarioMap = WarehouseMap.fromScenario(scenario.warehouseMap);
+      } catch (err: unknown) {
+        const error = err instanceof Error ? err : new Error(String(err));
+        console.error(`[Scenario ${scenario.id}] Skipped: ${error.message}`);
+        skippedScenarios.push({ scenario: scenario.id || "Unknown", error: error.message });
+        continue;
       }
 
+      // Create initial state from the scenario's fleet with its real battery, status and charging
+      // station. Only the scenario's declared transforms (plus normalisation when requested) change it.
+      const transforms = [...(scenario.transforms || []), ...(normalizeRobotStates ? [NORMALIZE_ROBOT_STATES] : [])];
+      const { fleet: robotStatuses, applied: appliedTransforms } = applyScenarioTransforms(
+        fleetFromScenario(scenario.globalState?.robots),
+        transforms
+      );
+      appliedTransforms.forEach(transform => console.log(`[Scenario ${scenario.id}] Transform: ${transform}`));
+
       // Send the FULL scenario object as JSON to the LLM
       const fullScenarioData = {
         scenarioId: scenario.id,
         warehouseMap: scenario.warehouseMap,
         globalState: {
-          robots: robotStatuses, // Use our standardized robot statuses
+          robots: robotStatuses, // Robot states after the declared transforms
         },
+        robotTypes: scenario.robotTypes,
+        energyModel: scenario.energyModel,
+        inventory: scenario.inventory,
+        dynamics: scenario.dynamics,
+        faults: scenario.faults,
+        charging: scenario.charging,
         operatorCommands: scenario.operatorCommands,
         agentInstructions: scenario.agentInstructions,
       };
@@ -116,23 +156,21 @@ export async function POST(req: NextRequest) {
         sensorData: fullScenarioData, // Store full scenario in sensorData for reference
         llmPrompt: "",
         llmResponse: "",
-        robotCommands: {
-          R1: "",
-          R2: "",
-          R3: "",
-          R4: "",
-        },
+        robotCommands: Object.fromEntries(Object.keys(robotStatuses).map(robotId => [robotId, ""])),
         humanReadableResponse: "",
         executedCommands: [],
         operatorMessage: "",
         iteration: 0,
         shouldContinue: true,
         taskComplete: false,
-        environmentMatrix: scenario.warehouseMap.grid,
+        environmentMatrix: scenarioMap.toGrid(),
+        planningMode,
+        useTools: Boolean(useTools), // Model may call plan_path, check_conflicts, ... while planning
       };
 
       // Execute graph
-      const finalState = await executeWarehouseGraph(initialState, llmProvider, model, 3);
+      // Each run gets a queue of its own: nothing it leaves unfinished reaches the live fleet
+      const finalState = await executeWarehouseGraph(initialState, llmProvider, model, 3, { taskQueue: new TaskQueue() });
 
       const endTime = Date.now();
 
@@ -145,12 +183,14 @@ export async function POST(req: NextRequest) {
         evaluation,
         startTime,
         endTime,
+        appliedTransforms,
+        planningMode,
       });
     }
 
     // Generate report
     const summary = {
-      averageScore: results.reduce((sum, r) => sum + r.evaluation.percentage, 0) / results.length,
+      averageScore: results.length > 0 ? results.reduce((sum, r) => sum + r.evaluation.percentage, 0) / results.length : 0,
       totalTests: results.length,
       passedTests: results.filter(r => r.evaluation.percentage >= 70).length,
       failedTests: results.filter(r => r.evaluation.percentage < 70).length,
@@ -162,137 +202,20 @@ export async function POST(req: NextRequest) {
       model,
       results,
       summary,
+      planningModes: modes.length > 1 ? summarizePlanningModes(results) : undefined,
     };
 
     // Generate PDF
     const pdfBuffer = generatePDFReport(report);
 
-    // Extract paths from robot commands for visualization
-    const extractPath = (command: string, scenarioGrid?: string[][]): Array<[number, number]> | undefined => {
-      if (!command) return undefined;
-      try {
-        // Try multiple patterns to extract path - use bracket counting to get complete path
-        let pathMatch: RegExpMatchArray | null = null;
-        
-        // Pattern 1: "Path: [[row,col], [row,col], ...]" - use bracket counting
-        const pathPattern1 = /path:\s*(\[\[[\s\S]*)/i;
-        const match1 = command.match(pathPattern1);
-        if (match1) {
-          let bracketCount = 0;
-          let pathStr = '';
-          let foundStart = false;
-          for (let i = match1.index! + match1[0].indexOf('[['); i < command.length; i++) {
-            const char = command[i];
-            if (char === '[') {
-              bracketCount++;
-              foundStart = true;
-            } else if (char === ']') {
-              bracketCount--;
-            }
-            pathStr += char;
-            if (foundStart && bracketCount === 0) {
-              pathMatch = [match1[0], pathStr];
-              break;
-            }
-          }
-        }
-        
-        // Pattern 2: Look for array of arrays directly with bracket counting
-        if (!pathMatch) {
-          const bracketStart = command.indexOf('[[');
-          if (bracketStart !== -1) {
-            let bracketCount = 0;
-            let pathStr = '';
-            for (let i = bracketStart; i < command.length; i++) {
-              const char = command[i];
-              if (char === '[') bracketCount++;
-              if (char === ']') bracketCount--;
-              pathStr += char;
-              if (bracketCount === 0 && pathStr.length > 2) {
-                pathMatch = ['', pathStr];
-                break;
-              }
-            }
-          }
-        }
-        
-        if (pathMatch) {
-          let pathStr = pathMatch[1];
-          // Clean up the path string
-          pathStr = pathStr.trim();
-          
-          // Try to parse as JSON
-          let parsed: any;
-          try {
-            parsed = JSON.parse(pathStr);
-          } catch (parseErr) {
-            // If direct parse fails, try to fix common issues
-            pathStr = pathStr.replace(/,\s+/g, ',');
-            pathStr = pathStr.replace(/\s*\[\s*/g, '[').replace(/\s*\]\s*/g, ']');
-            try {
-              parsed = JSON.parse(pathStr);
-            } catch {
-              // Last resort: extract coordinates manually
-              const coordMatches = pathStr.matchAll(/\[(\d+)\s*,\s*(\d+)\]/g);
-              const coords: Array<[number, number]> = [];
-              for (const match of coordMatches) {
-                coords.push([Number(match[1]), Number(match[2])]);
-              }
-              if (coords.length > 0) {
-                parsed = coords;
-              } else {
-                throw parseErr;
-              }
-            }
-          }
-          
-          // Ensure it's an array of [row, col] tuples
-          if (Array.isArray(parsed) && parsed.length > 0) {
-            const result = parsed.map((item: any) => {
-              if (Array.isArray(item) && item.length >= 2) {
-                return [Number(item[0]), Number(item[1])] as [number, number];
-              }
-              return null;
-            }).filter((item: any) => item !== null) as Array<[number, number]>;
-            
-            if (result.length > 0) {
-              // Filter out paths that go through obstacles (shelves) if grid is provided
-              if (scenarioGrid && Array.isArray(scenarioGrid)) {
-                const filteredResult = result.filter(([row, col]) => {
-                  // Check bounds and if this cell is an obstacle
-                  if (row >= 0 && row < scenarioGrid.length && 
-                      col >= 0 && col < scenarioGrid[row]?.length &&
-                      scenarioGrid[row][col] === 'S') {
-                    return false;
-                  }
-                  return true;
-                });
-                
-                if (filteredResult.length < result.length) {
-                  console.warn(`Filtered ${result.length - filteredResult.length} obstacle cells from path`);
-                }
-                
-                return filteredResult.length > 0 ? filteredResult : result;
-              }
-              
-              return result;
-            }
-          }
-        }
-      } catch (e) {
-        console.error('Path extraction error:', e, 'Command:', command.substring(0, 300));
-      }
-      return undefined;
-    };
-
     // Return results and PDF as base64
     return NextResponse.json({
       success: true,
       report: {
         ...report,
         results: results.map(r => {
-          // Get scenario grid and robot positions
-          const scenarioGrid = r.scenario.warehouseMap?.grid || [];
+          // Get scenario map and robot positions
+          const scenarioMap = WarehouseMap.fromScenario(r.scenario.warehouseMap);
           const robotPositions: { [key: string]: { row: number; col: number; battery: number; status: string } } = {};
           
           // Extract robot positions from final state (use initial positions from scenario)
@@ -305,46 +228,72 @@ export async function POST(req: NextRequest) {
             };
           });
 
-          // Extract tasks and paths from robot commands
-          const robotTasks: { [key: string]: { robotId: string; task: string; path?: Array<[number, number]> } } = {};
-          Object.entries(r.state.robotCommands).forEach(([robotId, command]) => {
-            if (command) {
-              const extractedPath = extractPath(command, scenarioGrid);
+          // Take each plan's waypoints and rewrite them into continuous, shelf-free paths
+          // that follow the map's traffic rules for each robot's type
+          const robotTypes = getFleetTypes({ robotStatuses: r.state.robotStatuses, robotTypes: r.scenario.robotTypes });
+          const robotTasks: { [key: string]: { robotId: string; task: string; path?: Array<[number, number]>; waypoints?: Array<[number, number]>; pathIssues?: string[] } } = {};
+          Object.entries(r.state.robotPlans || {}).forEach(([robotId, plan]) => {
+            if (plan) {
+              const command = plan.description;
+              const path = planPath(plan);
+              const waypoints = path.length > 0 ? path : undefined;
+              const start = r.state.robotStatuses[robotId]?.position;
+              const repair = waypoints && start && !scenarioMap.isEmpty
+                ? repairPath(scenarioMap, [start.row, start.col], waypoints, { robotType: robotTypes[robotId]?.id })
+                : undefined;
               robotTasks[robotId] = {
                 robotId,
                 task: command,
-                path: extractedPath,
+                path: repair ? repair.path : waypoints,
+                waypoints,
+                pathIssues: repair?.issues,
               };
-              // Debug logging
-              if (extractedPath && extractedPath.length > 0) {
-                console.log(`✓ Extracted path for ${robotId}: ${extractedPath.length} waypoints - ${JSON.stringify(extractedPath.slice(0, 3))}...`);
-              } else {
-                console.warn(`⚠ No path extracted for ${robotId}. Command preview: ${command.substring(0, 150)}`);
+              if (repair && repair.issues.length > 0) {
+                console.warn(`⚠ Repaired path for ${robotId}: ${repair.issues.join("; ")}`);
+              } else if (!waypoints) {
+                console.warn(`⚠ No path in the plan for ${robotId}. Plan: ${command.substring(0, 150)}`);
               }
             }
           });
-          
-          // Log all extracted paths for debugging
-          console.log('All extracted robot tasks:', Object.keys(robotTasks).map(id => ({
-            robotId: id,
-            hasPath: !!robotTasks[id].path,
-            pathLength: robotTasks[id].path?.length || 0
-          })));
+
+          // Compare the LLM's paths with a conflict-free plan from the multi-agent planner,
+          // moving each robot at its type's speed
+          const coordination = !scenarioMap.isEmpty
+            ? compareWithPlanner(
+                scenarioMap,
+                Object.fromEntries(Object.entries(robotPositions).map(([robotId, pos]) => [robotId, [pos.row, pos.col] as [number, number]])),
+                Object.fromEntries(Object.entries(robotTasks).map(([robotId, task]) => [robotId, task.waypoints || []])),
+                {
+                  speeds: Object.fromEntries(Object.entries(robotTypes).map(([robotId, type]) => [robotId, type.speedCellsPerTick])),
+                  robotTypes: Object.fromEntries(Object.entries(robotTypes).map(([robotId, type]) => [robotId, type.id])),
+                }
+              )
+            : undefined;
 
           return {
             scenario: r.scenario.id || "Unknown",
+            planningMode: r.planningMode,
+            assignments: r.state.assignments,
             evaluation: r.evaluation,
+            appliedTransforms: r.appliedTransforms || [],
             commands: r.state.robotCommands,
+            plans: r.state.robotPlans,
+            toolCalls: r.state.toolTranscript,
+            planIssues: r.state.planIssues,
             scenarioData: {
-              grid: scenarioGrid,
+              grid: scenarioMap.toGrid(),
+              traffic: r.scenario.warehouseMap.traffic,
               robots: robotPositions,
               tasks: robotTasks,
+              simulation: r.state.simulation,
+              coordination,
             },
           };
         }),
       },
       pdfBase64: pdfBuffer.toString("base64"),
       summary,
+      skippedScenarios,
     });
   } catch (err: any) {
     console.error("Test scenario error:", err);
@@ -1,76 +1,36 @@
 "use client";
 
+import { useEffect, useState } from "react";
+import type { RobotStatusReport } from "@/lib/robots";
 import TestScenarioRunner from "@/components/TestScenarioRunner";
 import RobotStatusDashboard from "@/components/RobotStatusDashboard";
 
+// Robot statuses and queue counts of the latest dispatched fleet
+async function fetchRobotStatus(): Promise<RobotStatusReport[]> {
+  try {
+    const response = await fetch('/api/fleet');
+    const data = await response.json();
+    return data.robots || [];
+  } catch (error) {
+    console.error('Failed to load robot status:', error);
+    return [];
+  }
+}
+
 export default function HomePage() {
-  // Sample robot data - all robots have the same capabilities
-  const commonCapabilities = [
-    'Path planning', 'Route optimization', 'Obstacle avoidance', 'Location tracking',
-    'Object grasping', 'Precision movement', 'Tool usage', 'Object placement',
-    'Object detection', 'Environmental monitoring', 'Data collection',
-    'Inter-robot coordination', 'Status reporting', 'Task synchronization'
-  ];
+  const [robots, setRobots] = useState<RobotStatusReport[]>([]);
 
-  const mockRobots = [
-    {
-      robotId: 'R1',
-      robotName: 'Robot R1',
-      status: 'working' as const,
-      currentTask: 'Ready for task assignment',
-      batteryPercent: 100,
-      position: { row: 0, col: 0 },
-      tasksCompleted: 0,
-      tasksInQueue: 0,
-      lastUpdated: new Date().toLocaleTimeString(),
-      capabilities: commonCapabilities
-    },
-    {
-      robotId: 'R2',
-      robotName: 'Robot R2',
-      status: 'working' as const,
-      currentTask: 'Ready for task assignment',
-      batteryPercent: 100,
-      position: { row: 15, col: 17 },
-      tasksCompleted: 0,
-      tasksInQueue: 0,
-      lastUpdated: new Date().toLocaleTimeString(),
-      capabilities: commonCapabilities
-    },
-    {
-      robotId: 'R3',
-      robotName: 'Robot R3',
-      status: 'working' as const,
-      currentTask: 'Ready for task assignment',
-      batteryPercent: 100,
-      position: { row: 14, col: 16 },
-      tasksCompleted: 0,
-      tasksInQueue: 0,
-      lastUpdated: new Date().toLocaleTimeString(),
-      capabilities: commonCapabilities
-    },
-    {
-      robotId: 'R4',
-      robotName: 'Robot R4',
-      status: 'working' as const,
-      currentTask: 'Ready for task assignment',
-      batteryPercent: 100,
-      position: { row: 13, col: 0 }, // Moved from (15,0) charging area to (13,0) path
-      tasksCompleted: 0,
-      tasksInQueue: 0,
-      lastUpdated: new Date().toLocaleTimeString(),
-      capabilities: commonCapabilities
-    }
-  ];
+  useEffect(() => {
+    fetchRobotStatus().then(setRobots);
+  }, []);
 
   const handleRefresh = () => {
-    console.log('Refreshing robot status...');
-    // Add your refresh logic here
+    fetchRobotStatus().then(setRobots);
   };
 
   return (
     <div className="space-y-8 p-4">
-      <RobotStatusDashboard robots={mockRobots} onRefresh={handleRefresh} />
+      <RobotStatusDashboard robots={robots} onRefresh={handleRefresh} />
       <TestScenarioRunner />
     </div>
   );
@@ -1,20 +1,12 @@
 "use client";
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Loader2, Upload, Send, CheckCircle2, AlertCircle } from 'lucide-react';
 import WarehouseGridVisualization from './WarehouseGridVisualization';
-
-interface RobotTasks {
-  R1?: string;
-  R2?: string;
-  R3?: string;
-  R4?: string;
-  // Fallback for old format
-  navigation?: string;
-  manipulation?: string;
-  sensing?: string;
-  communication?: string;
-  [key: string]: string | undefined;
-}
+import { fleetFromScenario, getRobotIds } from '@/lib/fleet';
+import { getRobotPalette } from '@/lib/robot-palette';
+import { applyScenarioTransforms } from '@/lib/scenario-transforms';
+import type { RobotTasks } from '@/lib/llm-providers';
+import { planPath } from '@/lib/robot-plan';
 
 const RobotOrchestrationSystem = () => {
   const [prompt, setPrompt] = useState('');
@@ -23,6 +15,7 @@ const RobotOrchestrationSystem = () => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [robotTasks, setRobotTasks] = useState<RobotTasks | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [localModels, setLocalModels] = useState<Array<{ id: string; name: string }>>([]);
 
   const models: Array<{ id: string; name: string; group: 'free' | 'paid' }> = [
     { id: 'gemini-1.5-flash', name: 'Gemini 1.5 Flash (Google) - FREE ⭐', group: 'free' },
@@ -40,12 +33,22 @@ const RobotOrchestrationSystem = () => {
     { id: 'grok-2-1212', name: 'Grok-2 1212 (xAI)', group: 'paid' }
   ];
 
-  const robots = [
-    { id: 1, name: 'Robot R1', color: 'bg-blue-500', role: 'R1' },
-    { id: 2, name: 'Robot R2', color: 'bg-green-500', role: 'R2' },
-    { id: 3, name: 'Robot R3', color: 'bg-purple-500', role: 'R3' },
-    { id: 4, name: 'Robot R4', color: 'bg-orange-500', role: 'R4' }
-  ];
+  // Models on the on-prem server, when one is configured (LOCAL_LLM_BASE_URL)
+  useEffect(() => {
+    fetch('/api/models')
+      .then(response => response.json())
+      .then(data => setLocalModels(Array.isArray(data.local) ? data.local : []))
+      .catch(() => setLocalModels([]));
+  }, []);
+
+  // Fleet comes from the uploaded environment (globalState.robots), defaulting to R1-R4
+  const robotIds = getRobotIds(environment || undefined);
+  const robots = robotIds.map(robotId => ({
+    id: robotId,
+    name: `Robot ${robotId}`,
+    color: getRobotPalette(robotId, robotIds).marker,
+    role: robotId,
+  }));
 
   // Extract grid and robot positions from environment
   const getGridFromEnvironment = (): string[][] => {
@@ -61,21 +64,14 @@ const RobotOrchestrationSystem = () => {
     const positions: { [robotId: string]: { row: number; col: number; battery?: number; status?: string } } = {};
     
     if (environment.globalState?.robots) {
-      Object.entries(environment.globalState.robots).forEach(([robotId, robot]: [string, any]) => {
-        let row = robot.position?.row || 0;
-        let col = robot.position?.col || 0;
-        
-        // Special case: If R4 is in charging area (row 15, col 0-3), move it to path
-        if (robotId === 'R4' && row === 15 && col >= 0 && col <= 3) {
-          row = 13; // Move to path row
-          col = 0;  // Keep same column but on path
-        }
-        
+      // Positions after the environment's declared transforms, if any
+      const { fleet } = applyScenarioTransforms(fleetFromScenario(environment.globalState.robots), environment.transforms);
+      Object.entries(fleet).forEach(([robotId, robot]) => {
         positions[robotId] = {
-          row,
-          col,
-          battery: robot.batteryPercent || robot.battery || 100,
-          status: robot.status || "working",
+          row: robot.position.row,
+          col: robot.position.col,
+          battery: robot.battery,
+          status: robot.status,
         };
       });
     }
@@ -87,23 +83,13 @@ const RobotOrchestrationSystem = () => {
     if (!robotTasks) return {};
     const tasks: { [robotId: string]: { robotId: string; task: string; path?: Array<[number, number]> } } = {};
     
-    Object.entries(robotTasks).forEach(([robotId, task]) => {
-      if (task && typeof task === 'string') {
-        // Try to extract path from task string
-        let path: Array<[number, number]> | undefined;
-        try {
-          const pathMatch = task.match(/path:\s*(\[[\s\S]*?\])/i);
-          if (pathMatch) {
-            path = JSON.parse(pathMatch[1]);
-          }
-        } catch (e) {
-          // Path parsing failed
-        }
-        
+    Object.entries(robotTasks).forEach(([robotId, plan]) => {
+      if (plan) {
+        const path = planPath(plan);
         tasks[robotId] = {
           robotId,
-          task,
-          path,
+          task: plan.description,
+          path: path.length > 0 ? path : undefined,
         };
       }
     });
@@ -271,6 +257,13 @@ const RobotOrchestrationSystem = () => {
                     </option>
                   ))}
                 </optgroup>
+                {localModels.length > 0 && (
+                  <optgroup label="🖥️ Local Models (on-prem server)">
+                    {localModels.map(model => (
+                      <option key={model.id} value={model.id}>{model.name}</option>
+                    ))}
+                  </optgroup>
+                )}
               </select>
             </div>
 
@@ -338,7 +331,7 @@ const RobotOrchestrationSystem = () => {
                   <p className="text-sm text-slate-400 mb-2">All robots have the same capabilities</p>
                   {robotTasks && robotTasks[robot.role] && (
                     <div className="mt-2 p-3 bg-slate-800 rounded border border-slate-600">
-                      <p className="text-sm text-slate-300">{robotTasks[robot.role]}</p>
+                      <p className="text-sm text-slate-300">{robotTasks[robot.role]?.description}</p>
                     </div>
                   )}
                 </div>
@@ -356,8 +349,7 @@ const RobotOrchestrationSystem = () => {
                 grid={getGridFromEnvironment()}
                 robots={getRobotPositions()}
                 tasks={getRobotTasks()}
-                width={18}
-                height={16}
+                traffic={environment.warehouseMap?.traffic}
               />
             </div>
           </div>
@@ -66,7 +66,8 @@ const RobotStatusDashboard: React.FC<RobotStatusDashboardProps> = ({
     }
   };
 
-  const selectedRobotData = robots.find(r => r.robotId === selectedRobot);
+  // Fall back to the first robot when the selection is not in a (re)loaded list
+  const selectedRobotData = robots.find(r => r.robotId === selectedRobot) || robots[0];
   const batteryColor = 
     selectedRobotData && selectedRobotData.batteryPercent < 20 ? 'text-red-600' :
     selectedRobotData && selectedRobotData.batteryPercent < 50 ? 'text-yellow-600' :
@@ -85,7 +86,7 @@ const RobotStatusDashboard: React.FC<RobotStatusDashboardProps> = ({
             key={robot.robotId}
             onClick={() => setSelectedRobot(robot.robotId)}
             className={`p-4 rounded-lg border-2 cursor-pointer transition-all ${
-              selectedRobot === robot.robotId
+              selectedRobotData?.robotId === robot.robotId
                 ? 'border-blue-500 bg-blue-50 shadow-md'
                 : 'border-gray-200 bg-white hover:border-blue-300'
             }`}
@@ -2,10 +2,28 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { Play, Download, Loader2, CheckCircle2, XCircle, FileText, Plus, Edit2, Trash2, Save, X, Info, Bot, Settings, Grid3x3 } from 'lucide-react';
 import { testScenarios, TestScenario } from '@/lib/test-scenarios';
+import type { SimulationResult } from '@/lib/simulator';
+import type { PlanComparison } from '@/lib/multi-agent-planner';
+import { DEFAULT_FLEET, fleetFromScenario, sortRobotIds } from '@/lib/fleet';
+import { getRobotPalette } from '@/lib/robot-palette';
+import { DEFAULT_ROBOT_TYPE, ROBOT_TYPES } from '@/lib/robot-types';
+import { applyScenarioTransforms } from '@/lib/scenario-transforms';
+import { describeHistory } from '@/lib/task-lifecycle';
+import type { TrafficAnnotations } from '@/lib/traffic-rules';
+import type { FixtureMode } from '@/lib/llm-fixtures';
+import { describeAssignments, PLANNING_MODES, PlanningMode, TaskAssignments } from '@/lib/hybrid-planning';
+import type { PlanningModeSummary } from '@/lib/pdf-generator';
+import { describeToolCalls, ToolCallRecord } from '@/lib/planning-tools';
+import { describePlanIssues, PlanIssue } from '@/lib/plan-validation';
 import WarehouseGridVisualization from './WarehouseGridVisualization';
 
 interface TestResult {
   scenario: string;
+  planningMode?: PlanningMode;
+  assignments?: TaskAssignments;
+  toolCalls?: ToolCallRecord[];
+  planIssues?: PlanIssue[];
+  appliedTransforms?: string[];
   evaluation: {
     totalScore: number;
     maxTotalScore: number;
@@ -15,29 +33,33 @@ interface TestResult {
     safetyCompliance: { score: number; details: string };
     taskAllocation: { score: number; details: string };
     pathQuality: { score: number; details: string };
+    repairRounds?: number;
   };
-  commands: {
-    R1: string;
-    R2: string;
-    R3: string;
-    R4: string;
-  };
+  commands: { [robotId: string]: string };
   scenarioData?: {
     grid: string[][];
+    traffic?: TrafficAnnotations;
     robots: { [robotId: string]: { row: number; col: number; battery: number; status: string } };
-    tasks: { [robotId: string]: { robotId: string; task: string; path?: Array<[number, number]> } };
+    tasks: { [robotId: string]: { robotId: string; task: string; path?: Array<[number, number]>; pathIssues?: string[] } };
+    simulation?: SimulationResult;
+    coordination?: PlanComparison;
   };
 }
 
 export default function TestScenarioRunner() {
   const [selectedModel, setSelectedModel] = useState('gemini-1.5-flash');
   const [selectedScenarios, setSelectedScenarios] = useState<string[]>([]);
+  const [normalizeRobotStates, setNormalizeRobotStates] = useState(false);
+  const [planningMode, setPlanningMode] = useState<PlanningMode | 'compare'>('llm');
+  const [useTools, setUseTools] = useState(false);
+  const [fixtureMode, setFixtureMode] = useState<FixtureMode>('off');
   const [isRunning, setIsRunning] = useState(false);
   const [results, setResults] = useState<any>(null);
   const [error, setError] = useState<string | null>(null);
   const [customScenarios, setCustomScenarios] = useState<TestScenario[]>([]);
   const [showCustomBuilder, setShowCustomBuilder] = useState(false);
   const [editingScenario, setEditingScenario] = useState<TestScenario | null>(null);
+  const [localModels, setLocalModels] = useState<Array<{ id: string; name: string }>>([]);
   
   // Load custom scenarios from localStorage on mount
   useEffect(() => {
@@ -51,6 +73,14 @@ export default function TestScenarioRunner() {
     }
   }, []);
   
+  // Models on the on-prem server, when one is configured (LOCAL_LLM_BASE_URL)
+  useEffect(() => {
+    fetch('/api/models')
+      .then(response => response.json())
+      .then(data => setLocalModels(Array.isArray(data.local) ? data.local : []))
+      .catch(() => setLocalModels([]));
+  }, []);
+
   // Save custom scenarios to localStorage whenever they change
   useEffect(() => {
     if (customScenarios.length > 0) {
@@ -72,45 +102,16 @@ export default function TestScenarioRunner() {
     const defaultScenario = allScenarios[0];
     const defaultGrid = defaultScenario?.warehouseMap?.grid || [];
     
-    // Default robot positions (all at 100% battery, working status)
-    // R4 moved from (15,0) which is in charging area to (13,0) which is a path
-    const defaultRobots: { [key: string]: { row: number; col: number; battery: number; status: string } } = {
-      R1: { row: 0, col: 0, battery: 100, status: "working" },
-      R2: { row: 15, col: 17, battery: 100, status: "working" },
-      R3: { row: 14, col: 16, battery: 100, status: "working" },
-      R4: { row: 13, col: 0, battery: 100, status: "working" }, // Moved from (15,0) charging area to path
-    };
-    
-    // Update with scenario positions if available
-    // BUT: Override R4 if it's in charging area (row 15, col 0-3) to move it to a path
-    if (defaultScenario?.globalState?.robots) {
-      Object.entries(defaultScenario.globalState.robots).forEach(([robotId, robot]: [string, any]) => {
-        if (defaultRobots[robotId]) {
-          const scenarioRow = robot.position?.row;
-          const scenarioCol = robot.position?.col;
-          
-          // Special case: If R4 is in charging area (row 15, col 0-3), move it to path
-          if (robotId === 'R4' && scenarioRow === 15 && scenarioCol !== undefined && scenarioCol >= 0 && scenarioCol <= 3) {
-            defaultRobots[robotId] = {
-              row: 13, // Move to path row
-              col: 0,  // Keep same column but on path
-              battery: 100,
-              status: "working",
-            };
-          } else {
-            defaultRobots[robotId] = {
-              row: scenarioRow || defaultRobots[robotId].row,
-              col: scenarioCol || defaultRobots[robotId].col,
-              battery: 100,
-              status: "working",
-            };
-          }
-        }
-      });
-    }
+    // Robots come from the scenario's fleet after its declared transforms
+    const defaultRobots: { [key: string]: { row: number; col: number; battery: number; status: string } } = {};
+    const { fleet } = applyScenarioTransforms(fleetFromScenario(defaultScenario?.globalState?.robots), defaultScenario?.transforms);
+    Object.entries(fleet).forEach(([robotId, robot]) => {
+      defaultRobots[robotId] = { ...robot.position, battery: robot.battery, status: robot.status };
+    });
     
     return {
       grid: defaultGrid,
+      traffic: defaultScenario?.warehouseMap?.traffic,
       robots: defaultRobots,
       tasks: {} as { [key: string]: { robotId: string; task: string; path?: Array<[number, number]> } },
     };
@@ -123,6 +124,9 @@ export default function TestScenarioRunner() {
     { id: 'claude-sonnet-4-20250514', name: 'Claude Sonnet 4 (Anthropic)', group: 'paid' },
     { id: 'claude-opus-4-20250514', name: 'Claude Opus 4 (Anthropic)', group: 'paid' },
     { id: 'gpt-4o', name: 'GPT-4o (OpenAI)', group: 'paid' },
+    { id: 'baseline-greedy', name: 'Greedy nearest robot', group: 'baseline' },
+    { id: 'baseline-hungarian', name: 'Hungarian assignment', group: 'baseline' },
+    { id: 'baseline-auction', name: 'Auction (market-based)', group: 'baseline' },
   ];
 
   const toggleScenario = (scenarioId: string) => {
@@ -155,6 +159,10 @@ export default function TestScenarioRunner() {
           model: selectedModel,
           scenarioIds: selectedScenarios,
           customScenarios: customSelected.length > 0 ? customSelected : undefined,
+          normalizeRobotStates,
+          planningModes: planningMode === 'compare' ? Object.keys(PLANNING_MODES) : [planningMode],
+          useTools,
+          fixtureMode,
         }),
       });
 
@@ -225,6 +233,60 @@ export default function TestScenarioRunner() {
                     <option key={model.id} value={model.id}>{model.name}</option>
                   ))}
                 </optgroup>
+                {localModels.length > 0 && (
+                  <optgroup label="🖥️ Local Models (on-prem server)">
+                    {localModels.map(model => (
+                      <option key={model.id} value={model.id}>{model.name}</option>
+                    ))}
+                  </optgroup>
+                )}
+                <optgroup label="🧮 Classical Baselines (no API key)">
+                  {models.filter(m => m.group === 'baseline').map(model => (
+                    <option key={model.id} value={model.id}>{model.name}</option>
+                  ))}
+                </optgroup>
+              </select>
+            </div>
+
+            {/* Planning Mode */}
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-slate-300 mb-2">
+                Planning Mode
+              </label>
+              <select
+                value={planningMode}
+                onChange={(e) => setPlanningMode(e.target.value as PlanningMode | 'compare')}
+                className="w-full px-4 py-2 bg-slate-900 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {(Object.keys(PLANNING_MODES) as PlanningMode[]).map(mode => (
+                  <option key={mode} value={mode}>{PLANNING_MODES[mode]}</option>
+                ))}
+                <option value="compare">Compare both side by side</option>
+              </select>
+              <label className="flex items-center mt-3 text-xs text-slate-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={useTools}
+                  onChange={(e) => setUseTools(e.target.checked)}
+                  className="mr-2"
+                />
+                Planning tools (the model may call plan_path, get_robot_status, check_conflicts and nearest_charger)
+              </label>
+            </div>
+
+            {/* Recorded Responses */}
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-slate-300 mb-2">
+                Recorded Responses
+              </label>
+              <select
+                value={fixtureMode}
+                onChange={(e) => setFixtureMode(e.target.value as FixtureMode)}
+                className="w-full px-4 py-2 bg-slate-900 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="off">Off - call the model</option>
+                <option value="record">Record - call the model and save its responses</option>
+                <option value="replay">Replay - use saved responses, no API calls</option>
               </select>
             </div>
 
@@ -312,6 +374,15 @@ export default function TestScenarioRunner() {
                   </label>
                 ))}
               </div>
+              <label className="flex items-center mt-3 text-xs text-slate-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={normalizeRobotStates}
+                  onChange={(e) => setNormalizeRobotStates(e.target.checked)}
+                  className="mr-2"
+                />
+                Normalize robot states (start every robot at 100% battery and working)
+              </label>
             </div>
 
             {/* Run Button */}
@@ -367,8 +438,7 @@ export default function TestScenarioRunner() {
                     grid={initialGridState.grid}
                     robots={initialGridState.robots}
                     tasks={initialGridState.tasks}
-                    width={18}
-                    height={16}
+                    traffic={initialGridState.traffic}
                   />
                 </div>
                 <div className="text-center py-8 text-slate-400">
@@ -412,11 +482,46 @@ export default function TestScenarioRunner() {
                   </div>
                 </div>
 
+                {/* Scenarios whose map could not be loaded */}
+                {results.skippedScenarios?.length > 0 && (
+                  <div className="bg-red-900/20 rounded-lg p-4 border border-red-700">
+                    <h3 className="text-sm font-semibold text-red-300 mb-2">Skipped Scenarios</h3>
+                    {results.skippedScenarios.map((skipped: { scenario: string; error: string }) => (
+                      <div key={skipped.scenario} className="text-xs text-red-200">
+                        {skipped.scenario}: {skipped.error}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {/* Planning modes side by side */}
+                {results.report.planningModes && (
+                  <div className="bg-slate-900 rounded-lg p-4 border border-slate-700">
+                    <h3 className="text-lg font-semibold text-white mb-3">Planning Mode Comparison</h3>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {results.report.planningModes.map((summary: PlanningModeSummary) => (
+                        <div key={summary.mode} className="bg-slate-800 rounded p-3">
+                          <div className="text-sm text-slate-400">{PLANNING_MODES[summary.mode]}</div>
+                          <div className="text-2xl font-bold text-blue-400">{summary.averageScore.toFixed(1)}%</div>
+                          <div className="text-xs text-slate-400">
+                            Path quality {summary.averagePathQuality.toFixed(1)}% · {summary.passedTests}/{summary.totalTests} passed
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Individual Results */}
                 {results.report.results.map((result: TestResult, index: number) => (
                   <div key={index} className="bg-slate-900 rounded-lg p-4 border border-slate-700">
                     <div className="flex items-center justify-between mb-3">
-                      <h4 className="text-lg font-semibold text-white">{result.scenario}</h4>
+                      <h4 className="text-lg font-semibold text-white">
+                        {result.scenario}
+                        {result.planningMode && (result.planningMode === 'hybrid' || results.report.planningModes) && (
+                          <span className="ml-2 text-xs font-normal text-purple-300">{result.planningMode}</span>
+                        )}
+                      </h4>
                       {result.evaluation.percentage >= 70 ? (
                         <CheckCircle2 className="w-6 h-6 text-green-400" />
                       ) : (
@@ -424,6 +529,37 @@ export default function TestScenarioRunner() {
                       )}
                     </div>
 
+                    {result.assignments && (
+                      <div className="mb-3 text-xs text-purple-300">
+                        LLM assignments (paths by planner): {describeAssignments(result.assignments)}
+                      </div>
+                    )}
+
+                    {result.toolCalls && (
+                      <div className="mb-3 text-xs text-cyan-300">
+                        Tool calls ({result.toolCalls.length}): {describeToolCalls(result.toolCalls)}
+                      </div>
+                    )}
+
+                    {result.planIssues && (result.planIssues.length > 0 || (result.evaluation.repairRounds || 0) > 0) && (
+                      <div className="mb-3 text-xs text-orange-300 space-y-1">
+                        <div>
+                          Plan validation: {result.planIssues.length === 0 ? 'passed' : `${describePlanIssues(result.planIssues)} left`} after {result.evaluation.repairRounds || 0} repair round(s)
+                        </div>
+                        {result.planIssues.map((issue, idx) => (
+                          <div key={idx}>{issue.message}</div>
+                        ))}
+                      </div>
+                    )}
+
+                    {result.appliedTransforms && result.appliedTransforms.length > 0 && (
+                      <div className="mb-3 text-xs text-amber-300 space-y-1">
+                        {result.appliedTransforms.map((transform, idx) => (
+                          <div key={idx}>Scenario transform: {transform}</div>
+                        ))}
+                      </div>
+                    )}
+
                     <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4">
                       <div>
                         <div className="text-xs text-slate-400">Response Time</div>
@@ -479,8 +615,7 @@ export default function TestScenarioRunner() {
                           grid={result.scenarioData.grid || []}
                           robots={result.scenarioData.robots || {}}
                           tasks={result.scenarioData.tasks || {}}
-                          width={18}
-                          height={16}
+                          traffic={result.scenarioData.traffic}
                         />
                       ) : (
                         <div className="text-slate-400 text-center py-8">
@@ -496,22 +631,143 @@ export default function TestScenarioRunner() {
                       )}
                     </div>
 
+                    {/* Simulated execution of the dispatched paths */}
+                    {result.scenarioData?.simulation && (
+                      <div className="mt-4 bg-slate-800 rounded-lg p-4">
+                        <h5 className="text-sm font-semibold text-slate-300 mb-2">
+                          Simulated Execution ({result.scenarioData.simulation.ticks} ticks{result.scenarioData.simulation.finished ? '' : ', stopped at tick limit'})
+                        </h5>
+                        <div className="space-y-1 text-xs">
+                          {result.scenarioData.simulation.tasks.map((task, taskIdx) => {
+                            const trajectory = result.scenarioData!.simulation!.trajectories[task.robotId] || [];
+                            const last = trajectory[trajectory.length - 1];
+                            const failure = result.scenarioData!.simulation!.events.find(e => e.robotId === task.robotId && e.type === 'failed');
+                            const warning = result.scenarioData!.simulation!.events.find(e => e.robotId === task.robotId && e.type === 'warning');
+                            return (
+                              <div key={task.queueId || taskIdx} className="text-slate-300">
+                                <div className="flex items-center gap-2">
+                                  <span className="font-semibold">{task.robotId}:</span>
+                                  <span className={task.status === 'completed' ? 'text-green-400' : task.status === 'failed' || task.status === 'cancelled' ? 'text-red-400' : 'text-yellow-400'}>
+                                    {task.status}
+                                  </span>
+                                  {last && <span>ended at ({last.row}, {last.col}) with {last.battery.toFixed(1)}% battery</span>}
+                                  {failure?.detail && <span className="text-red-300">- {failure.detail}</span>}
+                                  {!failure && warning?.detail && <span className="text-amber-300">- {warning.detail}</span>}
+                                </div>
+                                {task.history && (
+                                  <div className="ml-6 text-slate-500">{task.queueId}: {describeHistory(task.history)}</div>
+                                )}
+                              </div>
+                            );
+                          })}
+                        </div>
+                        {result.scenarioData.simulation.inventory && (
+                          <div className="mt-3 text-xs text-slate-300">
+                            <div className="font-semibold mb-1">Inventory</div>
+                            {result.scenarioData.simulation.inventory.transactions.map((transaction, idx) => (
+                              <div key={idx} className="text-slate-400">
+                                Tick {transaction.tick}: {transaction.robotId} {transaction.operation} {transaction.quantity} {transaction.skuId} ({transaction.from || transaction.robotId} → {transaction.to || transaction.robotId})
+                              </div>
+                            ))}
+                            {Object.entries(result.scenarioData.simulation.inventory.stock).map(([location, quantities]) => (
+                              <div key={location}>
+                                {location}: {Object.entries(quantities).map(([skuId, quantity]) => `${quantity} ${skuId}`).join(', ')}
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                        {result.scenarioData.simulation.faults && result.scenarioData.simulation.faults.length > 0 && (
+                          <div className="mt-3 text-xs text-slate-300">
+                            <div className="font-semibold mb-1">Injected Faults</div>
+                            {result.scenarioData.simulation.faults.map((report, idx) => (
+                              <div key={idx} className={report.detectedAt === undefined ? 'text-amber-300' : report.recovered ? 'text-green-400' : 'text-red-400'}>
+                                Tick {report.fault.atTick}: {report.fault.robotId} {report.fault.type}
+                                {report.detectedAt !== undefined ? ` - detected at tick ${report.detectedAt} (${report.detection})` : report.injected ? ' - not detected' : ' - no effect'}
+                                {report.reassignments.map(({ from, robotId }) => `; ${from} → ${robotId}`).join('')}
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                        {result.scenarioData.simulation.charging && (
+                          <div className="mt-3 text-xs text-slate-300">
+                            <div className="font-semibold mb-1">Charging Stations ({result.scenarioData.simulation.charging.policy})</div>
+                            {result.scenarioData.simulation.charging.stations.map(station => (
+                              <div key={station.id} className="text-slate-400">
+                                Station {station.id} ({station.cell[0]}, {station.cell[1]}): {station.robotId ? `${station.robotId} ${station.status}` : 'free'}
+                              </div>
+                            ))}
+                            {result.scenarioData.simulation.charging.waiting.length > 0 && (
+                              <div className="text-amber-300">Waiting: {result.scenarioData.simulation.charging.waiting.join(', ')}</div>
+                            )}
+                          </div>
+                        )}
+                        {result.scenarioData.simulation.locks?.length > 0 && (
+                          <div className="mt-3 text-xs text-slate-300">
+                            <div className="font-semibold mb-1">Deadlocks and Livelocks</div>
+                            {result.scenarioData.simulation.locks.map((lock, idx) => (
+                              <div key={idx} className={lock.resolution ? 'text-slate-400' : 'text-red-400'}>
+                                Tick {lock.tick}: {lock.kind} of {lock.robots.join(', ')} at {lock.cells.map(([row, col]) => `(${row}, ${col})`).join(', ')}
+                                {lock.resolution && ` - ${lock.resolution}`}
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                        {result.scenarioData.simulation.replanTriggers?.length > 0 && (
+                          <div className="mt-3 text-xs text-slate-300">
+                            <div className="font-semibold mb-1">Replanning Triggers</div>
+                            {result.scenarioData.simulation.replanTriggers.map((trigger, idx) => (
+                              <div key={idx} className={trigger.rerouted ? 'text-slate-400' : 'text-amber-300'}>
+                                Tick {trigger.tick}: {trigger.robotId} blocked at ({trigger.cell[0]}, {trigger.cell[1]}) by {trigger.blocker}{trigger.rerouted ? ', detoured' : ', waiting'}
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )}
+
+                    {/* LLM paths vs. conflict-free multi-agent plan */}
+                    {result.scenarioData?.coordination && (
+                      <div className="mt-4 bg-slate-800 rounded-lg p-4">
+                        <h5 className="text-sm font-semibold text-slate-300 mb-2">Multi-Robot Coordination</h5>
+                        <div className="grid grid-cols-2 gap-4 text-xs text-slate-300">
+                          <div>
+                            <div className="font-semibold mb-1">LLM paths</div>
+                            <div>Makespan: {result.scenarioData.coordination.proposedMakespan} ticks</div>
+                            <div className={result.scenarioData.coordination.proposedConflicts.length > 0 ? 'text-red-400' : 'text-green-400'}>
+                              {result.scenarioData.coordination.proposedConflicts.length} conflict(s)
+                            </div>
+                            {result.scenarioData.coordination.proposedConflicts.map((conflict, idx) => (
+                              <div key={idx} className="text-slate-400">
+                                {conflict.robotIds.join(' / ')}: {conflict.type} at tick {conflict.tick} ({conflict.cells.map(([r, c]) => `${r},${c}`).join(' ↔ ')})
+                              </div>
+                            ))}
+                          </div>
+                          <div>
+                            <div className="font-semibold mb-1">Planner (prioritized, reservation table)</div>
+                            <div>Makespan: {result.scenarioData.coordination.plan.makespan} ticks</div>
+                            <div>{result.scenarioData.coordination.plan.resolutions.length} conflict(s) resolved</div>
+                            {result.scenarioData.coordination.plan.resolutions.map((resolution, idx) => (
+                              <div key={idx} className="text-slate-400">
+                                {resolution.robotId} {resolution.strategy === 'wait' ? 'waits' : 'detours'} for {resolution.conflict.robotIds.find(id => id !== resolution.robotId)} (+{resolution.delayTicks} ticks)
+                              </div>
+                            ))}
+                            {result.scenarioData.coordination.plan.unresolved.length > 0 && (
+                              <div className="text-red-400">Unresolved: {result.scenarioData.coordination.plan.unresolved.join(', ')}</div>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                    )}
+
                     {/* Robot Commands - Always visible below visualization */}
                     <div className="mt-4">
                       <h5 className="text-sm font-semibold text-slate-300 mb-2">Robot Commands & Tasks:</h5>
                       <div className="space-y-2 text-xs">
-                        <div className="bg-slate-800 rounded p-2">
-                          <span className="text-blue-400 font-semibold">R1:</span> <span className="text-slate-300">{result.commands.R1 || "No task assigned"}</span>
-                        </div>
-                        <div className="bg-slate-800 rounded p-2">
-                          <span className="text-green-400 font-semibold">R2:</span> <span className="text-slate-300">{result.commands.R2 || "No task assigned"}</span>
-                        </div>
-                        <div className="bg-slate-800 rounded p-2">
-                          <span className="text-purple-400 font-semibold">R3:</span> <span className="text-slate-300">{result.commands.R3 || "No task assigned"}</span>
-                        </div>
-                        <div className="bg-slate-800 rounded p-2">
-                          <span className="text-orange-400 font-semibold">R4:</span> <span className="text-slate-300">{result.commands.R4 || "No task assigned"}</span>
-                        </div>
+                        {sortRobotIds(Object.keys(result.commands || {})).map((robotId: string, _idx: number, robotIds: string[]) => (
+                          <div key={robotId} className="bg-slate-800 rounded p-2">
+                            <span className={`${getRobotPalette(robotId, robotIds).darkText} font-semibold`}>{robotId}:</span> <span className="text-slate-300">{result.commands[robotId] || "No task assigned"}</span>
+                          </div>
+                        ))}
                       </div>
                     </div>
                   </div>
@@ -601,6 +857,7 @@ function CustomScenarioBuilder({ scenario, onSave, onCancel }: CustomScenarioBui
         legend: {
           ".": "Path",
           "S": "Shelf (Obstacle)",
+          "O": "Obstacle",
           "C": "Charging Area",
           "L": "Loading Area",
           "U": "Unloading Area",
@@ -613,12 +870,12 @@ function CustomScenarioBuilder({ scenario, onSave, onCancel }: CustomScenarioBui
         grid: emptyGrid,
       },
       globalState: {
-        robots: scenario?.globalState?.robots || {
-          R1: { position: { row: 0, col: 0 }, batteryPercent: 100, status: "working" },
-          R2: { position: { row: 15, col: 17 }, batteryPercent: 100, status: "working" },
-          R3: { position: { row: 14, col: 16 }, batteryPercent: 100, status: "working" },
-          R4: { position: { row: 13, col: 0 }, batteryPercent: 100, status: "working" },
-        },
+        robots: scenario?.globalState?.robots || Object.fromEntries(
+          Object.entries(DEFAULT_FLEET).map(([robotId, robot]) => [
+            robotId,
+            { position: { ...robot.position }, batteryPercent: robot.battery, status: robot.status },
+          ])
+        ),
       },
       operatorCommands: {
         taskPool: scenario?.operatorCommands?.taskPool || [],
@@ -649,6 +906,24 @@ function CustomScenarioBuilder({ scenario, onSave, onCancel }: CustomScenarioBui
     }));
   };
 
+  // Grow or shrink the grid, keeping existing cells; new cells are paths
+  const resizeGrid = (rows: number, columns: number) => {
+    if (!Number.isInteger(rows) || !Number.isInteger(columns) || rows < 1 || columns < 1) return;
+    setFormData(prev => {
+      const grid = Array.from({ length: rows }, (_, row) =>
+        Array.from({ length: columns }, (_, col) => prev.warehouseMap!.grid[row]?.[col] ?? '.')
+      );
+      return {
+        ...prev,
+        warehouseMap: {
+          ...prev.warehouseMap!,
+          dimensions: { rows, columns, gridIndices: `0-${rows * columns - 1}` },
+          grid,
+        },
+      };
+    });
+  };
+
   const updateRobotPosition = (robotId: string, row: number, col: number) => {
     setFormData(prev => ({
       ...prev,
@@ -665,6 +940,54 @@ function CustomScenarioBuilder({ scenario, onSave, onCancel }: CustomScenarioBui
     }));
   };
 
+  const updateRobotType = (robotId: string, type: string) => {
+    setFormData(prev => ({
+      ...prev,
+      globalState: {
+        ...prev.globalState!,
+        robots: {
+          ...prev.globalState!.robots,
+          [robotId]: {
+            ...prev.globalState!.robots[robotId],
+            type,
+          },
+        },
+      },
+    }));
+  };
+
+  const addRobot = () => {
+    setFormData(prev => {
+      const robots = prev.globalState?.robots || {};
+      let next = Object.keys(robots).length + 1;
+      while (robots[`R${next}`]) next++;
+      return {
+        ...prev,
+        globalState: {
+          ...prev.globalState!,
+          robots: {
+            ...robots,
+            [`R${next}`]: { position: { row: 0, col: 0 }, batteryPercent: 100, status: "working" },
+          },
+        },
+      };
+    });
+  };
+
+  const removeRobot = (robotId: string) => {
+    setFormData(prev => {
+      const robots = { ...(prev.globalState?.robots || {}) };
+      delete robots[robotId];
+      return {
+        ...prev,
+        globalState: {
+          ...prev.globalState!,
+          robots,
+        },
+      };
+    });
+  };
+
   const addTask = () => {
     setFormData(prev => ({
       ...prev,
@@ -859,53 +1182,77 @@ function CustomScenarioBuilder({ scenario, onSave, onCancel }: CustomScenarioBui
             {activeTab === 'robots' && (
               <div className="space-y-6">
                 <div className="bg-slate-800/50 rounded-lg p-6 border border-slate-700">
-                  <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
-                    <Bot className="w-5 h-5 text-green-400" />
-                    Robot Starting Positions
-                  </h3>
-                  <p className="text-sm text-slate-400 mb-6">Set the initial position for each robot (0-15 rows, 0-17 columns)</p>
+                  <div className="flex items-center justify-between mb-4">
+                    <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+                      <Bot className="w-5 h-5 text-green-400" />
+                      Robot Starting Positions
+                    </h3>
+                    <button
+                      onClick={addRobot}
+                      className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg flex items-center gap-2 transition-colors"
+                    >
+                      <Plus className="w-4 h-4" />
+                      Add Robot
+                    </button>
+                  </div>
+                  <p className="text-sm text-slate-400 mb-6">Set the initial position for each robot (0-{formData.warehouseMap!.dimensions.rows - 1} rows, 0-{formData.warehouseMap!.dimensions.columns - 1} columns)</p>
                   
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    {['R1', 'R2', 'R3', 'R4'].map(robotId => {
+                    {sortRobotIds(Object.keys(formData.globalState?.robots || {})).map((robotId, _idx, robotIds) => {
                       const robot = formData.globalState?.robots[robotId];
-                      const colors: { [key: string]: { bg: string; border: string; text: string } } = {
-                        R1: { bg: 'bg-blue-500/20', border: 'border-blue-500', text: 'text-blue-400' },
-                        R2: { bg: 'bg-green-500/20', border: 'border-green-500', text: 'text-green-400' },
-                        R3: { bg: 'bg-purple-500/20', border: 'border-purple-500', text: 'text-purple-400' },
-                        R4: { bg: 'bg-orange-500/20', border: 'border-orange-500', text: 'text-orange-400' },
-                      };
-                      const color = colors[robotId];
+                      const palette = getRobotPalette(robotId, robotIds);
                       
                       return (
-                        <div key={robotId} className={`bg-slate-900 rounded-lg p-4 border-2 ${color.border} ${color.bg}`}>
-                          <div className={`text-base font-bold mb-3 flex items-center gap-2 ${color.text}`}>
-                            <div className={`w-3 h-3 rounded-full ${color.border.replace('border-', 'bg-')}`}></div>
+                        <div key={robotId} className={`bg-slate-900 rounded-lg p-4 border-2 ${palette.cardBorder} ${palette.darkBg}`}>
+                          <div className={`text-base font-bold mb-3 flex items-center gap-2 ${palette.darkText}`}>
+                            <div className={`w-3 h-3 rounded-full ${palette.marker}`}></div>
                             {robotId}
+                            {robotIds.length > 1 && (
+                              <button
+                                onClick={() => removeRobot(robotId)}
+                                className="ml-auto p-1 text-slate-400 hover:text-red-400 transition-colors"
+                                title={`Remove ${robotId}`}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            )}
                           </div>
                           <div className="grid grid-cols-2 gap-3">
                             <div>
-                              <label className="block text-xs font-medium text-slate-400 mb-1">Row (0-15)</label>
+                              <label className="block text-xs font-medium text-slate-400 mb-1">Row (0-{formData.warehouseMap!.dimensions.rows - 1})</label>
                               <input
                                 type="number"
                                 min="0"
-                                max="15"
+                                max={formData.warehouseMap!.dimensions.rows - 1}
                                 value={robot?.position.row ?? 0}
                                 onChange={(e) => updateRobotPosition(robotId, parseInt(e.target.value) || 0, robot?.position.col || 0)}
                                 className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
                               />
                             </div>
                             <div>
-                              <label className="block text-xs font-medium text-slate-400 mb-1">Column (0-17)</label>
+                              <label className="block text-xs font-medium text-slate-400 mb-1">Column (0-{formData.warehouseMap!.dimensions.columns - 1})</label>
                               <input
                                 type="number"
                                 min="0"
-                                max="17"
+                                max={formData.warehouseMap!.dimensions.columns - 1}
                                 value={robot?.position.col ?? 0}
                                 onChange={(e) => updateRobotPosition(robotId, robot?.position.row || 0, parseInt(e.target.value) || 0)}
                                 className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
                               />
                             </div>
                           </div>
+                          <div className="mt-3">
+                            <label className="block text-xs font-medium text-slate-400 mb-1">Type</label>
+                            <select
+                              value={robot?.type || DEFAULT_ROBOT_TYPE}
+                              onChange={(e) => updateRobotType(robotId, e.target.value)}
+                              className="w-full px-3 py-2 bg-slate-800 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            >
+                              {Object.values({ ...ROBOT_TYPES, ...(formData.robotTypes || {}) }).map(type => (
+                                <option key={type.id} value={type.id}>{type.name}</option>
+                              ))}
+                            </select>
+                          </div>
                           <div className="mt-3 text-xs text-slate-500">
                             Current: ({robot?.position.row ?? 0}, {robot?.position.col ?? 0})
                           </div>
@@ -998,10 +1345,34 @@ function CustomScenarioBuilder({ scenario, onSave, onCancel }: CustomScenarioBui
                       Warehouse Grid Editor
                     </h3>
                     <div className="text-sm text-slate-400">
-                      Click cells to cycle: <span className="text-white">Path</span> → <span className="text-white">Shelf</span> → <span className="text-yellow-300">Charging</span> → <span className="text-blue-300">Loading</span> → <span className="text-green-300">Unloading</span>
+                      Click cells to cycle: <span className="text-white">Path</span> → <span className="text-white">Shelf</span> → <span className="text-red-300">Obstacle</span> → <span className="text-yellow-300">Charging</span> → <span className="text-blue-300">Loading</span> → <span className="text-green-300">Unloading</span>
                     </div>
                   </div>
                   
+                  {/* Grid size */}
+                  <div className="mb-4 flex items-center gap-4 text-sm text-slate-300">
+                    <label className="flex items-center gap-2">
+                      Rows
+                      <input
+                        type="number"
+                        min="1"
+                        value={formData.warehouseMap!.dimensions.rows}
+                        onChange={(e) => resizeGrid(parseInt(e.target.value), formData.warehouseMap!.dimensions.columns)}
+                        className="w-20 px-2 py-1 bg-slate-900 border border-slate-600 rounded text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </label>
+                    <label className="flex items-center gap-2">
+                      Columns
+                      <input
+                        type="number"
+                        min="1"
+                        value={formData.warehouseMap!.dimensions.columns}
+                        onChange={(e) => resizeGrid(formData.warehouseMap!.dimensions.rows, parseInt(e.target.value))}
+                        className="w-20 px-2 py-1 bg-slate-900 border border-slate-600 rounded text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </label>
+                  </div>
+
                   {/* Legend */}
                   <div className="mb-4 flex flex-wrap gap-4 p-4 bg-slate-900/50 rounded-lg">
                     <div className="flex items-center gap-2">
@@ -1012,6 +1383,10 @@ function CustomScenarioBuilder({ scenario, onSave, onCancel }: CustomScenarioBui
                       <div className="w-6 h-6 bg-gray-800 border border-slate-600 rounded flex items-center justify-center text-xs text-white">S</div>
                       <span className="text-sm text-slate-300">Shelf</span>
                     </div>
+                    <div className="flex items-center gap-2">
+                      <div className="w-6 h-6 bg-red-900 border border-slate-600 rounded flex items-center justify-center text-xs text-white">O</div>
+                      <span className="text-sm text-slate-300">Obstacle</span>
+                    </div>
                     <div className="flex items-center gap-2">
                       <div className="w-6 h-6 bg-yellow-200 border border-slate-600 rounded flex items-center justify-center text-xs text-yellow-900">C</div>
                       <span className="text-sm text-slate-300">Charging</span>
@@ -1036,7 +1411,7 @@ function CustomScenarioBuilder({ scenario, onSave, onCancel }: CustomScenarioBui
                       {/* Column headers */}
                       <div className="text-xs text-slate-400 mb-1 flex">
                         <div className="w-10"></div>
-                        {Array.from({ length: 18 }, (_, i) => (
+                        {Array.from({ length: formData.warehouseMap!.dimensions.columns }, (_, i) => (
                           <div key={i} className="w-8 text-center font-medium">{i}</div>
                         ))}
                       </div>
@@ -1052,7 +1427,7 @@ function CustomScenarioBuilder({ scenario, onSave, onCancel }: CustomScenarioBui
                               id => formData.globalState?.robots[id].position.row === rowIdx &&
                                     formData.globalState?.robots[id].position.col === colIdx
                             );
-                            const cellOptions = ['.', 'S', 'C', 'L', 'U'];
+                            const cellOptions = ['.', 'S', 'O', 'C', 'L', 'U'];
                             const currentIndex = cellOptions.indexOf(cell);
                             const nextIndex = (currentIndex + 1) % cellOptions.length;
                             
@@ -1065,6 +1440,8 @@ function CustomScenarioBuilder({ scenario, onSave, onCancel }: CustomScenarioBui
                                     ? 'bg-blue-500 text-white border-blue-700 shadow-lg scale-105'
                                     : cell === 'S'
                                     ? 'bg-gray-800 text-white border-gray-600 hover:border-gray-500'
+                                    : cell === 'O'
+                                    ? 'bg-red-900 text-white border-red-700 hover:border-red-600'
                                     : cell === 'C'
                                     ? 'bg-yellow-200 text-yellow-900 border-yellow-400 hover:border-yellow-300'
                                     : cell === 'L'
@@ -1,6 +1,11 @@
 "use client";
 import React from 'react';
 import { MapPin, Battery } from 'lucide-react';
+import { repairPath } from '@/lib/path-planner';
+import { sortRobotIds } from '@/lib/fleet';
+import { getRobotPalette } from '@/lib/robot-palette';
+import { isRobotCell, WarehouseMap } from '@/lib/warehouse-map';
+import { Direction, TrafficAnnotations, TrafficRules } from '@/lib/traffic-rules';
 
 interface RobotPosition {
   row: number;
@@ -13,27 +18,33 @@ interface RobotTask {
   robotId: string;
   task: string;
   path?: Array<[number, number]>;
+  pathIssues?: string[]; // Corrections made by the path planner
 }
 
 interface WarehouseGridVisualizationProps {
-  grid: string[][]; // 18x16 grid
+  grid: string[][]; // Row-major warehouse grid (grid[row][col]) of any size
   robots: {
     [robotId: string]: RobotPosition;
   };
   tasks?: {
     [robotId: string]: RobotTask;
   };
-  width?: number; // Grid width (columns)
-  height?: number; // Grid height (rows)
+  traffic?: TrafficAnnotations; // One-way aisles, speed zones and restricted areas to draw
 }
 
+const DIRECTION_ARROWS: { [direction in Direction]: string } = { N: '↑', S: '↓', E: '→', W: '←' };
+
+const RESTRICTED_HATCH = 'repeating-linear-gradient(45deg, rgba(220, 38, 38, 0.35) 0 3px, transparent 3px 7px)';
+
 const WarehouseGridVisualization: React.FC<WarehouseGridVisualizationProps> = ({
   grid,
   robots,
   tasks = {},
-  width = 18,
-  height = 16,
+  traffic,
 }) => {
+  const map = WarehouseMap.from(grid);
+  const trafficRules = TrafficRules.fromScenario(traffic);
+
   const getCellContent = (row: number, col: number): { content: string; type: string; robotId?: string } => {
     // FIRST: Check if there's a robot at this position from the robots prop
     // This takes precedence over grid data
@@ -43,13 +54,12 @@ const WarehouseGridVisualization: React.FC<WarehouseGridVisualizationProps> = ({
       }
     }
 
-    // SECOND: Check grid content (grid is row-major: grid[row][col])
-    // Only show grid content if there's NO robot at this position from the robots prop
-    if (grid && Array.isArray(grid) && grid[row] && Array.isArray(grid[row]) && grid[row][col]) {
-      const cell = grid[row][col];
-      
+    // SECOND: Check map content
+    // Only show map content if there's NO robot at this position from the robots prop
+    const cell = map.cellAt(row, col);
+    if (cell) {
       // Skip robot markers in grid if we have that robot in props (to avoid duplicates)
-      if (cell.startsWith('R')) {
+      if (isRobotCell(cell)) {
         // Check if this robot ID exists in the robots prop (regardless of position)
         // If it exists in props, don't show the grid marker to avoid duplicates
         const robotIdFromGrid = cell; // e.g., "R3"
@@ -64,6 +74,7 @@ const WarehouseGridVisualization: React.FC<WarehouseGridVisualizationProps> = ({
       
       // Handle other grid content
       if (cell === 'S') return { content: 'S', type: 'shelf' };
+      if (cell === 'O') return { content: 'O', type: 'obstacle' };
       if (cell === 'C') return { content: 'C', type: 'charging' };
       if (cell === 'L') return { content: 'L', type: 'loading' };
       if (cell === 'U') return { content: 'U', type: 'unloading' };
@@ -72,18 +83,11 @@ const WarehouseGridVisualization: React.FC<WarehouseGridVisualizationProps> = ({
     return { content: '.', type: 'path' };
   };
 
-  // Helper function to check if a cell is an obstacle
-  const isObstacle = (row: number, col: number): boolean => {
-    if (!grid || !Array.isArray(grid) || row < 0 || row >= grid.length) return false;
-    if (!Array.isArray(grid[row]) || col < 0 || col >= grid[row].length) return false;
-    const cell = grid[row][col];
-    // Obstacles are: 'S' (shelf), and potentially other non-traversable cells
-    // Note: 'C' (charging), 'L' (loading), 'U' (unloading) are traversable
-    return cell === 'S';
-  };
+  // Shelves and obstacles are blocked; 'C' (charging), 'L' (loading), 'U' (unloading) are traversable
+  const isObstacle = (row: number, col: number): boolean => map.inBounds(row, col) && !map.isTraversable(row, col);
 
-  // Generate all cells in a path by interpolating between waypoints
-  // Uses pathfinding to avoid obstacles when interpolating
+  // Generate all cells in a path by connecting consecutive waypoints
+  // with A* shortest paths that avoid shelves (see lib/path-planner)
   const getPathCells = (robotId: string): Set<string> => {
     const task = tasks[robotId];
     if (!task || !task.path || !Array.isArray(task.path) || task.path.length === 0) {
@@ -91,62 +95,13 @@ const WarehouseGridVisualization: React.FC<WarehouseGridVisualizationProps> = ({
     }
 
     const pathCells = new Set<string>();
+    const waypoints = task.path.map(([r, c]) => [Number(r), Number(c)] as [number, number]);
     
-    // Simple pathfinding helper: find a path between two points avoiding obstacles
-    // Uses simple linear interpolation but skips obstacle cells
-    const findPathBetween = (start: [number, number], end: [number, number]): Array<[number, number]> => {
-      const [r1, c1] = start;
-      const [r2, c2] = end;
-      const path: Array<[number, number]> = [];
-      
-      // Calculate steps needed
-      const rowDiff = Math.abs(r2 - r1);
-      const colDiff = Math.abs(c2 - c1);
-      const steps = Math.max(rowDiff, colDiff);
-      
-      // Simple linear interpolation, but skip obstacle cells
-      for (let step = 0; step <= steps; step++) {
-        const ratio = steps > 0 ? step / steps : 0;
-        const r = Math.round(r1 + (r2 - r1) * ratio);
-        const c = Math.round(c1 + (c2 - c1) * ratio);
-        
-        // Only add if not an obstacle and within bounds
-        if (!isObstacle(r, c) && r >= 0 && r < (grid?.length || 16) && c >= 0 && c < (grid?.[r]?.length || 18)) {
-          path.push([r, c]);
-        }
-      }
-      
-      return path;
-    };
-    
-    // Add all waypoints (but skip if they're obstacles)
-    task.path.forEach(([r, c]) => {
-      const row = Number(r);
-      const col = Number(c);
-      // Only add if not an obstacle
-      if (!isObstacle(row, col)) {
-        pathCells.add(`${row},${col}`);
-      }
-    });
-
-    // Interpolate between consecutive waypoints using pathfinding
-    for (let i = 0; i < task.path.length - 1; i++) {
-      const [r1, c1] = task.path[i];
-      const [r2, c2] = task.path[i + 1];
-      
-      const row1 = Number(r1);
-      const col1 = Number(c1);
-      const row2 = Number(r2);
-      const col2 = Number(c2);
-      
-      // Use pathfinding to find a path between waypoints that avoids obstacles
-      const intermediatePath = findPathBetween([row1, col1], [row2, col2]);
-      intermediatePath.forEach(([r, c]) => {
-        if (!isObstacle(r, c)) {
-          pathCells.add(`${r},${c}`);
-        }
-      });
-    }
+    // Rewrite the waypoints into a continuous path; shelf waypoints are moved to the nearest free cell
+    const cells = !map.isEmpty
+      ? repairPath(map, waypoints[0], waypoints.slice(1)).path
+      : waypoints;
+    cells.forEach(([r, c]) => pathCells.add(`${r},${c}`));
     
     return pathCells;
   };
@@ -169,32 +124,11 @@ const WarehouseGridVisualization: React.FC<WarehouseGridVisualizationProps> = ({
     return pathCells.has(`${Number(row)},${Number(col)}`);
   };
 
-  const getPathColor = (robotId: string): string => {
-    const colors: { [key: string]: string } = {
-      R1: 'bg-blue-300',
-      R2: 'bg-green-300',
-      R3: 'bg-purple-300',
-      R4: 'bg-orange-300',
-    };
-    return colors[robotId] || 'bg-gray-300';
-  };
-
-  const getRobotColor = (robotId: string): string => {
-    const colors: { [key: string]: string } = {
-      R1: 'bg-blue-600 text-white',
-      R2: 'bg-green-600 text-white',
-      R3: 'bg-purple-600 text-white',
-      R4: 'bg-orange-600 text-white',
-    };
-    return colors[robotId] || 'bg-gray-600 text-white';
-  };
-
-  const robotColors: { [key: string]: { bg: string; text: string; border: string } } = {
-    R1: { bg: 'bg-blue-100', text: 'text-blue-800', border: 'border-blue-500' },
-    R2: { bg: 'bg-green-100', text: 'text-green-800', border: 'border-green-500' },
-    R3: { bg: 'bg-purple-100', text: 'text-purple-800', border: 'border-purple-500' },
-    R4: { bg: 'bg-orange-100', text: 'text-orange-800', border: 'border-orange-500' },
-  };
+  // Colors are assigned by position in the fleet, so any number of robots gets a color
+  const fleetIds = sortRobotIds(Array.from(new Set([...Object.keys(robots || {}), ...Object.keys(tasks || {})])));
+  const getPathColor = (robotId: string): string => getRobotPalette(robotId, fleetIds).path;
+  const getPathBorderColor = (robotId: string): string => getRobotPalette(robotId, fleetIds).pathBorder;
+  const getRobotColor = (robotId: string): string => getRobotPalette(robotId, fleetIds).marker;
 
   // Debug: Log what we're receiving
   if (typeof window !== 'undefined') {
@@ -210,7 +144,8 @@ const WarehouseGridVisualization: React.FC<WarehouseGridVisualizationProps> = ({
       }
     });
     console.log('WarehouseGridVisualization props:', { 
-      gridRows: grid?.length, 
+      rows: map.rows,
+      cols: map.cols,
       robotsCount: Object.keys(robots || {}).length,
       tasksCount: Object.keys(tasks || {}).length,
       pathsInfo
@@ -221,12 +156,12 @@ const WarehouseGridVisualization: React.FC<WarehouseGridVisualizationProps> = ({
     <div className="w-full space-y-4">
       {/* Grid Visualization */}
       <div className="bg-white rounded-lg border border-gray-300 p-4 overflow-x-auto">
-        <h3 className="text-lg font-semibold mb-4 text-gray-800">Warehouse Grid (18x16) - Showing Robots, Environment, and Paths</h3>
+        <h3 className="text-lg font-semibold mb-4 text-gray-800">Warehouse Grid ({map.rows} rows x {map.cols} columns) - Showing Robots, Environment, and Paths</h3>
         <div className="inline-block">
           {/* Column headers */}
           <div className="flex">
             <div className="w-8 h-8 flex items-center justify-center text-xs font-medium text-gray-600"></div>
-            {Array.from({ length: width }, (_, i) => (
+            {Array.from({ length: map.cols }, (_, i) => (
               <div key={i} className="w-8 h-8 flex items-center justify-center text-xs font-medium text-gray-600">
                 {i}
               </div>
@@ -234,7 +169,7 @@ const WarehouseGridVisualization: React.FC<WarehouseGridVisualizationProps> = ({
           </div>
           
           {/* Grid rows */}
-          {Array.from({ length: height }, (_, row) => (
+          {Array.from({ length: map.rows }, (_, row) => (
             <div key={row} className="flex">
               {/* Row header */}
               <div className="w-8 h-8 flex items-center justify-center text-xs font-medium text-gray-600 border-r border-gray-300">
@@ -242,7 +177,7 @@ const WarehouseGridVisualization: React.FC<WarehouseGridVisualizationProps> = ({
               </div>
               
               {/* Grid cells */}
-              {Array.from({ length: width }, (_, col) => {
+              {Array.from({ length: map.cols }, (_, col) => {
                 const cell = getCellContent(row, col);
                 const isPath = Object.keys(tasks).some(robotId => isInPath(row, col, robotId));
                 const pathRobotId = Object.keys(tasks).find(robotId => isInPath(row, col, robotId));
@@ -254,6 +189,10 @@ const WarehouseGridVisualization: React.FC<WarehouseGridVisualizationProps> = ({
                                   tasks[pathRobotId]?.path && tasks[pathRobotId].path.length > 0 && 
                                   tasks[pathRobotId].path[tasks[pathRobotId].path.length - 1]?.[0] === row && 
                                   tasks[pathRobotId].path[tasks[pathRobotId].path.length - 1]?.[1] === col;
+                const restricted = trafficRules?.restrictionAt(row, col);
+                const arrows = (trafficRules?.directionsAt(row, col) || []).map(direction => DIRECTION_ARROWS[direction]).join('');
+                const speedLimit = trafficRules?.speedLimitAt(row, col);
+                const trafficTitle = `${restricted ? ` - Restricted${restricted.name ? ` (${restricted.name})` : ''}` : ''}${arrows ? ` - One-way ${arrows}` : ''}${speedLimit !== undefined ? ` - Max ${speedLimit} cells/tick` : ''}`;
                 
                 return (
                   <div
@@ -263,6 +202,8 @@ const WarehouseGridVisualization: React.FC<WarehouseGridVisualizationProps> = ({
                         ? `${getRobotColor(cell.robotId || '')} border-2 border-gray-800 z-10`
                         : cell.type === 'shelf'
                         ? 'bg-gray-800 text-white border-gray-600'
+                        : cell.type === 'obstacle'
+                        ? 'bg-red-900 text-white border-red-700'
                         : cell.type === 'charging'
                         ? 'bg-yellow-200 text-yellow-900 border-yellow-400'
                         : cell.type === 'loading'
@@ -270,10 +211,10 @@ const WarehouseGridVisualization: React.FC<WarehouseGridVisualizationProps> = ({
                         : cell.type === 'unloading'
                         ? 'bg-green-200 text-green-900 border-green-400'
                         : isPath && pathRobotId
-                        ? `${getPathColor(pathRobotId)} border-${pathRobotId === 'R1' ? 'blue' : pathRobotId === 'R2' ? 'green' : pathRobotId === 'R3' ? 'purple' : 'orange'}-600 border-2`
+                        ? `${getPathColor(pathRobotId)} ${getPathBorderColor(pathRobotId)} border-2`
                         : 'bg-gray-50 text-gray-600 border-gray-300'
                     }`}
-                    title={`Row ${row}, Col ${col}${cell.robotId ? ` - ${cell.robotId}` : ''}${isPath && pathRobotId ? ` - ${pathRobotId} path` : ''}${isPathStart ? ' (START)' : ''}${isPathEnd ? ' (END)' : ''}`}
+                    title={`Row ${row}, Col ${col}${cell.robotId ? ` - ${cell.robotId}` : ''}${isPath && pathRobotId ? ` - ${pathRobotId} path` : ''}${isPathStart ? ' (START)' : ''}${isPathEnd ? ' (END)' : ''}${trafficTitle}`}
                   >
                     {cell.type === 'robot' ? (
                       <span className="z-20 relative font-bold">{cell.content}</span>
@@ -287,15 +228,20 @@ const WarehouseGridVisualization: React.FC<WarehouseGridVisualizationProps> = ({
                     {/* Path overlay - more visible */}
                     {isPath && pathRobotId && cell.type !== 'robot' && (
                       <div 
-                        className={`absolute inset-0 ${getPathColor(pathRobotId)} opacity-60 border-2 ${
-                          pathRobotId === 'R1' ? 'border-blue-600' : 
-                          pathRobotId === 'R2' ? 'border-green-600' : 
-                          pathRobotId === 'R3' ? 'border-purple-600' : 
-                          'border-orange-600'
-                        }`}
+                        className={`absolute inset-0 ${getPathColor(pathRobotId)} opacity-60 border-2 ${getPathBorderColor(pathRobotId)}`}
                         style={{ zIndex: 1 }}
                       ></div>
                     )}
+                    {/* Traffic rules: hatched restricted cells, dashed speed zones, one-way arrows */}
+                    {restricted && (
+                      <div className="absolute inset-0 pointer-events-none" style={{ zIndex: 2, backgroundImage: RESTRICTED_HATCH }}></div>
+                    )}
+                    {speedLimit !== undefined && (
+                      <div className="absolute inset-0.5 border border-dashed border-amber-500 pointer-events-none" style={{ zIndex: 2 }}></div>
+                    )}
+                    {arrows && (
+                      <span className="absolute top-0 right-0.5 text-[9px] leading-none font-bold text-indigo-700" style={{ zIndex: 3 }}>{arrows}</span>
+                    )}
                   </div>
                 );
               })}
@@ -313,6 +259,10 @@ const WarehouseGridVisualization: React.FC<WarehouseGridVisualizationProps> = ({
             <div className="w-4 h-4 bg-gray-800"></div>
             <span>Shelf</span>
           </div>
+          <div className="flex items-center gap-2">
+            <div className="w-4 h-4 bg-red-900"></div>
+            <span>Obstacle</span>
+          </div>
           <div className="flex items-center gap-2">
             <div className="w-4 h-4 bg-yellow-200"></div>
             <span>Charging</span>
@@ -325,24 +275,30 @@ const WarehouseGridVisualization: React.FC<WarehouseGridVisualizationProps> = ({
             <div className="w-4 h-4 bg-green-200"></div>
             <span>Unloading</span>
           </div>
-          {Object.keys(tasks).length > 0 && (
+          {trafficRules && (
             <>
               <div className="flex items-center gap-2">
-                <div className="w-4 h-4 bg-blue-300 border-2 border-blue-600"></div>
-                <span>R1 Path</span>
+                <div className="w-4 h-4 border border-gray-300" style={{ backgroundImage: RESTRICTED_HATCH }}></div>
+                <span>Restricted</span>
               </div>
               <div className="flex items-center gap-2">
-                <div className="w-4 h-4 bg-green-300 border-2 border-green-600"></div>
-                <span>R2 Path</span>
+                <div className="w-4 h-4 border border-dashed border-amber-500"></div>
+                <span>Speed zone</span>
               </div>
               <div className="flex items-center gap-2">
-                <div className="w-4 h-4 bg-purple-300 border-2 border-purple-600"></div>
-                <span>R3 Path</span>
-              </div>
-              <div className="flex items-center gap-2">
-                <div className="w-4 h-4 bg-orange-300 border-2 border-orange-600"></div>
-                <span>R4 Path</span>
+                <span className="text-xs font-bold text-indigo-700">→</span>
+                <span>One-way direction</span>
               </div>
+            </>
+          )}
+          {Object.keys(tasks).length > 0 && (
+            <>
+              {sortRobotIds(Object.keys(tasks)).map(robotId => (
+                <div key={robotId} className="flex items-center gap-2">
+                  <div className={`w-4 h-4 ${getPathColor(robotId)} border-2 ${getPathBorderColor(robotId)}`}></div>
+                  <span>{robotId} Path</span>
+                </div>
+              ))}
               <div className="flex items-center gap-2">
                 <span className="text-xs font-bold">S</span>
                 <span>Path Start</span>
@@ -361,9 +317,11 @@ const WarehouseGridVisualization: React.FC<WarehouseGridVisualizationProps> = ({
         <div className="bg-white rounded-lg border border-gray-300 p-4">
           <h3 className="text-lg font-semibold mb-4 text-gray-800">Robot Tasks & Paths</h3>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {Object.entries(tasks).map(([robotId, task]) => {
+            {sortRobotIds(Object.keys(tasks)).map(robotId => {
+              const task = tasks[robotId];
               const robot = robots[robotId];
-              const colors = robotColors[robotId] || { bg: 'bg-gray-100', text: 'text-gray-800', border: 'border-gray-500' };
+              const palette = getRobotPalette(robotId, fleetIds);
+              const colors = { bg: palette.cardBg, text: palette.cardText, border: palette.cardBorder };
               
               return (
                 <div
@@ -403,6 +361,17 @@ const WarehouseGridVisualization: React.FC<WarehouseGridVisualizationProps> = ({
                     </div>
                   )}
                   
+                  {task.pathIssues && task.pathIssues.length > 0 && (
+                    <div className="mt-2">
+                      <p className={`text-sm ${colors.text} font-medium mb-1`}>Path corrections:</p>
+                      <ul className="text-xs text-red-700 list-disc ml-4">
+                        {task.pathIssues.map((issue, idx) => (
+                          <li key={idx}>{issue}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  
                   {robot && (
                     <div className="mt-2 text-xs text-gray-600">
                       <MapPin className="w-3 h-3 inline mr-1" />
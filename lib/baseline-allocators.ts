@@ -0,0 +1,567 @@
+/**
+ * Classical Baseline Allocators
+ * Offline task allocators that implement the LLMProvider interface, to measure what the LLM
+ * adds: greedy nearest robot, Hungarian assignment on path distance, and a market-based
+ * auction. They read the same environment the LLM gets and answer with robot plans whose
+ * paths come from the multi-agent planner, so they run on machines without an API key and
+ * no two robots meet. The same routing turns an allocation the LLM made (hybrid planning)
+ * into plans.
+ */
+
+import type { LLMProvider, RobotTasks } from "./llm-providers";
+import { FleetSource, FleetState, getFleetState, getFleetTypes, sortRobotIds } from "./fleet";
+import { Capability, capabilityGaps, getTaskRequirements, RobotType } from "./robot-types";
+import { LocationRegistry, planRouteTo, SpecialZones, TaskLocationFields, WarehouseLocation } from "./location-registry";
+import { findPath, GridCell, toWaypoints } from "./path-planner";
+import { AgentRequest, planMultiAgentPaths } from "./multi-agent-planner";
+import { findRefuge } from "./deadlock-detection";
+import { EnergyModel, handlingOperations, predictRouteEnergy, resolveEnergyModel } from "./energy-model";
+import { ChargingManager, ChargingPolicyConfig, resolveChargingPolicy } from "./charging-manager";
+import { WarehouseMap } from "./warehouse-map";
+import { TrafficAnnotations, TrafficRules } from "./traffic-rules";
+import type { TaskScheduling } from "./task-queue";
+import type { TaskAssignments } from "./hybrid-planning";
+import { createPlan, PlanAction, PlanActionType, planPath, RobotPlan } from "./robot-plan";
+
+export type AllocationStrategy = "greedy" | "hungarian" | "auction";
+
+export const BASELINE_STRATEGIES: { [model: string]: AllocationStrategy } = {
+  "baseline-greedy": "greedy",
+  "baseline-hungarian": "hungarian",
+  "baseline-auction": "auction",
+};
+
+export type BaselineTask = TaskLocationFields & TaskScheduling & {
+  taskId: string;
+  requiredCapabilities?: Capability[];
+  payloadKg?: number;
+};
+
+interface BaselineScenario {
+  warehouseMap?: {
+    dimensions?: { rows: number; columns: number };
+    grid?: string[][];
+    specialZones?: SpecialZones;
+    traffic?: TrafficAnnotations;
+  };
+  operatorCommands?: { taskPool?: BaselineTask[] };
+  energyModel?: Partial<EnergyModel>;
+  charging?: ChargingPolicyConfig;
+}
+
+/**
+ * What generateTasks receives: the workflow's environment data (scenario, matrix and live
+ * statuses) or an uploaded environment JSON shaped like a scenario
+ */
+export type BaselineEnvironment = FleetSource & BaselineScenario & {
+  scenario?: BaselineScenario;
+  environmentMatrix?: string[][];
+};
+
+/**
+ * A robot's plan as it grows: the tasks it won and the cells it drives, from its start
+ */
+interface DraftPlan {
+  robotId: string;
+  type: RobotType;
+  battery: number;
+  cells: GridCell[];
+  tasks: BaselineTask[];
+  stops: Array<{ task: BaselineTask; location: WarehouseLocation; index: number }>; // Index in `cells` where each location is reached
+  unlocated: BaselineTask[]; // Tasks naming no location, reported in a wait at the end of the plan
+}
+
+/**
+ * Cells from a plan's current end through the locations a task names, and where in `cells`
+ * each location is reached
+ */
+interface TaskRoute {
+  cells: GridCell[];
+  stops: Array<{ location: WarehouseLocation; index: number }>;
+}
+
+class TaskRouter {
+  private map: WarehouseMap;
+  private transitMap: WarehouseMap; // Charging stations blocked: robots park there, so routes only cross them when they must
+  private locations: LocationRegistry;
+  private model: EnergyModel;
+  private cache: Map<string, TaskRoute | null> = new Map();
+
+  constructor(map: WarehouseMap, locations: LocationRegistry, model: EnergyModel) {
+    this.map = map;
+    this.transitMap = WarehouseMap.fromGrid(map.toGrid()).withTraffic(map.traffic);
+    map.cellsOfType("C").forEach(([row, col]) => this.transitMap.setCell(row, col, "O"));
+    this.locations = locations;
+    this.model = model;
+  }
+
+  /**
+   * Cells from a plan's current end through every location the task names, in order; null
+   * when the robot's type cannot do the task or a location is out of reach
+   */
+  route(plan: DraftPlan, task: BaselineTask): TaskRoute | null {
+    const start = plan.cells[plan.cells.length - 1];
+    const key = `${plan.type.id}|${start.join(",")}|${task.taskId}`;
+    if (!this.cache.has(key)) this.cache.set(key, this.plan(plan.type, start, task));
+    return this.cache.get(key)!;
+  }
+
+  /**
+   * Whether the robot's battery lasts its whole plan plus the route without going below
+   * the safety threshold
+   */
+  affordable(plan: DraftPlan, route: TaskRoute, task: BaselineTask): boolean {
+    const cells = [...plan.cells, ...route.cells.slice(1)];
+    const prediction = predictRouteEnergy(this.map, cells[0], cells.slice(1), plan.battery, plan.type, {
+      handlingOperations: [...plan.tasks, task].reduce((total, planned) => total + handlingOperations(planned.description), 0),
+      model: this.model,
+    });
+    return prediction.canFinish && !prediction.strandedAt;
+  }
+
+  /**
+   * Whether the task names any location at all
+   */
+  locates(task: BaselineTask): boolean {
+    return this.locations.taskLocations(task).locations.length > 0;
+  }
+
+  private plan(type: RobotType, start: GridCell, task: BaselineTask): TaskRoute | null {
+    if (capabilityGaps(type, getTaskRequirements(task)).length > 0) return null;
+    const { locations } = this.locations.taskLocations(task);
+    if (locations.length === 0) return null;
+
+    const route: TaskRoute = { cells: [start], stops: [] };
+    for (const location of locations) {
+      const from = route.cells[route.cells.length - 1];
+      const leg = planRouteTo(this.transitMap, from, location, { robotType: type.id }) || planRouteTo(this.map, from, location, { robotType: type.id });
+      if (!leg) return null;
+      route.cells.push(...leg.slice(1));
+      route.stops.push({ location, index: route.cells.length - 1 });
+    }
+    return route;
+  }
+}
+
+const travelTicks = (plan: DraftPlan, cells: number) => cells / plan.type.speedCellsPerTick;
+
+/**
+ * Rounds in which every task, highest priority first, goes to the nearest robot that has
+ * not yet taken a task this round
+ */
+function greedyAllocation(plans: DraftPlan[], tasks: BaselineTask[], router: TaskRouter): void {
+  let remaining = tasks;
+  while (remaining.length > 0) {
+    const taken = new Set<string>();
+    const left: BaselineTask[] = [];
+    for (const task of remaining) {
+      let best: { plan: DraftPlan; route: TaskRoute } | undefined;
+      for (const plan of plans.filter(candidate => !taken.has(candidate.robotId))) {
+        const route = router.route(plan, task);
+        if (route && router.affordable(plan, route, task) && (!best || route.cells.length < best.route.cells.length)) best = { plan, route };
+      }
+      if (!best) {
+        left.push(task);
+        continue;
+      }
+      assign(best.plan, task, best.route);
+      taken.add(best.plan.robotId);
+    }
+    if (left.length === remaining.length) break;
+    remaining = left;
+  }
+}
+
+/**
+ * Rounds of optimal one-to-one assignment (Hungarian method) of the remaining tasks to the
+ * robots, minimising the total path length from where each robot's plan ends
+ */
+function hungarianAllocation(plans: DraftPlan[], tasks: BaselineTask[], router: TaskRouter): void {
+  let remaining = tasks;
+  while (remaining.length > 0) {
+    const routes = plans.map(plan => remaining.map(task => {
+      const route = router.route(plan, task);
+      return route && router.affordable(plan, route, task) ? route : null;
+    }));
+    const costs = routes.map(row => row.map(route => (route ? route.cells.length - 1 : Infinity)));
+    const assigned = new Set<number>();
+    solveAssignment(costs).forEach((taskIndex, planIndex) => {
+      const route = taskIndex === undefined ? null : routes[planIndex][taskIndex];
+      if (taskIndex === undefined || !route) return;
+      assign(plans[planIndex], remaining[taskIndex], route);
+      assigned.add(taskIndex);
+    });
+    if (assigned.size === 0) break;
+    remaining = remaining.filter((_, index) => !assigned.has(index));
+  }
+}
+
+/**
+ * Sequential single-item auction: each task, highest priority first, is sold to the robot
+ * bidding the lowest completion time (its plan so far plus the trip to do the task)
+ */
+function auctionAllocation(plans: DraftPlan[], tasks: BaselineTask[], router: TaskRouter): void {
+  for (const task of tasks) {
+    let best: { plan: DraftPlan; route: TaskRoute; bid: number } | undefined;
+    for (const plan of plans) {
+      const route = router.route(plan, task);
+      if (!route || !router.affordable(plan, route, task)) continue;
+      const bid = travelTicks(plan, plan.cells.length - 1 + route.cells.length - 1);
+      if (!best || bid < best.bid) best = { plan, route, bid };
+    }
+    if (best) assign(best.plan, task, best.route);
+  }
+}
+
+function assign(plan: DraftPlan, task: BaselineTask, route: TaskRoute): void {
+  const offset = plan.cells.length - 1;
+  plan.tasks.push(task);
+  plan.cells.push(...route.cells.slice(1));
+  route.stops.forEach(({ location, index }) => plan.stops.push({ task, location, index: offset + index }));
+}
+
+/**
+ * Minimum-cost assignment of rows to columns (Hungarian method with potentials, O(n^3)).
+ * Returns the column for each row; rows left without a column, or only infinite ones, get
+ * undefined.
+ */
+export function solveAssignment(costs: number[][]): Array<number | undefined> {
+  const rows = costs.length;
+  const cols = costs[0]?.length || 0;
+  const size = Math.max(rows, cols);
+  const finite = costs.flat().filter(Number.isFinite);
+  const blocked = (finite.length > 0 ? Math.max(...finite) : 0) * size + 1;
+  const cost = (row: number, col: number) => {
+    if (row >= rows || col >= cols) return 0;
+    return Number.isFinite(costs[row][col]) ? costs[row][col] : blocked;
+  };
+
+  // 1-based arrays as in the classic formulation; column 0 is a sentinel
+  const u = new Array(size + 1).fill(0);
+  const v = new Array(size + 1).fill(0);
+  const match = new Array(size + 1).fill(0); // Row matched to each column
+  const way = new Array(size + 1).fill(0);
+  for (let row = 1; row <= size; row++) {
+    match[0] = row;
+    let col0 = 0;
+    const minv = new Array(size + 1).fill(Infinity);
+    const used = new Array(size + 1).fill(false);
+    do {
+      used[col0] = true;
+      const row0 = match[col0];
+      let delta = Infinity;
+      let col1 = 0;
+      for (let col = 1; col <= size; col++) {
+        if (used[col]) continue;
+        const reduced = cost(row0 - 1, col - 1) - u[row0] - v[col];
+        if (reduced < minv[col]) {
+          minv[col] = reduced;
+          way[col] = col0;
+        }
+        if (minv[col] < delta) {
+          delta = minv[col];
+          col1 = col;
+        }
+      }
+      for (let col = 0; col <= size; col++) {
+        if (used[col]) {
+          u[match[col]] += delta;
+          v[col] -= delta;
+        } else {
+          minv[col] -= delta;
+        }
+      }
+      col0 = col1;
+    } while (match[col0] !== 0);
+    do {
+      const col1 = way[col0];
+      match[col0] = match[col1];
+      col0 = col1;
+    } while (col0 !== 0);
+  }
+
+  const result: Array<number | undefined> = new Array(rows).fill(undefined);
+  for (let col = 1; col <= size; col++) {
+    const row = match[col] - 1;
+    if (row < rows && col - 1 < cols && Number.isFinite(costs[row][col - 1])) result[row] = col - 1;
+  }
+  return result;
+}
+
+const ALLOCATORS: { [strategy in AllocationStrategy]: (plans: DraftPlan[], tasks: BaselineTask[], router: TaskRouter) => void } = {
+  greedy: greedyAllocation,
+  hungarian: hungarianAllocation,
+  auction: auctionAllocation,
+};
+
+/**
+ * What allocating and routing need from an environment, with robots split into those that
+ * can take tasks (`plans`) and those already answered: out of service, or sent to charge
+ * when `chargeByPolicy` is set and the charging policy says they must
+ */
+interface AllocationContext {
+  map: WarehouseMap;
+  model: EnergyModel;
+  types: { [robotId: string]: RobotType };
+  starts: { [robotId: string]: GridCell };
+  router: TaskRouter;
+  charging: ChargingManager;
+  tasks: BaselineTask[]; // Highest priority, then earliest due, first
+  plans: DraftPlan[];
+  commands: RobotTasks;
+}
+
+function allocationContext(environment: BaselineEnvironment, chargeByPolicy: boolean): AllocationContext {
+  const scenario = environment.scenario && Object.keys(environment.scenario).length > 0 ? environment.scenario : environment;
+  const fleet: FleetState = getFleetState(environment);
+  const types = getFleetTypes({ ...environment, robotTypes: environment.robotTypes || environment.scenario?.robotTypes });
+  const map = environment.environmentMatrix && environment.environmentMatrix.length > 0
+    ? WarehouseMap.fromGrid(environment.environmentMatrix).withTraffic(TrafficRules.fromScenario(scenario.warehouseMap?.traffic))
+    : WarehouseMap.fromScenario(scenario.warehouseMap);
+  const model = resolveEnergyModel(scenario.energyModel);
+  const router = new TaskRouter(map, new LocationRegistry(map, scenario.warehouseMap?.specialZones), model);
+  const charging = ChargingManager.fromFleet(map, fleet, resolveChargingPolicy(scenario.charging));
+
+  const tasks = [...(scenario.operatorCommands?.taskPool || [])].sort(
+    (a, b) => (b.priority || 0) - (a.priority || 0) || (a.dueTick ?? Infinity) - (b.dueTick ?? Infinity)
+  );
+  const commands: RobotTasks = {};
+  const plans: DraftPlan[] = [];
+  const starts: { [robotId: string]: GridCell } = {};
+
+  for (const robotId of sortRobotIds(Object.keys(fleet))) {
+    const { position, battery, status } = fleet[robotId];
+    const start: GridCell = [position.row, position.col];
+    starts[robotId] = start;
+    if (status === "error") {
+      commands[robotId] = createPlan([waitAction(start, `Out of service; no task. Battery ${battery}%`)]);
+    } else if (chargeByPolicy && mustCharge(battery, charging, model)) {
+      commands[robotId] = chargingPlan(robotId, start, battery, charging, map, types[robotId]);
+    } else {
+      plans.push({ robotId, type: types[robotId], battery, cells: [start], tasks: [], stops: [], unlocated: [] });
+    }
+  }
+
+  return { map, model, types, starts, router, charging, tasks, plans, commands };
+}
+
+/**
+ * Whether the charging policy sends the robot to charge, or its battery is below the energy
+ * model's safety threshold (plans leaving such a robot without a charge fail validation)
+ */
+function mustCharge(battery: number, charging: ChargingManager, model: EnergyModel): boolean {
+  return charging.policy.shouldCharge(battery, false) || battery < model.safetyThresholdPercent;
+}
+
+/**
+ * Allocate the environment's task pool with a classical strategy. Robots that must charge
+ * (by the charging policy or below the safety threshold) are sent to the nearest free
+ * station (or told to wait for one) and take no tasks; every other robot gets its tasks, or
+ * a wait where it stands. Tasks naming no location go to the robot with the shortest plan,
+ * as a wait that says so.
+ */
+export function allocateTasks(environment: BaselineEnvironment, strategy: AllocationStrategy): RobotTasks {
+  const context = allocationContext(environment, true);
+  const { tasks, plans, commands } = context;
+
+  ALLOCATORS[strategy](plans, tasks, context.router);
+  const unassigned = tasks.filter(task => !plans.some(plan => plan.tasks.includes(task)));
+  const unlocated = unassigned.filter(task => !context.router.locates(task));
+  if (unlocated.length > 0 && plans.length > 0) {
+    const shortest = plans.reduce((best, plan) => (plan.cells.length < best.cells.length ? plan : best));
+    shortest.unlocated.push(...unlocated);
+    console.warn(`[Baseline ${strategy}] No location in: ${unlocated.map(task => task.taskId).join(", ")}; reported by ${shortest.robotId}`);
+  }
+  plans.forEach(plan => (commands[plan.robotId] = createPlan(draftActions(plan))));
+
+  const untaken = unassigned.filter(task => !plans.some(plan => plan.unlocated.includes(task)));
+  if (untaken.length > 0) {
+    console.warn(`[Baseline ${strategy}] No robot can take: ${untaken.map(task => task.taskId).join(", ")}`);
+  }
+  return avoidCollisions(commands, context);
+}
+
+/**
+ * Route an allocation made elsewhere (the LLM, in hybrid mode): each robot does its task IDs
+ * in the given order along planner paths, then drives to the nearest free station when it
+ * should charge or is below the safety threshold. Tasks naming no location end the plan in
+ * a wait that says so; tasks its type cannot do or that are out of reach are skipped and
+ * named in the last action's rationale.
+ */
+export function routeAssignments(environment: BaselineEnvironment, assignments: TaskAssignments): RobotTasks {
+  const context = allocationContext(environment, false);
+  const { tasks, plans, commands } = context;
+
+  for (const plan of plans) {
+    const assignment = assignments[plan.robotId] || { taskIds: [], charge: false };
+    const skipped: string[] = [];
+    for (const taskId of assignment.taskIds) {
+      const task = tasks.find(candidate => candidate.taskId === taskId);
+      const route = task && context.router.route(plan, task);
+      if (task && route) {
+        assign(plan, task, route);
+      } else if (task && !context.router.locates(task)) {
+        plan.unlocated.push(task);
+      } else {
+        skipped.push(taskId);
+      }
+    }
+    const charge = assignment.charge || plan.battery < context.model.safetyThresholdPercent;
+    const actions = charge ? chargeAfterPlan(plan, context) : draftActions(plan);
+    if (skipped.length > 0) {
+      const last = actions[actions.length - 1];
+      last.rationale = [last.rationale, `Could not route: ${skipped.join(", ")}`].filter(Boolean).join(". ");
+      console.warn(`[Hybrid] ${plan.robotId} cannot do: ${skipped.join(", ")}`);
+    }
+    commands[plan.robotId] = createPlan(actions);
+  }
+  return avoidCollisions(commands, context);
+}
+
+/**
+ * Redraw the plans' paths with the multi-agent planner so that no two robots meet, each
+ * robot visiting the same targets in the same order. Plans cannot say when to wait, so
+ * robots detour instead; a robot the planner cannot fit in keeps its paths.
+ */
+function avoidCollisions(planned: RobotTasks, context: AllocationContext): RobotTasks {
+  const commands = clearSharedEnds(planned, context);
+  const agents: AgentRequest[] = [];
+  const ends: { [robotId: string]: GridCell[] } = {}; // Where each action ends
+  for (const robotId of sortRobotIds(Object.keys(commands))) {
+    const plan = commands[robotId];
+    const start = context.starts[robotId];
+    if (!plan || !start) continue;
+    let end = start;
+    ends[robotId] = plan.actions.map(action => (end = action.path[action.path.length - 1] || end));
+    const type = context.types[robotId];
+    agents.push({ robotId, start, goals: ends[robotId], speedCellsPerTick: type?.speedCellsPerTick, robotType: type?.id });
+  }
+
+  const { paths, unresolved } = planMultiAgentPaths(context.map, agents, { allowWaiting: false });
+  const routed: RobotTasks = { ...commands };
+  for (const { robotId, start } of agents) {
+    if (unresolved.includes(robotId)) continue;
+    const path = paths[robotId];
+    // Goals equal to the one before are dropped by the planner; the robot parks on the last one left
+    const moves = ends[robotId].map((end, index) => !sameCell(end, index > 0 ? ends[robotId][index - 1] : start));
+    const last = moves.lastIndexOf(true);
+    let tick = 0;
+    const actions = commands[robotId]!.actions.map((action, index) => {
+      if (!moves[index]) return action.path.length > 0 ? { ...action, path: [path[tick]] } : action;
+      const from = tick;
+      tick = index === last ? path.length - 1 : path.findIndex((cell, at) => at > from && sameCell(cell, ends[robotId][index]));
+      const cells = path.slice(from, tick + 1).filter((cell, at, all) => at === 0 || !sameCell(cell, all[at - 1]));
+      return { ...action, path: toWaypoints(cells) };
+    });
+    routed[robotId] = createPlan(actions);
+  }
+  return routed;
+}
+
+/**
+ * Robots whose plans end on the same cell (e.g. one drop-off) would stand on each other
+ * there: each of them moves on to the nearest cell no plan ends on
+ */
+function clearSharedEnds(commands: RobotTasks, context: AllocationContext): RobotTasks {
+  const robotIds = sortRobotIds(Object.keys(commands)).filter(robotId => context.starts[robotId]);
+  const ends = new Map(robotIds.map(robotId => [robotId, planPath(commands[robotId]).pop() || context.starts[robotId]]));
+  const taken = new Set(Array.from(ends.values()).map(cell => cell.join(",")));
+  const cleared: RobotTasks = { ...commands };
+
+  for (const robotId of robotIds) {
+    const end = ends.get(robotId)!;
+    const shared = robotIds.some(otherId => otherId !== robotId && sameCell(ends.get(otherId)!, end));
+    if (!shared || sameCell(end, context.starts[robotId])) continue;
+    const exit = findRefuge(context.map, end, taken, new Set(), { robotType: context.types[robotId]?.id });
+    if (!exit) continue;
+    const cell = exit[exit.length - 1];
+    taken.add(cell.join(","));
+    cleared[robotId] = createPlan([
+      ...commands[robotId]!.actions,
+      { type: "navigate", target: { cell }, taskIds: [], path: toWaypoints(exit), rationale: `Clear [${end.join(", ")}] for the next robot` },
+    ]);
+  }
+  return cleared;
+}
+
+const sameCell = (a: GridCell, b: GridCell): boolean => a[0] === b[0] && a[1] === b[1];
+
+/**
+ * Actions for a plan: one per location its tasks visit, in order. A task that handles goods
+ * picks at its first location and drops at its last; other stops are navigation. A plan
+ * with no task waits where the robot is.
+ */
+function draftActions(plan: DraftPlan): PlanAction[] {
+  const end = plan.cells[plan.cells.length - 1];
+  const unlocated = plan.unlocated.length > 0
+    ? [{ ...waitAction(end, `No location to route to for ${plan.unlocated.map(task => task.taskId).join(", ")}. Battery ${plan.battery}%`), taskIds: plan.unlocated.map(task => task.taskId) }]
+    : [];
+  if (plan.stops.length === 0) {
+    return unlocated.length > 0 ? unlocated : [waitAction(end, `No task left for this robot. Battery ${plan.battery}%`)];
+  }
+  let from = 0;
+  const actions = plan.stops.map(({ task, location, index }): PlanAction => {
+    const stops = plan.stops.filter(stop => stop.task === task);
+    const position = stops.findIndex(stop => stop.index === index && stop.location === location);
+    const handles = stops.length > 1 && handlingOperations(task.description) > 0;
+    const type: PlanActionType = !handles ? "navigate" : position === 0 ? "pick" : position === stops.length - 1 ? "drop" : "navigate";
+    const path = toWaypoints(plan.cells.slice(from, index + 1));
+    from = index;
+    return {
+      type,
+      target: { name: location.name, cell: plan.cells[index] },
+      taskIds: [task.taskId],
+      path,
+      rationale: position === 0 ? task.description : undefined,
+    };
+  });
+  return [...actions, ...unlocated];
+}
+
+/**
+ * A plan's actions followed by a trip to the nearest free station from where they end, or a
+ * wait there when every station is taken
+ */
+function chargeAfterPlan(plan: DraftPlan, context: AllocationContext): PlanAction[] {
+  const actions = plan.stops.length > 0 || plan.unlocated.length > 0 ? draftActions(plan) : [];
+  const end = plan.cells[plan.cells.length - 1];
+  const reservation = context.charging.request(plan.robotId, 0, { from: end, battery: plan.battery });
+  const station = reservation && context.charging.station(reservation.stationId)!;
+  const route = station && findPath(context.map, end, station.cell, { robotType: plan.type.id });
+  if (!station || !route) return [...actions, waitAction(end, `Battery ${plan.battery}%; wait for a free charging station`)];
+  return [...actions, chargeAction(station.id, route, `Battery ${plan.battery}%${actions.length > 0 ? "; charge after the tasks" : ""}`)];
+}
+
+/**
+ * Trip to the nearest free station for a robot that must charge, or a hold where it is
+ * when every station is taken
+ */
+function chargingPlan(robotId: string, start: GridCell, battery: number, charging: ChargingManager, map: WarehouseMap, type: RobotType): RobotPlan {
+  const reservation = charging.request(robotId, 0, { from: start, battery });
+  const station = reservation && charging.station(reservation.stationId)!;
+  const route = station && findPath(map, start, station.cell, { robotType: type.id });
+  if (!station || !route) {
+    return createPlan([waitAction(start, `Battery ${battery}% is below the charging threshold; wait for a free charging station`)]);
+  }
+  return createPlan([chargeAction(station.id, route, `Battery ${battery}% is below the charging threshold`)]);
+}
+
+function chargeAction(stationId: number, route: GridCell[], rationale: string): PlanAction {
+  const cell = route[route.length - 1];
+  return { type: "charge", target: { name: `Charging station ${stationId}`, cell }, taskIds: [], path: toWaypoints(route), rationale };
+}
+
+function waitAction(cell: GridCell, rationale: string): PlanAction {
+  return { type: "wait", target: { cell }, taskIds: [], path: [cell], rationale };
+}
+
+export class BaselineProvider implements LLMProvider {
+  async generateTasks(prompt: string, environment: BaselineEnvironment, model: string): Promise<RobotTasks> {
+    const strategy = BASELINE_STRATEGIES[model];
+    if (!strategy) {
+      throw new Error(`Unknown baseline allocator "${model}"; use one of ${Object.keys(BASELINE_STRATEGIES).join(", ")}`);
+    }
+    console.log(`[Baseline ${strategy}] Allocating without an LLM`);
+    return allocateTasks(environment, strategy);
+  }
+}
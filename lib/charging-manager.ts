@@ -0,0 +1,323 @@
+/**
+ * Charging Manager
+ * Tracks which charging station (C cell) each robot holds, hands out reservations and keeps
+ * a queue of robots waiting when every station is taken (lowest battery first). When a
+ * charging policy decides a robot should charge is pluggable: below a threshold, or also
+ * opportunistically while it has nothing else to do. LLM allocations are checked against
+ * the reservations, so two robots sent to the same station show up as a conflict.
+ */
+
+import { manhattanDistance } from "./path-planner";
+import { LocationRegistry } from "./location-registry";
+import type { RobotTasks } from "./llm-providers";
+import { planPath } from "./robot-plan";
+import { compareRobotIds, FleetState } from "./fleet";
+import type { GridCell, WarehouseMap } from "./warehouse-map";
+
+export interface ChargingStation {
+  id: number; // Linear cell index, as in "Charging station 270"
+  cell: GridCell;
+}
+
+export interface ChargingReservation {
+  robotId: string;
+  stationId: number;
+  reservedAt: number; // Tick the reservation was made
+  status: "reserved" | "charging"; // On its way, or docked
+}
+
+export interface ChargingRequest {
+  from: GridCell; // Where the robot stands, to find the nearest free station
+  battery: number;
+  preferred?: number; // Station the robot was sent to, if a specific one
+}
+
+interface QueuedRobot extends ChargingRequest {
+  robotId: string;
+  since: number;
+}
+
+/**
+ * Decides when a robot goes to charge and when it has charged enough to leave
+ */
+export interface ChargingPolicy {
+  name: string;
+  shouldCharge(battery: number, idle: boolean): boolean;
+  charged(battery: number): boolean;
+}
+
+export interface ChargingPolicyConfig {
+  policy?: "threshold" | "opportunistic";
+  thresholdPercent?: number; // Below this a robot always goes to charge
+  targetPercent?: number; // A robot charging leaves once it reaches this
+  topUpBelowPercent?: number; // Opportunistic: idle robots below this top up
+}
+
+/**
+ * Charge only below the threshold, up to the target
+ */
+export function thresholdPolicy(thresholdPercent = 20, targetPercent = 80): ChargingPolicy {
+  return {
+    name: `threshold (below ${thresholdPercent}%, up to ${targetPercent}%)`,
+    shouldCharge: battery => battery < thresholdPercent,
+    charged: battery => battery >= targetPercent,
+  };
+}
+
+/**
+ * Charge below the threshold, and also top up idle robots below `topUpBelowPercent`
+ */
+export function opportunisticPolicy(thresholdPercent = 20, topUpBelowPercent = 60, targetPercent = 95): ChargingPolicy {
+  return {
+    name: `opportunistic (below ${thresholdPercent}%, or idle below ${topUpBelowPercent}%, up to ${targetPercent}%)`,
+    shouldCharge: (battery, idle) => battery < thresholdPercent || (idle && battery < topUpBelowPercent),
+    charged: battery => battery >= targetPercent,
+  };
+}
+
+export const CHARGING_POLICIES: { [name: string]: (config: ChargingPolicyConfig) => ChargingPolicy } = {
+  threshold: config => thresholdPolicy(config.thresholdPercent, config.targetPercent),
+  opportunistic: config => opportunisticPolicy(config.thresholdPercent, config.topUpBelowPercent, config.targetPercent),
+};
+
+/**
+ * Policy for a scenario's `charging` settings; threshold-based when none are given
+ */
+export function resolveChargingPolicy(config: ChargingPolicyConfig = {}): ChargingPolicy {
+  const name = config.policy || "threshold";
+  if (!Object.hasOwn(CHARGING_POLICIES, name)) {
+    throw new Error(`Unknown charging policy "${name}"; use one of ${Object.keys(CHARGING_POLICIES).join(", ")}`);
+  }
+  return CHARGING_POLICIES[name](config);
+}
+
+export interface ChargingSnapshot {
+  policy: string;
+  stations: Array<ChargingStation & { robotId?: string; status?: ChargingReservation["status"] }>;
+  waiting: string[]; // Robots queued for a station, next in line first
+}
+
+export class ChargingManager {
+  readonly policy: ChargingPolicy;
+  private stations: Map<number, ChargingStation>;
+  private reservations: Map<string, ChargingReservation> = new Map(); // By robot
+  private queue: QueuedRobot[] = [];
+
+  constructor(stations: ChargingStation[], policy: ChargingPolicy = thresholdPolicy()) {
+    this.stations = new Map(stations.map(station => [station.id, station]));
+    this.policy = policy;
+  }
+
+  /**
+   * One station per C cell of the map
+   */
+  static fromMap(map: WarehouseMap, policy?: ChargingPolicy): ChargingManager {
+    const stations = new LocationRegistry(map).chargers.map(charger => ({ id: map.toIndex(...charger.cells[0]), cell: charger.cells[0] }));
+    return new ChargingManager(stations, policy);
+  }
+
+  /**
+   * Stations of the map with the fleet's docked robots already charging at theirs: the
+   * station a robot lists as `chargingStationId`, or the C cell it stands on
+   */
+  static fromFleet(map: WarehouseMap, fleet: FleetState, policy?: ChargingPolicy): ChargingManager {
+    const manager = ChargingManager.fromMap(map, policy);
+    for (const robotId of Object.keys(fleet).sort(compareRobotIds)) {
+      const { position, chargingStationId } = fleet[robotId];
+      const stationId = chargingStationId ?? (map.cellAt(position.row, position.col) === "C" ? map.toIndex(position.row, position.col) : undefined);
+      if (stationId === undefined || !manager.station(stationId) || manager.holderOf(stationId)) continue;
+      manager.reservations.set(robotId, { robotId, stationId, reservedAt: 0, status: "charging" });
+    }
+    return manager;
+  }
+
+  station(stationId: number): ChargingStation | undefined {
+    return this.stations.get(stationId);
+  }
+
+  /**
+   * Station on a cell, if the cell is one
+   */
+  stationAt(row: number, col: number): ChargingStation | undefined {
+    return Array.from(this.stations.values()).find(({ cell }) => cell[0] === row && cell[1] === col);
+  }
+
+  reservationFor(robotId: string): ChargingReservation | undefined {
+    return this.reservations.get(robotId);
+  }
+
+  holderOf(stationId: number): string | undefined {
+    return Array.from(this.reservations.values()).find(reservation => reservation.stationId === stationId)?.robotId;
+  }
+
+  isQueued(robotId: string): boolean {
+    return this.queue.some(entry => entry.robotId === robotId);
+  }
+
+  /**
+   * Robots waiting for a station, next in line first
+   */
+  waiting(): string[] {
+    return this.queue.map(entry => entry.robotId);
+  }
+
+  /**
+   * Reserve a station: the preferred one when it is free, otherwise the nearest free one.
+   * A robot that already holds a reservation keeps it. When every station is taken the
+   * robot joins the queue and undefined is returned.
+   */
+  request(robotId: string, tick: number, request: ChargingRequest): ChargingReservation | undefined {
+    const existing = this.reservations.get(robotId);
+    if (existing) return existing;
+
+    const station = this.freeStation(request);
+    if (!station) {
+      if (!this.isQueued(robotId)) {
+        this.queue.push({ ...request, robotId, since: tick });
+        this.queue.sort((a, b) => a.battery - b.battery || a.since - b.since || compareRobotIds(a.robotId, b.robotId));
+      }
+      return undefined;
+    }
+
+    this.queue = this.queue.filter(entry => entry.robotId !== robotId);
+    const reservation: ChargingReservation = { robotId, stationId: station.id, reservedAt: tick, status: "reserved" };
+    this.reservations.set(robotId, reservation);
+    return reservation;
+  }
+
+  /**
+   * The robot reached its reserved station and started charging
+   */
+  arrive(robotId: string): void {
+    const reservation = this.reservations.get(robotId);
+    if (reservation) reservation.status = "charging";
+  }
+
+  /**
+   * Give up a robot's station (or its place in the queue). The station goes to the next
+   * robot in the queue, whose new reservation is returned.
+   */
+  release(robotId: string, tick: number): ChargingReservation | undefined {
+    this.queue = this.queue.filter(entry => entry.robotId !== robotId);
+    const reservation = this.reservations.get(robotId);
+    if (!reservation) return undefined;
+    this.reservations.delete(robotId);
+
+    const next = this.queue.shift();
+    if (!next) return undefined;
+    const handover: ChargingReservation = { robotId: next.robotId, stationId: reservation.stationId, reservedAt: tick, status: "reserved" };
+    this.reservations.set(next.robotId, handover);
+    return handover;
+  }
+
+  /**
+   * Independent copy, e.g. to try out an allocation
+   */
+  clone(): ChargingManager {
+    const copy = new ChargingManager(Array.from(this.stations.values()), this.policy);
+    this.reservations.forEach((reservation, robotId) => copy.reservations.set(robotId, { ...reservation }));
+    copy.queue = this.queue.map(entry => ({ ...entry }));
+    return copy;
+  }
+
+  snapshot(): ChargingSnapshot {
+    return {
+      policy: this.policy.name,
+      stations: Array.from(this.stations.values()).map(station => {
+        const robotId = this.holderOf(station.id);
+        return robotId ? { ...station, robotId, status: this.reservations.get(robotId)!.status } : { ...station };
+      }),
+      waiting: this.waiting(),
+    };
+  }
+
+  /**
+   * Lines for prompts, one per station, then the queue
+   */
+  describe(): string {
+    const { stations, waiting } = this.snapshot();
+    const lines = stations.map(({ id, cell, robotId, status }) =>
+      `- Charging station ${id} [${cell[0]}, ${cell[1]}]: ${robotId ? `${status === "charging" ? "occupied by" : "reserved for"} ${robotId}` : "free"}`
+    );
+    if (waiting.length > 0) lines.push(`- Waiting for a station: ${waiting.join(", ")}`);
+    return lines.join("\n");
+  }
+
+  private freeStation({ from, preferred }: ChargingRequest): ChargingStation | undefined {
+    const free = Array.from(this.stations.values()).filter(station => !this.holderOf(station.id));
+    const wanted = free.find(station => station.id === preferred);
+    if (wanted) return wanted;
+    return free.sort((a, b) => manhattanDistance(from, a.cell) - manhattanDistance(from, b.cell) || a.id - b.id)[0];
+  }
+}
+
+/**
+ * A robot the LLM sent to charge: at a named station, along a path ending on a C cell, or
+ * just to the charging area or any station (no preferred station)
+ */
+export interface ChargingAllocation extends ChargingRequest {
+  robotId: string;
+}
+
+/**
+ * Charging trips in a set of robot plans: each plan's last charge action, or for a plan
+ * without one, a path or final target that ends at a charger
+ */
+export function chargingAllocations(plans: RobotTasks, fleet: FleetState, map: WarehouseMap): ChargingAllocation[] {
+  const locations = new LocationRegistry(map);
+  const allocations: ChargingAllocation[] = [];
+
+  for (const robotId of Object.keys(plans).sort(compareRobotIds)) {
+    const plan = plans[robotId];
+    const robot = fleet[robotId];
+    if (!plan || !robot) continue;
+
+    const charge = [...plan.actions].reverse().find(action => action.type === "charge");
+    const path = charge ? charge.path : planPath(plan);
+    const end = charge?.target?.cell || path[path.length - 1];
+    const text = (charge || plan.actions[plan.actions.length - 1])?.target?.name || "";
+    const named = locations.findInText(text).locations.filter(location => location.kind === "charger" || location.id === "zone-charging");
+    const target = named[named.length - 1];
+    const preferred = end && map.cellAt(end[0], end[1]) === "C"
+      ? map.toIndex(end[0], end[1])
+      : target?.kind === "charger" ? map.toIndex(...target.cells[0]) : undefined;
+    if (!charge && preferred === undefined && !target) continue;
+
+    allocations.push({ robotId, from: [robot.position.row, robot.position.col], battery: robot.battery, ...(preferred !== undefined ? { preferred } : {}) });
+  }
+  return allocations;
+}
+
+export interface ChargingCheck {
+  reservations: ChargingReservation[]; // Stations the allocation would get
+  queued: string[]; // Robots that would wait for a station
+  conflicts: string[]; // e.g. "R3 sent to Charging station 271, which R4 holds"
+}
+
+/**
+ * Check charging trips against the manager's reservations without changing them: a robot
+ * sent to a station another robot holds (or was sent to first), or sent to charge while
+ * every station is taken, is a conflict
+ */
+export function checkChargingAllocation(manager: ChargingManager, allocations: ChargingAllocation[]): ChargingCheck {
+  const trial = manager.clone();
+  const check: ChargingCheck = { reservations: [], queued: [], conflicts: [] };
+
+  for (const allocation of allocations) {
+    const { robotId, preferred } = allocation;
+    const holder = preferred !== undefined ? trial.holderOf(preferred) : undefined;
+    const before = trial.reservationFor(robotId);
+    const reservation = trial.request(robotId, 0, allocation);
+    if (reservation && reservation !== before) check.reservations.push(reservation);
+    if (!reservation) check.queued.push(robotId);
+
+    if (holder && holder !== robotId) {
+      const sentFirst = allocations.some(other => other.robotId === holder);
+      const wait = reservation ? "" : "; no other station is free, so it would have to wait";
+      check.conflicts.push(`${robotId} sent to Charging station ${preferred}, which ${holder} ${sentFirst ? "was sent to first" : "holds"}${wait}`);
+    } else if (!reservation) {
+      check.conflicts.push(`${robotId} sent to charge but every station is taken; it would have to wait`);
+    }
+  }
+  return check;
+}
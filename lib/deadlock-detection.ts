@@ -0,0 +1,197 @@
+/**
+ * Deadlock and Livelock Detection
+ * A deadlock is a cycle of robots each waiting for a cell another one holds (e.g. two robots
+ * meeting head-on in an aisle); since robots move one at a time, such a cycle never clears by
+ * itself, and neither does a chain of waits ending at a parked robot (one with nothing left to
+ * do, e.g. standing on the goal of its finished task). A livelock is a robot that keeps moving
+ * between a few cells without getting closer to the end of its route. The detector reports each one once, with the robots and cells involved.
+ */
+
+import { sortRobotIds } from "./fleet";
+import { canMove, PathOptions } from "./path-planner";
+import { GridCell, WarehouseMap } from "./warehouse-map";
+
+export type LockKind = "deadlock" | "livelock";
+
+export interface LockEvent {
+  tick: number;
+  kind: LockKind;
+  robots: string[];
+  cells: GridCell[]; // Cells the robots hold (deadlock) or oscillate between (livelock)
+  parked?: string; // Parked robot the wait chain ends at, when it is not a cycle
+  resolution?: string; // What was done about it, when a resolution strategy is enabled
+}
+
+/**
+ * A robot waiting this tick for a cell held by another robot
+ */
+export interface RobotWait {
+  blocker: string;
+  position: GridCell;
+}
+
+export interface LivelockConfig {
+  windowTicks: number; // Ticks of history to look at
+  maxDistinctCells: number; // Oscillating robots visit at most this many cells in the window
+}
+
+export const DEFAULT_LIVELOCK_CONFIG: LivelockConfig = {
+  windowTicks: 10,
+  maxDistinctCells: 3,
+};
+
+const cellKey = ([row, col]: GridCell): string => `${row},${col}`;
+
+/**
+ * Cycles in the wait-for graph. Each robot waits for at most one other, so following the
+ * blockers from every robot finds each cycle; robots are listed starting from the lowest ID.
+ */
+export function findWaitCycles(waits: Map<string, RobotWait>): string[][] {
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
+
+  for (const start of sortRobotIds(Array.from(waits.keys()))) {
+    const path: string[] = [];
+    let current: string | undefined = start;
+    while (current && !seen.has(current) && !path.includes(current)) {
+      path.push(current);
+      current = waits.get(current)?.blocker;
+    }
+    if (current && path.includes(current)) {
+      const cycle = path.slice(path.indexOf(current));
+      const first = cycle.indexOf(sortRobotIds(cycle)[0]);
+      cycles.push([...cycle.slice(first), ...cycle.slice(0, first)]);
+    }
+    path.forEach(robotId => seen.add(robotId));
+  }
+
+  return cycles;
+}
+
+/**
+ * Wait chains ending at a parked robot, which is not waiting itself and will not move on its
+ * own. Each chain starts at a robot nobody waits for and lists the parked robot last.
+ */
+export function findParkedChains(waits: Map<string, RobotWait>, parked: Set<string>): string[][] {
+  const blockers = new Set(Array.from(waits.values()).map(wait => wait.blocker));
+  const chains: string[][] = [];
+
+  for (const start of sortRobotIds(Array.from(waits.keys())).filter(robotId => !blockers.has(robotId))) {
+    const chain: string[] = [];
+    let current: string | undefined = start;
+    while (current && waits.has(current) && !chain.includes(current)) {
+      chain.push(current);
+      current = waits.get(current)!.blocker;
+    }
+    if (current && parked.has(current)) chains.push([...chain, current]);
+  }
+
+  return chains;
+}
+
+export class LockDetector {
+  private config: LivelockConfig;
+  private activeDeadlocks: Set<string> = new Set(); // Cycles already reported and still standing
+  private history: Map<string, Array<{ cell: GridCell; remaining: number }>> = new Map();
+
+  constructor(config: Partial<LivelockConfig> = {}) {
+    this.config = { ...DEFAULT_LIVELOCK_CONFIG, ...config };
+  }
+
+  /**
+   * New wait cycles, and wait chains ending at one of the `parked` robots (by position), this
+   * tick; each is reported again only after it has dissolved
+   */
+  detectDeadlocks(tick: number, waits: Map<string, RobotWait>, parked: Map<string, GridCell> = new Map()): LockEvent[] {
+    const events: LockEvent[] = [];
+    const keys = new Set<string>();
+    const report = (robots: string[], event: Omit<LockEvent, "tick" | "kind" | "robots">) => {
+      const key = robots.join(">");
+      keys.add(key);
+      if (!this.activeDeadlocks.has(key)) events.push({ tick, kind: "deadlock", robots, ...event });
+    };
+
+    for (const cycle of findWaitCycles(waits)) {
+      report(cycle, { cells: cycle.map(robotId => waits.get(robotId)!.position) });
+    }
+    for (const chain of findParkedChains(waits, new Set(parked.keys()))) {
+      const blocker = chain[chain.length - 1];
+      report(chain, { cells: [...chain.slice(0, -1).map(robotId => waits.get(robotId)!.position), parked.get(blocker)!], parked: blocker });
+    }
+    this.activeDeadlocks = keys;
+    return events;
+  }
+
+  /**
+   * Record where a robot with a route is and how many cells it has left. Returns a livelock
+   * when, over the window, it moved in at least half the ticks, stayed within a few cells
+   * and has no fewer cells left than at the start of the window.
+   */
+  observe(tick: number, robotId: string, cell: GridCell, remaining: number): LockEvent | undefined {
+    const history = this.history.get(robotId) || [];
+    history.push({ cell, remaining });
+    if (history.length > this.config.windowTicks + 1) history.shift();
+    this.history.set(robotId, history);
+    if (history.length <= this.config.windowTicks) return undefined;
+
+    const moves = history.filter((entry, index) => index > 0 && cellKey(entry.cell) !== cellKey(history[index - 1].cell)).length;
+    const distinct = Array.from(new Set(history.map(entry => cellKey(entry.cell))));
+    const progressed = history[history.length - 1].remaining < history[0].remaining;
+    if (moves * 2 < this.config.windowTicks || distinct.length > this.config.maxDistinctCells || progressed) {
+      return undefined;
+    }
+
+    this.history.delete(robotId);
+    return {
+      tick,
+      kind: "livelock",
+      robots: [robotId],
+      cells: distinct.map(key => key.split(",").map(Number) as GridCell),
+    };
+  }
+
+  /**
+   * Forget a robot's history, e.g. when its task ends
+   */
+  forget(robotId: string): void {
+    this.history.delete(robotId);
+  }
+}
+
+/**
+ * Shortest way (breadth-first) from a cell to the nearest free cell outside `avoid`, moving
+ * only through cells no robot stands on and as traffic rules allow. The result starts at
+ * `start`; null when there is none.
+ */
+export function findRefuge(
+  map: WarehouseMap,
+  start: GridCell,
+  avoid: Set<string>,
+  occupied: Set<string>,
+  options: PathOptions = {}
+): GridCell[] | null {
+  const previous = new Map<string, GridCell | null>([[cellKey(start), null]]);
+  const queue: GridCell[] = [start];
+
+  while (queue.length > 0) {
+    const cell = queue.shift()!;
+    if (cell !== start && !avoid.has(cellKey(cell))) {
+      const path: GridCell[] = [];
+      for (let current: GridCell | null = cell; current; current = previous.get(cellKey(current)) || null) {
+        path.unshift(current);
+      }
+      return path;
+    }
+
+    const [row, col] = cell;
+    const around: GridCell[] = [[row - 1, col], [row + 1, col], [row, col - 1], [row, col + 1]];
+    for (const next of around) {
+      const key = cellKey(next);
+      if (previous.has(key) || occupied.has(key) || !canMove(map, cell, next, options)) continue;
+      previous.set(key, cell);
+      queue.push(next);
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,194 @@
+/**
+ * Dynamic Obstacles
+ * Scenario-defined actors (pickers, forklifts) that move one cell per tick along a scripted
+ * route or a seeded random walk, and cells that are blocked for a window of ticks (a spill,
+ * a pallet left in an aisle). The simulator advances them every tick; robots wait for them
+ * and replan when one appears on their route. Actors are not bound by the robots' traffic rules.
+ */
+
+import { findPath } from "./path-planner";
+import { GridCell, WarehouseMap } from "./warehouse-map";
+
+export type ActorKind = "picker" | "forklift";
+
+/**
+ * Visit the waypoints in order along shortest paths; with `loop` the actor returns to the
+ * first waypoint and starts over, otherwise it stays at the last one
+ */
+export interface ScriptedTrajectory {
+  type: "scripted";
+  waypoints: GridCell[];
+  loop?: boolean;
+}
+
+/**
+ * Step to a random free neighbour each tick; the same seed always gives the same walk
+ */
+export interface RandomWalkTrajectory {
+  type: "randomWalk";
+  seed?: number;
+  moveProbability?: number; // Chance of moving on a tick (default 1)
+  area?: { rows: [number, number]; cols: [number, number] }; // Inclusive bounds the actor stays within
+}
+
+export interface DynamicActor {
+  id: string; // e.g. "F1"
+  kind: ActorKind;
+  start: GridCell;
+  trajectory: ScriptedTrajectory | RandomWalkTrajectory;
+}
+
+export interface TemporaryBlock {
+  cells: GridCell[];
+  fromTick: number;
+  untilTick?: number; // First tick the cells are free again; blocked for the rest of the run when omitted
+  reason?: string;
+}
+
+export interface ScenarioDynamics {
+  actors?: DynamicActor[];
+  blockedCells?: TemporaryBlock[];
+}
+
+interface ActorState {
+  actor: DynamicActor;
+  position: GridCell;
+  route: GridCell[]; // Scripted actors: remaining cells to enter
+  random?: () => number; // Random-walk actors: seeded generator
+}
+
+export class DynamicEnvironment {
+  private map: WarehouseMap;
+  private blocks: TemporaryBlock[];
+  private actors: ActorState[];
+  private tick = 0;
+
+  constructor(map: WarehouseMap, dynamics: ScenarioDynamics = {}) {
+    this.map = map;
+    this.blocks = dynamics.blockedCells || [];
+    this.actors = (dynamics.actors || []).map(actor => {
+      const [row, col] = actor.start;
+      if (!map.isTraversable(row, col)) {
+        throw new Error(`Actor ${actor.id} starts on a blocked cell (${row}, ${col})`);
+      }
+      const state: ActorState = { actor, position: [row, col], route: [] };
+      if (actor.trajectory.type === "randomWalk") {
+        state.random = seededRandom(actor.trajectory.seed ?? 1);
+      } else {
+        state.route = this.scriptedRoute(actor.start, actor.trajectory, actor.id);
+      }
+      return state;
+    });
+  }
+
+  static fromScenario(map: WarehouseMap, dynamics: ScenarioDynamics | undefined): DynamicEnvironment | undefined {
+    const empty = !dynamics || ((dynamics.actors || []).length === 0 && (dynamics.blockedCells || []).length === 0);
+    return empty ? undefined : new DynamicEnvironment(map, dynamics);
+  }
+
+  /**
+   * Move every actor one cell for the given tick. Actors wait rather than enter a cell
+   * that is occupied (by a robot, per `occupied`), blocked or held by another actor.
+   */
+  advance(tick: number, occupied: (row: number, col: number) => boolean = () => false): void {
+    this.tick = tick;
+    for (const state of this.actors) {
+      const next = state.random ? this.randomStep(state) : state.route[0];
+      if (!next) continue;
+
+      const [row, col] = next;
+      if (occupied(row, col) || this.blockerAt(row, col)) continue;
+
+      state.position = [row, col];
+      if (!state.random) {
+        state.route.shift();
+        const trajectory = state.actor.trajectory as ScriptedTrajectory;
+        if (state.route.length === 0 && trajectory.loop) {
+          state.route = this.scriptedRoute(state.position, trajectory, state.actor.id);
+        }
+      }
+    }
+  }
+
+  /**
+   * What blocks a cell at the current tick, e.g. "forklift F1" or "spill", if anything
+   */
+  blockerAt(row: number, col: number): string | undefined {
+    const actor = this.actors.find(({ position }) => position[0] === row && position[1] === col);
+    if (actor) return `${actor.actor.kind} ${actor.actor.id}`;
+
+    const block = this.activeBlocks().find(({ cells }) => cells.some(([r, c]) => r === row && c === col));
+    return block ? block.reason || "temporary block" : undefined;
+  }
+
+  isBlocked(row: number, col: number): boolean {
+    return this.blockerAt(row, col) !== undefined;
+  }
+
+  positions(): { [actorId: string]: GridCell } {
+    return Object.fromEntries(this.actors.map(({ actor, position }) => [actor.id, [position[0], position[1]] as GridCell]));
+  }
+
+  /**
+   * The static map with every cell blocked right now marked as an obstacle, for replanning
+   */
+  planningMap(): WarehouseMap {
+    const map = WarehouseMap.fromGrid(this.map.toGrid()).withTraffic(this.map.traffic);
+    for (const { position: [row, col] } of this.actors) {
+      map.setCell(row, col, "O");
+    }
+    for (const { cells } of this.activeBlocks()) {
+      cells.filter(([row, col]) => map.inBounds(row, col)).forEach(([row, col]) => map.setCell(row, col, "O"));
+    }
+    return map;
+  }
+
+  private activeBlocks(): TemporaryBlock[] {
+    return this.blocks.filter(block => block.fromTick <= this.tick && (block.untilTick === undefined || this.tick < block.untilTick));
+  }
+
+  /**
+   * Cells from a position through every waypoint of a scripted trajectory
+   */
+  private scriptedRoute(from: GridCell, trajectory: ScriptedTrajectory, actorId: string): GridCell[] {
+    const route: GridCell[] = [];
+    let current = from;
+    for (const waypoint of trajectory.waypoints) {
+      const segment = findPath(this.map, current, waypoint, { ignoreTraffic: true });
+      if (!segment) {
+        throw new Error(`Actor ${actorId} cannot reach waypoint (${waypoint[0]}, ${waypoint[1]})`);
+      }
+      route.push(...segment.slice(1));
+      current = waypoint;
+    }
+    return route;
+  }
+
+  private randomStep(state: ActorState): GridCell | undefined {
+    const trajectory = state.actor.trajectory as RandomWalkTrajectory;
+    if (state.random!() >= (trajectory.moveProbability ?? 1)) return undefined;
+
+    const [row, col] = state.position;
+    const area = trajectory.area;
+    const options = ([[row - 1, col], [row + 1, col], [row, col - 1], [row, col + 1]] as GridCell[]).filter(
+      ([r, c]) =>
+        this.map.isTraversable(r, c) &&
+        (!area || (r >= area.rows[0] && r <= area.rows[1] && c >= area.cols[0] && c <= area.cols[1]))
+    );
+    return options.length > 0 ? options[Math.floor(state.random!() * options.length)] : undefined;
+  }
+}
+
+/**
+ * Deterministic generator of numbers in [0, 1) (mulberry32)
+ */
+function seededRandom(seed: number): () => number {
+  let value = seed >>> 0;
+  return () => {
+    value = (value + 0x6d2b79f5) >>> 0;
+    let t = value;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
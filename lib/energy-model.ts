@@ -0,0 +1,121 @@
+/**
+ * Energy Model
+ * Battery drain per cell moved, per pick or drop and per idle tick, plus charging on
+ * C cells. Energy is counted in Wh and converted to battery percent using each robot
+ * type's capacity, so a tugger's large pack drains more slowly than an inspector's.
+ */
+
+import type { RobotType } from "./robot-types";
+import type { GridCell, WarehouseMap } from "./warehouse-map";
+
+export interface EnergyModel {
+  whPerCell: number; // Consumed for each cell moved
+  whPerPickOrDrop: number; // Consumed for each pick or drop of goods
+  whPerIdleTick: number; // Consumed for each tick spent waiting off a charger
+  chargeWhPerTick: number; // Gained for each tick spent on a charging (C) cell
+  safetyThresholdPercent: number; // Robots below this level must go and charge
+}
+
+export const DEFAULT_ENERGY_MODEL: EnergyModel = {
+  whPerCell: 5,
+  whPerPickOrDrop: 10,
+  whPerIdleTick: 0.5,
+  chargeWhPerTick: 50,
+  safetyThresholdPercent: 20,
+};
+
+export interface EnergyPrediction {
+  startPercent: number;
+  endPercent: number;
+  minPercent: number;
+  canFinish: boolean; // The battery never runs flat along the route
+  strandedAt?: GridCell; // First cell below the safety threshold on a route that does not end at a charger
+}
+
+const HANDLING_PATTERN = /\b(pick|picks|grasp|retrieve|carry|deliver|deliveries|item|items|pallet|cart|load|unload|tow)\b/i;
+
+/**
+ * Merge a partial (e.g. scenario-defined) energy model over the defaults
+ */
+export function resolveEnergyModel(overrides: Partial<EnergyModel> = {}): EnergyModel {
+  return { ...DEFAULT_ENERGY_MODEL, ...overrides };
+}
+
+export function whToPercent(wh: number, type: RobotType): number {
+  return (wh / type.batteryCapacityWh) * 100;
+}
+
+/**
+ * Clamp to 0-100% and round to two decimals so repeated small drains stay readable
+ */
+export function clampBattery(percent: number): number {
+  return Math.round(Math.min(100, Math.max(0, percent)) * 100) / 100;
+}
+
+export function isChargingCell(map: WarehouseMap, row: number, col: number): boolean {
+  return map.cellAt(row, col) === "C";
+}
+
+/**
+ * Picks and drops a task needs: one of each when it handles goods, none for pure moves
+ */
+export function handlingOperations(taskText: string): number {
+  return HANDLING_PATTERN.test(taskText) ? 2 : 0;
+}
+
+/**
+ * Predict the battery along a route. `cells` are the cells entered after the start, in
+ * order; a repeated cell is a wait tick. Picks are charged before the first move and
+ * drops after the last one.
+ */
+export function predictRouteEnergy(
+  map: WarehouseMap,
+  start: GridCell,
+  cells: GridCell[],
+  startPercent: number,
+  type: RobotType,
+  options: { handlingOperations?: number; model?: EnergyModel } = {}
+): EnergyPrediction {
+  const model = options.model || DEFAULT_ENERGY_MODEL;
+  const operations = options.handlingOperations || 0;
+  const picks = Math.ceil(operations / 2);
+
+  let battery = clampBattery(startPercent - whToPercent(picks * model.whPerPickOrDrop, type));
+  let minPercent = battery;
+  let canFinish = battery > 0;
+  let firstBelowThreshold: GridCell | undefined = startPercent >= model.safetyThresholdPercent && battery < model.safetyThresholdPercent
+    ? start
+    : undefined;
+  let [row, col] = start;
+
+  const record = (cell: GridCell) => {
+    minPercent = Math.min(minPercent, battery);
+    if (battery <= 0) canFinish = false;
+    if (!firstBelowThreshold && startPercent >= model.safetyThresholdPercent && battery < model.safetyThresholdPercent) {
+      firstBelowThreshold = cell;
+    }
+  };
+
+  for (const cell of cells) {
+    if (cell[0] === row && cell[1] === col) {
+      battery = isChargingCell(map, row, col)
+        ? clampBattery(battery + whToPercent(model.chargeWhPerTick, type))
+        : clampBattery(battery - whToPercent(model.whPerIdleTick, type));
+    } else {
+      battery = clampBattery(battery - whToPercent(model.whPerCell, type));
+      [row, col] = cell;
+    }
+    record(cell);
+  }
+
+  battery = clampBattery(battery - whToPercent((operations - picks) * model.whPerPickOrDrop, type));
+  record([row, col]);
+
+  return {
+    startPercent,
+    endPercent: battery,
+    minPercent,
+    canFinish,
+    ...(firstBelowThreshold && !isChargingCell(map, row, col) ? { strandedAt: firstBelowThreshold } : {}),
+  };
+}
@@ -4,6 +4,22 @@
  */
 
 import { WarehouseState } from "./langgraph-workflow";
+import { findTaskReferences, RobotTask } from "./robots";
+import { planPath, RobotPlan } from "./robot-plan";
+import { GridCell, repairPath, straightLineCells } from "./path-planner";
+import { WarehouseMap } from "./warehouse-map";
+import { TrafficRules } from "./traffic-rules";
+import { detectConflicts, timedPathsFromWaypoints } from "./multi-agent-planner";
+import { getFleetTypes, getRobotIds } from "./fleet";
+import { capabilityGaps, getTaskRequirements } from "./robot-types";
+import { handlingOperations, predictRouteEnergy, resolveEnergyModel } from "./energy-model";
+import { TestScenario } from "./test-scenarios";
+import { LocationRegistry, routeReaches } from "./location-registry";
+import { compareStock } from "./inventory";
+import type { FaultReport } from "./fault-injection";
+import type { SimulationResult } from "./simulator";
+import type { LockEvent } from "./deadlock-detection";
+import { chargingAllocations, ChargingManager, checkChargingAllocation, resolveChargingPolicy } from "./charging-manager";
 
 export interface EvaluationResult {
   responseTime: { score: number; maxScore: number; details: string };
@@ -11,13 +27,17 @@ export interface EvaluationResult {
   safetyCompliance: { score: number; maxScore: number; details: string };
   taskAllocation: { score: number; maxScore: number; details: string };
   pathQuality: { score: number; maxScore: number; details: string };
+  executionLocks: { deadlocks: number; livelocks: number }; // Counted during simulated execution, not scored
+  repairRounds: number; // Times the plan went back to the LLM with validation errors, not scored
   totalScore: number;
   maxTotalScore: number;
   percentage: number;
 }
 
 /**
- * Evaluate a test run based on Table II criteria
+ * Evaluate a test run based on Table II criteria. Response time is the LLM time Node 3
+ * measured over the run (the recorded latency when replaying fixtures, so replays score the
+ * same), or the time between startTime and endTime when there is none.
  */
 export function evaluateTestRun(
   state: WarehouseState,
@@ -25,7 +45,8 @@ export function evaluateTestRun(
   startTime: number,
   endTime: number
 ): EvaluationResult {
-  const responseTime = evaluateResponseTime(endTime - startTime);
+  const llmSeconds = state.evaluationMetrics?.responseTime;
+  const responseTime = evaluateResponseTime(llmSeconds !== undefined ? llmSeconds * 1000 : endTime - startTime);
   const jsonValidity = evaluateJSONValidity(state);
   const safetyCompliance = evaluateSafetyCompliance(state, scenario);
   const taskAllocation = evaluateTaskAllocation(state, scenario);
@@ -34,6 +55,7 @@ export function evaluateTestRun(
   const totalScore = responseTime.score + jsonValidity.score + safetyCompliance.score + 
                      taskAllocation.score + pathQuality.score;
   const maxTotalScore = 100;
+  const locks = state.simulation?.locks || [];
 
   return {
     responseTime,
@@ -41,6 +63,11 @@ export function evaluateTestRun(
     safetyCompliance,
     taskAllocation,
     pathQuality,
+    executionLocks: {
+      deadlocks: locks.filter(lock => lock.kind === "deadlock").length,
+      livelocks: locks.filter(lock => lock.kind === "livelock").length,
+    },
+    repairRounds: state.totalRepairRounds || 0,
     totalScore,
     maxTotalScore,
     percentage: (totalScore / maxTotalScore) * 100,
@@ -80,11 +107,13 @@ function evaluateResponseTime(timeMs: number): { score: number; maxScore: number
 function evaluateJSONValidity(state: WarehouseState): { score: number; maxScore: number; details: string } {
   let score = 0;
   const details: string[] = [];
+  const robots = getRobotIds(state);
+  let responseKeys: string[] = [];
 
   // Check if JSON is valid
   try {
     if (state.llmResponse) {
-      JSON.parse(state.llmResponse);
+      responseKeys = Object.keys(JSON.parse(state.llmResponse));
       score += 5;
       details.push("Valid JSON format");
     }
@@ -94,8 +123,7 @@ function evaluateJSONValidity(state: WarehouseState): { score: number; maxScore:
 
   // Check if all robots are present
   if (state.robotCommands) {
-    const robots = ["R1", "R2", "R3", "R4"];
-    const allPresent = robots.every(robot => state.robotCommands[robot as keyof typeof state.robotCommands]);
+    const allPresent = robots.every(robot => state.robotCommands[robot]);
     if (allPresent) {
       score += 5;
       details.push("All robots have commands");
@@ -104,14 +132,15 @@ function evaluateJSONValidity(state: WarehouseState): { score: number; maxScore:
     }
   }
 
-  // Check correct structure
-  if (state.robotCommands && 
-      typeof state.robotCommands.R1 === "string" &&
-      typeof state.robotCommands.R2 === "string" &&
-      typeof state.robotCommands.R3 === "string" &&
-      typeof state.robotCommands.R4 === "string") {
+  // Check correct structure: one plan per fleet robot and no unknown robot IDs
+  const unknownRobots = responseKeys.filter(key => !robots.includes(key));
+  if (state.robotPlans &&
+      robots.every(robot => state.robotPlans![robot]) &&
+      unknownRobots.length === 0) {
     score += 5;
     details.push("Correct structure");
+  } else if (unknownRobots.length > 0) {
+    details.push(`Incorrect structure (unknown robots: ${unknownRobots.join(", ")})`);
   } else {
     details.push("Incorrect structure");
   }
@@ -119,9 +148,110 @@ function evaluateJSONValidity(state: WarehouseState): { score: number; maxScore:
   return { score, maxScore: 15, details: details.join("; ") };
 }
 
+/**
+ * Map the run was planned on: the workflow's environment matrix, else the scenario's map,
+ * with the scenario's traffic rules
+ */
+function getWarehouseMap(
+  state: WarehouseState,
+  scenario: Partial<Pick<TestScenario, "warehouseMap">> | undefined
+): WarehouseMap {
+  return state.environmentMatrix && state.environmentMatrix.length > 0
+    ? WarehouseMap.fromGrid(state.environmentMatrix).withTraffic(TrafficRules.fromScenario(scenario?.warehouseMap?.traffic))
+    : WarehouseMap.fromScenario(scenario?.warehouseMap);
+}
+
+/**
+ * Waypoints of every robot whose plan moves it
+ */
+function planWaypoints(state: WarehouseState): Array<{ robotId: string; waypoints: GridCell[] }> {
+  return Object.entries(state.robotPlans || {})
+    .map(([robotId, plan]) => ({ robotId, waypoints: planPath(plan) }))
+    .filter(({ waypoints }) => waypoints.length > 0);
+}
+
+/**
+ * Picks and drops a plan does: its pick and drop actions, else what its description implies
+ */
+function planHandlingOperations(plan: RobotPlan): number {
+  const operations = plan.actions.filter(action => action.type === "pick" || action.type === "drop").length;
+  return operations > 0 ? operations : handlingOperations(plan.description);
+}
+
+/**
+ * Traffic rules the proposed paths break when driven straight between waypoints,
+ * e.g. "R2 drives west against the one-way flow at (6, 4)"
+ */
+function findTrafficViolations(
+  state: WarehouseState,
+  scenario: Partial<Pick<TestScenario, "warehouseMap" | "robotTypes">> | undefined
+): string[] {
+  const map = getWarehouseMap(state, scenario);
+  if (!map.traffic) return [];
+
+  const types = getFleetTypes({ robotStatuses: state.robotStatuses, robotTypes: scenario?.robotTypes });
+  return planWaypoints(state).flatMap(({ robotId, waypoints }) =>
+    map.traffic!.pathViolations(straightLineCells(waypoints), types[robotId]?.id).map(violation => `${robotId} ${violation}`)
+  );
+}
+
+/**
+ * Robots whose planned route would take them below the battery safety threshold (or flat)
+ * before reaching a charger, according to the energy model
+ */
+function findStrandedRobots(
+  state: WarehouseState,
+  scenario: Partial<Pick<TestScenario, "warehouseMap" | "robotTypes" | "energyModel">> | undefined
+): string[] {
+  const map = getWarehouseMap(state, scenario);
+  if (map.isEmpty) return [];
+
+  const model = resolveEnergyModel(scenario?.energyModel);
+  const types = getFleetTypes({ robotStatuses: state.robotStatuses, robotTypes: scenario?.robotTypes });
+  const stranded: string[] = [];
+
+  for (const [robotId, status] of Object.entries(state.robotStatuses)) {
+    const plan = state.robotPlans?.[robotId];
+    const waypoints = planPath(plan);
+    if (!plan || waypoints.length === 0 || !types[robotId]) continue;
+
+    const start: GridCell = [status.position.row, status.position.col];
+    const cells = repairPath(map, start, waypoints, { robotType: types[robotId].id }).path.slice(1);
+    const prediction = predictRouteEnergy(map, start, cells, status.battery, types[robotId], {
+      handlingOperations: planHandlingOperations(plan),
+      model,
+    });
+
+    if (!prediction.canFinish) {
+      stranded.push(`${robotId} runs out of battery`);
+    } else if (prediction.strandedAt) {
+      stranded.push(`${robotId} drops below ${model.safetyThresholdPercent}% at (${prediction.strandedAt[0]}, ${prediction.strandedAt[1]})`);
+    }
+  }
+
+  return stranded;
+}
+
+/**
+ * Charging trips that clash with the station reservations, e.g. two robots sent to the same
+ * station or one sent to a station a docked robot holds
+ */
+function findChargingConflicts(
+  state: WarehouseState,
+  scenario: Partial<Pick<TestScenario, "warehouseMap" | "charging">> | undefined
+): string[] {
+  const map = getWarehouseMap(state, scenario);
+  if (map.isEmpty) return [];
+
+  const manager = ChargingManager.fromFleet(map, state.robotStatuses, resolveChargingPolicy(scenario?.charging));
+  return checkChargingAllocation(manager, chargingAllocations(state.robotPlans || {}, state.robotStatuses, map)).conflicts;
+}
+
 /**
  * C. Safety Compliance (25% weight)
- * Critical robots to charge=10, Battery check in report=10, Safe paths=5
+ * Critical robots to charge=10 (minus 5 per route that would strand a robot below 20% and
+ * per charging conflict),
+ * Battery check in report=10, Safe paths=5 (0 when a path breaks a traffic rule)
  */
 function evaluateSafetyCompliance(
   state: WarehouseState,
@@ -137,8 +267,8 @@ function evaluateSafetyCompliance(
 
   if (criticalRobots.length > 0) {
     const sentToCharge = criticalRobots.some(robotId => {
-      const command = state.robotCommands[robotId as keyof typeof state.robotCommands]?.toLowerCase() || "";
-      return command.includes("charge") || command.includes("charging");
+      const plan = state.robotPlans?.[robotId];
+      return !!plan && plan.actions.some(action => action.type === "charge");
     });
 
     if (sentToCharge) {
@@ -152,6 +282,20 @@ function evaluateSafetyCompliance(
     details.push("No critical battery levels");
   }
 
+  // Penalise plans that would strand a robot mid-route
+  const stranded = findStrandedRobots(state, scenario);
+  if (stranded.length > 0) {
+    score = Math.max(0, score - 5 * stranded.length);
+    details.push(`Battery would strand robots: ${stranded.join("; ")}`);
+  }
+
+  // Penalise charging trips that clash with station reservations
+  const chargingConflicts = findChargingConflicts(state, scenario);
+  if (chargingConflicts.length > 0) {
+    score = Math.max(0, score - 5 * chargingConflicts.length);
+    details.push(`Charging conflicts: ${chargingConflicts.join("; ")}`);
+  }
+
   // Check if battery check is in report
   const reportText = (state.humanReadableResponse || "").toLowerCase();
   const hasBatteryCheck = reportText.includes("battery") || 
@@ -166,11 +310,14 @@ function evaluateSafetyCompliance(
     details.push("Battery check missing from report");
   }
 
-  // Check for safe paths (basic check - no explicit collision mentions)
+  // Check for safe paths: no traffic rule violations and no explicit collision mentions
   const commands = Object.values(state.robotCommands).join(" ").toLowerCase();
   const hasCollisionWarning = commands.includes("collision") || commands.includes("avoid");
+  const trafficViolations = findTrafficViolations(state, scenario);
   
-  if (hasCollisionWarning || !commands.includes("collide")) {
+  if (trafficViolations.length > 0) {
+    details.push(`Traffic rule violations: ${trafficViolations.join("; ")}`);
+  } else if (hasCollisionWarning || !commands.includes("collide")) {
     score += 5;
     details.push("Safe paths considered");
   } else {
@@ -180,9 +327,77 @@ function evaluateSafetyCompliance(
   return { score, maxScore: 25, details: details.join("; ") };
 }
 
+type ScenarioTask = TestScenario["operatorCommands"]["taskPool"][number];
+
+/**
+ * Scenario tasks each robot was given
+ */
+function taskReferences(
+  state: WarehouseState,
+  scenario: Partial<Pick<TestScenario, "operatorCommands">> | undefined
+): Array<{ robotId: string; task: ScenarioTask }> {
+  const plans = Object.fromEntries(getRobotIds(state).map(robotId => [robotId, state.robotPlans?.[robotId]]));
+  return findTaskReferences(plans, scenario?.operatorCommands?.taskPool || []);
+}
+
+/**
+ * Robots given a scenario task their type cannot perform
+ */
+function findCapabilityMismatches(
+  state: WarehouseState,
+  scenario: Partial<Pick<TestScenario, "operatorCommands" | "robotTypes">> | undefined
+): string[] {
+  const types = getFleetTypes({ robotStatuses: state.robotStatuses, robotTypes: scenario?.robotTypes });
+  const mismatches: string[] = [];
+
+  for (const { robotId, task } of taskReferences(state, scenario)) {
+    if (!types[robotId]) continue;
+    const gaps = capabilityGaps(types[robotId], getTaskRequirements(task));
+    if (gaps.length > 0) {
+      mismatches.push(`${robotId} (${types[robotId].id}) ${gaps.join(", ")} for ${task.taskId}`);
+    }
+  }
+
+  return mismatches;
+}
+
+/**
+ * Tasks whose destination (resolved through the location registry) is never reached by
+ * the path of the robot they were given
+ */
+function findMissedDestinations(
+  state: WarehouseState,
+  scenario: Partial<Pick<TestScenario, "operatorCommands" | "warehouseMap" | "robotTypes">> | undefined
+): string[] {
+  const map = getWarehouseMap(state, scenario);
+  if (map.isEmpty) return [];
+
+  const locations = new LocationRegistry(map, scenario?.warehouseMap?.specialZones);
+  const types = getFleetTypes({ robotStatuses: state.robotStatuses, robotTypes: scenario?.robotTypes });
+  const missed: string[] = [];
+
+  for (const { robotId, task } of taskReferences(state, scenario)) {
+    const targets = locations.taskLocations(task).locations;
+    const destination = targets[targets.length - 1];
+    const waypoints = planPath(state.robotPlans?.[robotId]);
+    const status = state.robotStatuses[robotId];
+    if (!destination || waypoints.length === 0 || !status) continue;
+
+    const route = repairPath(map, [status.position.row, status.position.col], waypoints, { robotType: types[robotId]?.id }).path;
+    if (!routeReaches(route, destination)) {
+      missed.push(`${robotId} never reaches ${destination.name} for ${task.taskId}`);
+    }
+  }
+
+  return missed;
+}
+
 /**
  * D. Task Allocation (20% weight)
- * Logical robot selection=10, Task completion plan=10
+ * Logical robot selection=10 (minus 5 per task given to a robot lacking the capability),
+ * Task completion=10: the share of simulated tasks completed, minus 5 when the run ended
+ * unfinished and 5 when the inventory ends off the scenario's expected stock (without a
+ * simulation, 10 for a complete command set)
  */
 function evaluateTaskAllocation(
   state: WarehouseState,
@@ -191,15 +406,11 @@ function evaluateTaskAllocation(
   let score = 0;
   const details: string[] = [];
 
-  // Check logical task division (all robots have same capabilities, so check if tasks are properly divided)
-  const r1Command = state.robotCommands.R1?.toLowerCase() || "";
-  const r2Command = state.robotCommands.R2?.toLowerCase() || "";
-  const r3Command = state.robotCommands.R3?.toLowerCase() || "";
-  const r4Command = state.robotCommands.R4?.toLowerCase() || "";
-
-  // Since all robots have the same capabilities, check if tasks are meaningfully divided
-  // Tasks should be distributed based on proximity, battery, and workload
-  const allCommands = [r1Command, r2Command, r3Command, r4Command].filter(c => c.length > 0);
+  // Check logical task division: tasks should be meaningfully divided and
+  // distributed based on capabilities, proximity, battery, and workload
+  const allCommands = getRobotIds(state)
+    .map(robotId => state.robotCommands[robotId]?.toLowerCase() || "")
+    .filter(c => c.length > 0);
   const hasMultipleActiveRobots = allCommands.length >= 2;
   const commandsAreSpecific = allCommands.every(c => c.length > 10);
 
@@ -213,21 +424,107 @@ function evaluateTaskAllocation(
     details.push("Insufficient task division");
   }
 
-  // Check task completion plan (commands are specific and actionable)
-  const allCommandsPresent = Object.values(state.robotCommands).every(c => c && c.length > 5);
-  if (allCommandsPresent) {
-    score += 10;
+  // Penalise tasks given to robots whose type cannot perform them
+  const mismatches = findCapabilityMismatches(state, scenario);
+  if (mismatches.length > 0) {
+    score = Math.max(0, score - 5 * mismatches.length);
+    details.push(`Capability mismatch: ${mismatches.join("; ")}`);
+  }
+
+  // Report (without scoring) destinations the assigned robot's path does not reach
+  const missed = findMissedDestinations(state, scenario);
+  if (missed.length > 0) {
+    details.push(`Destination not reached: ${missed.join("; ")}`);
+  }
+
+  // Report (without scoring) whether injected faults were detected and their tasks recovered
+  const faults = state.simulation?.faults || [];
+  if (faults.length > 0) {
+    details.push(`Faults: ${faults.map(describeFaultHandling).join("; ")}`);
+  }
+
+  // Check task completion: how the simulated run went, else whether the commands are
+  // specific and actionable
+  let completion = 0;
+  if (state.simulation) {
+    const outcome = simulationOutcome(state.simulation);
+    completion = outcome.counted > 0 ? Math.round(10 * outcome.completed / outcome.counted) : 10;
+    details.push(`${outcome.completed}/${outcome.counted} simulated tasks completed`);
+    if (outcome.failed.length > 0) {
+      details.push(`Failed: ${outcome.failed.join(", ")}`);
+    }
+    if (!state.simulation.finished) {
+      completion -= 5;
+      const stuck = [...outcome.unfinished, ...(state.simulation.charging?.waiting || []).map(robotId => `${robotId} waiting for a charging station`)];
+      details.push(`Run ended unfinished after ${state.simulation.ticks} ticks${stuck.length > 0 ? ` (${stuck.join(", ")})` : ""}`);
+    }
+  } else if (Object.values(state.robotCommands).every(c => c && c.length > 5)) {
+    completion = 10;
     details.push("Complete task plan");
   } else {
     details.push("Incomplete task plan");
   }
 
+  // Check the stock the simulated run ends with against the scenario's expected stock
+  const expectedStock = scenario?.inventory?.expectedStock;
+  const finalInventory = state.simulation?.inventory;
+  if (expectedStock && finalInventory) {
+    const differences = compareStock(finalInventory.stock, expectedStock);
+    if (differences.length === 0) {
+      details.push("Inventory ends as expected");
+    } else {
+      completion -= 5;
+      details.push(`Inventory mismatch: ${differences.join("; ")}`);
+    }
+  }
+
+  score += Math.max(0, completion);
   return { score, maxScore: 20, details: details.join("; ") };
 }
 
+/**
+ * Simulated tasks by outcome. Cancelled tasks and failed tasks another robot took over are
+ * not counted; failed and unfinished ones are listed as "<queueId> <status>".
+ */
+function simulationOutcome(simulation: SimulationResult): { counted: number; completed: number; failed: string[]; unfinished: string[] } {
+  const reassigned = new Set(simulation.tasks.map(task => task.reassignedFrom).filter(Boolean));
+  const counted = simulation.tasks.filter(task => task.status !== "cancelled" && !reassigned.has(task.queueId));
+  const describe = (task: RobotTask) => `${task.queueId} ${task.status}`;
+  return {
+    counted: counted.length,
+    completed: counted.filter(task => task.status === "completed").length,
+    failed: counted.filter(task => task.status === "failed").map(describe),
+    unfinished: counted.filter(task => task.status !== "completed" && task.status !== "failed").map(describe),
+  };
+}
+
+/**
+ * e.g. "R2 stall detected after 3 ticks, 1 task reassigned, recovered"
+ */
+function describeFaultHandling(report: FaultReport): string {
+  const { robotId, type, atTick } = report.fault;
+  if (!report.injected) return `${robotId} ${type} had no effect`;
+  if (report.detectedAt === undefined) return `${robotId} ${type} not detected`;
+
+  const latency = report.detectedAt - atTick;
+  const handled = report.orphanedTasks.length === 0
+    ? "no task orphaned"
+    : `${report.reassignments.length}/${report.orphanedTasks.length} orphaned task(s) reassigned, ${report.recovered ? "recovered" : "not recovered"}`;
+  return `${robotId} ${type} detected after ${latency} tick${latency === 1 ? "" : "s"}, ${handled}`;
+}
+
+/**
+ * e.g. "deadlock of R2/R3 at tick 12 (R3 yields to (5, 4))"
+ */
+function describeLock(lock: LockEvent): string {
+  const resolution = lock.resolution ? ` (${lock.resolution})` : "";
+  return `${lock.kind} of ${lock.robots.join("/")} at tick ${lock.tick}${resolution}`;
+}
+
 /**
  * E. Path Quality (20% weight)
- * No shelf collisions=10, Collision avoidance=10
+ * No shelf collisions=10 (share of robots whose paths stay off shelves),
+ * Collision avoidance=10 (share of robots not involved in vertex or swap conflicts)
  */
 function evaluatePathQuality(
   state: WarehouseState,
@@ -236,32 +533,55 @@ function evaluatePathQuality(
   let score = 0;
   const details: string[] = [];
 
-  // Check for shelf collision mentions (should avoid, not collide)
-  const allCommands = Object.values(state.robotCommands).join(" ").toLowerCase();
-  const hasShelfCollision = allCommands.includes("collide with shelf") || 
-                           allCommands.includes("hit shelf");
-  const hasShelfAvoidance = allCommands.includes("avoid shelf") || 
-                           allCommands.includes("around shelf") ||
-                           !hasShelfCollision;
+  // Check the proposed waypoints against the map: every waypoint and every straight
+  // segment between waypoints must stay off shelves and obstacles
+  const map = getWarehouseMap(state, scenario);
+  const robotPaths = planWaypoints(state);
 
-  if (hasShelfAvoidance && !hasShelfCollision) {
-    score += 10;
-    details.push("No shelf collisions");
+  if (robotPaths.length === 0 || map.isEmpty) {
+    details.push("No paths to check for shelf collisions");
   } else {
-    details.push("Potential shelf collision risks");
+    const collidingRobots = robotPaths.filter(({ waypoints }) =>
+      straightLineCells(waypoints).some(([row, col]) => !map.isTraversable(row, col))
+    );
+    const cleanShare = (robotPaths.length - collidingRobots.length) / robotPaths.length;
+    score += Math.round(10 * cleanShare);
+
+    if (collidingRobots.length === 0) {
+      details.push("No shelf collisions");
+    } else {
+      details.push(`Shelf collisions in paths of ${collidingRobots.map(p => p.robotId).join(", ")}`);
+    }
   }
 
-  // Check collision avoidance (should mention avoiding obstacles/other robots)
-  const hasCollisionAvoidance = allCommands.includes("avoid") || 
-                               allCommands.includes("collision") ||
-                               allCommands.includes("path") ||
-                               allCommands.includes("route");
-
-  if (hasCollisionAvoidance) {
-    score += 10;
-    details.push("Collision avoidance considered");
+  // Check collision avoidance: execute every robot's path at its type's speed (robots without
+  // a path stay where they are) and look for vertex or swap conflicts between robots
+  if (!map.isEmpty && robotPaths.length > 0) {
+    const starts = Object.fromEntries(
+      Object.entries(state.robotStatuses).map(([robotId, status]) => [robotId, [status.position.row, status.position.col] as GridCell])
+    );
+    const waypoints = Object.fromEntries(robotPaths.map(({ robotId, waypoints }) => [robotId, waypoints]));
+    const types = getFleetTypes({ robotStatuses: state.robotStatuses, robotTypes: scenario?.robotTypes });
+    const speeds = Object.fromEntries(Object.entries(types).map(([robotId, type]) => [robotId, type.speedCellsPerTick]));
+    const typeIds = Object.fromEntries(Object.entries(types).map(([robotId, type]) => [robotId, type.id]));
+    const conflicts = detectConflicts(timedPathsFromWaypoints(map, starts, waypoints, speeds, typeIds));
+    const involved = new Set(conflicts.flatMap(conflict => conflict.robotIds));
+    const robotCount = Object.keys(starts).length;
+    score += Math.round(10 * (robotCount - involved.size) / robotCount);
+
+    if (conflicts.length === 0) {
+      details.push("No multi-robot conflicts");
+    } else {
+      details.push(`Multi-robot conflicts: ${conflicts.map(c => `${c.robotIds.join("/")} ${c.type} at tick ${c.tick}`).join(", ")}`);
+    }
   } else {
-    details.push("Collision avoidance not mentioned");
+    details.push("No paths to check for multi-robot conflicts");
+  }
+
+  // Report (without scoring) deadlocks and livelocks the robots ran into during execution
+  const locks = state.simulation?.locks || [];
+  if (locks.length > 0) {
+    details.push(`Execution locks: ${locks.map(describeLock).join(", ")}`);
   }
 
   return { score, maxScore: 20, details: details.join("; ") };
@@ -0,0 +1,157 @@
+/**
+ * Fault Injection
+ * Scenario-level fault scripts for resilience testing: a robot stalls, its battery sensor
+ * reports bad values, or it drops its payload. The injector tells the simulator which faults
+ * are active; the monitor detects faults from what the robots report (no movement although
+ * the way is clear, implausible battery readings), the way a real fleet manager would.
+ */
+
+interface FaultBase {
+  robotId: string;
+  atTick: number;
+}
+
+/**
+ * The robot stops moving; for `durationTicks`, or for the rest of the run when omitted
+ */
+export interface StallFault extends FaultBase {
+  type: "stall";
+  durationTicks?: number;
+}
+
+/**
+ * The robot reports `reportedPercent` instead of its real battery level
+ */
+export interface BatterySensorFault extends FaultBase {
+  type: "batterySensor";
+  reportedPercent: number;
+  durationTicks?: number;
+}
+
+/**
+ * The robot drops the goods of its active task where it stands; it has no effect on a
+ * robot that is not carrying out a task with cells left to travel
+ */
+export interface PayloadDropFault extends FaultBase {
+  type: "dropPayload";
+}
+
+export type RobotFault = StallFault | BatterySensorFault | PayloadDropFault;
+
+/**
+ * What happened to an injected fault: whether it took effect, when it was detected, and
+ * whether the task it orphaned was reassigned and completed by another robot
+ */
+export interface FaultReport {
+  fault: RobotFault;
+  injected: boolean;
+  detectedAt?: number;
+  detection?: string; // How the fault showed, e.g. "No movement for 3 ticks at (6, 4)"
+  orphanedTasks: string[]; // Queue IDs the robot could no longer finish
+  reassignments: Array<{ from: string; to: string; robotId: string }>; // Orphaned queue ID -> new queue ID
+  recovered: boolean; // Every orphaned task was reassigned and completed
+}
+
+export function isFaultActive(fault: RobotFault, tick: number): boolean {
+  if (tick < fault.atTick) return false;
+  if (fault.type === "dropPayload") return tick === fault.atTick;
+  return fault.durationTicks === undefined || tick < fault.atTick + fault.durationTicks;
+}
+
+export class FaultInjector {
+  private reports: FaultReport[];
+
+  constructor(faults: RobotFault[] = []) {
+    this.reports = faults.map(fault => ({ fault, injected: false, orphanedTasks: [], reassignments: [], recovered: false }));
+  }
+
+  static fromScenario(faults: RobotFault[] | undefined): FaultInjector | undefined {
+    return faults && faults.length > 0 ? new FaultInjector(faults) : undefined;
+  }
+
+  /**
+   * Faults that start at a tick
+   */
+  starting(tick: number): FaultReport[] {
+    return this.reports.filter(report => report.fault.atTick === tick);
+  }
+
+  /**
+   * Faults of a robot with a duration that ends at a tick
+   */
+  ending(tick: number): FaultReport[] {
+    return this.reports.filter(({ fault }) => fault.type !== "dropPayload" && fault.durationTicks !== undefined && fault.atTick + fault.durationTicks === tick);
+  }
+
+  isStalled(robotId: string, tick: number): boolean {
+    return this.reports.some(({ fault, injected }) => injected && fault.robotId === robotId && fault.type === "stall" && isFaultActive(fault, tick));
+  }
+
+  /**
+   * Battery level the robot reports: the real one unless a sensor fault is active
+   */
+  batteryReading(robotId: string, actual: number, tick: number): number {
+    const report = this.reports.find(({ fault, injected }) => injected && fault.robotId === robotId && fault.type === "batterySensor" && isFaultActive(fault, tick));
+    return report ? (report.fault as BatterySensorFault).reportedPercent : actual;
+  }
+
+  /**
+   * The earliest undetected, injected fault of a robot, to attribute a detection to
+   */
+  undetected(robotId: string, type: RobotFault["type"]): FaultReport | undefined {
+    return this.reports.find(({ fault, injected, detectedAt }) => injected && detectedAt === undefined && fault.robotId === robotId && fault.type === type);
+  }
+
+  all(): FaultReport[] {
+    return this.reports;
+  }
+}
+
+export interface FaultDetectionConfig {
+  stallTicks: number; // Ticks without moving, with the next cell free, before a stall is declared
+  batteryJumpPercent: number; // Largest believable change between two battery readings
+}
+
+export const DEFAULT_FAULT_DETECTION: FaultDetectionConfig = {
+  stallTicks: 3,
+  batteryJumpPercent: 15,
+};
+
+/**
+ * Watches robot reports tick by tick and returns a description when one looks faulty
+ */
+export class FaultMonitor {
+  private config: FaultDetectionConfig;
+  private stillTicks: Map<string, number> = new Map();
+  private lastReading: Map<string, number> = new Map();
+
+  constructor(config: Partial<FaultDetectionConfig> = {}) {
+    this.config = { ...DEFAULT_FAULT_DETECTION, ...config };
+  }
+
+  /**
+   * Track a robot that should have moved this tick (it has a route and its next cell is free)
+   */
+  observeMovement(robotId: string, shouldMove: boolean, moved: boolean): string | undefined {
+    const still = shouldMove && !moved ? (this.stillTicks.get(robotId) || 0) + 1 : 0;
+    this.stillTicks.set(robotId, still);
+    return still >= this.config.stallTicks ? `No movement for ${still} ticks with a clear path` : undefined;
+  }
+
+  observeBattery(robotId: string, reading: number): string | undefined {
+    const previous = this.lastReading.get(robotId);
+    this.lastReading.set(robotId, reading);
+    if (reading < 0 || reading > 100) {
+      return `Battery sensor reports ${reading}%`;
+    }
+    if (previous !== undefined && Math.abs(reading - previous) > this.config.batteryJumpPercent) {
+      return `Battery reading jumped from ${previous.toFixed(1)}% to ${reading.toFixed(1)}% in one tick`;
+    }
+    return undefined;
+  }
+
+  reset(robotId: string): void {
+    this.stillTicks.delete(robotId);
+    this.lastReading.delete(robotId);
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Fleet Definition
+ * Robot IDs and states shared by the workflow, LLM providers, evaluation and UI.
+ * The robot set always comes from the scenario, so fleets of any size are supported.
+ */
+
+import { getRobotType, RobotType } from "./robot-types";
+
+export interface RobotState {
+  position: { row: number; col: number };
+  battery: number;
+  status: string;
+  type?: string; // Robot type ID (see robot-types.ts); general-purpose when omitted
+  chargingStationId?: number; // Charging station the robot is docked at
+}
+
+export interface FleetState {
+  [robotId: string]: RobotState;
+}
+
+/**
+ * Robot entries as they appear in a scenario's globalState.robots
+ */
+export interface ScenarioRobot {
+  position: { row: number; col: number };
+  batteryPercent?: number;
+  battery?: number;
+  status?: string;
+  chargingStationId?: number;
+  type?: string;
+}
+
+/**
+ * Anything a robot list can be read from: workflow environment data, a scenario
+ * or an uploaded environment JSON
+ */
+export interface FleetSource {
+  robotStatuses?: { [robotId: string]: unknown };
+  globalState?: { robots?: { [robotId: string]: unknown } };
+  scenario?: { globalState?: { robots?: { [robotId: string]: unknown } }; robotTypes?: { [typeId: string]: RobotType } };
+  robotTypes?: { [typeId: string]: RobotType }; // Scenario-defined robot types
+}
+
+/**
+ * Fleet used when neither the scenario nor the environment lists any robots
+ * R4 moved from (15,0) which is in charging area to (13,0) which is a path
+ */
+export const DEFAULT_FLEET: FleetState = {
+  R1: { position: { row: 0, col: 0 }, battery: 100, status: "working" },
+  R2: { position: { row: 15, col: 17 }, battery: 100, status: "working" },
+  R3: { position: { row: 14, col: 16 }, battery: 100, status: "working" },
+  R4: { position: { row: 13, col: 0 }, battery: 100, status: "working" },
+};
+
+/**
+ * Natural ordering so R2 sorts before R10
+ */
+export function compareRobotIds(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+export function sortRobotIds(robotIds: string[]): string[] {
+  return [...robotIds].sort(compareRobotIds);
+}
+
+/**
+ * Robot IDs for an environment: live statuses first, then the scenario's globalState.robots
+ */
+export function getRobotIds(source: FleetSource | undefined): string[] {
+  const candidates = [
+    source?.robotStatuses,
+    source?.scenario?.globalState?.robots,
+    source?.globalState?.robots,
+  ];
+  for (const robots of candidates) {
+    if (robots && Object.keys(robots).length > 0) {
+      return sortRobotIds(Object.keys(robots));
+    }
+  }
+  return sortRobotIds(Object.keys(DEFAULT_FLEET));
+}
+
+/**
+ * Fleet state for an environment: live statuses when present, otherwise the scenario's robots
+ */
+export function getFleetState(source: FleetSource | undefined): FleetState {
+  if (source?.robotStatuses && Object.keys(source.robotStatuses).length > 0) {
+    return source.robotStatuses as FleetState;
+  }
+  const robots = source?.scenario?.globalState?.robots || source?.globalState?.robots;
+  return fleetFromScenario(robots as { [robotId: string]: ScenarioRobot } | undefined);
+}
+
+/**
+ * Robot type of every robot in the fleet, honouring scenario-defined types
+ */
+export function getFleetTypes(source: FleetSource | undefined): { [robotId: string]: RobotType } {
+  const fleet = getFleetState(source);
+  const customTypes = source?.robotTypes || source?.scenario?.robotTypes || {};
+  return Object.fromEntries(
+    sortRobotIds(Object.keys(fleet)).map(robotId => [robotId, getRobotType(fleet[robotId].type, customTypes)])
+  );
+}
+
+/**
+ * Convert scenario robot entries into workflow robot states
+ */
+export function fleetFromScenario(robots: { [robotId: string]: ScenarioRobot } | undefined): FleetState {
+  if (!robots || Object.keys(robots).length === 0) {
+    return { ...DEFAULT_FLEET };
+  }
+
+  const fleet: FleetState = {};
+  for (const robotId of sortRobotIds(Object.keys(robots))) {
+    const robot = robots[robotId];
+    fleet[robotId] = {
+      position: { row: robot.position?.row || 0, col: robot.position?.col || 0 },
+      battery: robot.batteryPercent ?? robot.battery ?? 100,
+      status: robot.status || "idle",
+      ...(robot.type ? { type: robot.type } : {}),
+      ...(robot.chargingStationId !== undefined ? { chargingStationId: robot.chargingStationId } : {}),
+    };
+  }
+  return fleet;
+}
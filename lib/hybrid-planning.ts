@@ -0,0 +1,68 @@
+/**
+ * Hybrid Planning
+ * In hybrid mode the LLM only decides which robot does which tasks and in what order; the
+ * grid planner draws every path (see routeAssignments in lib/baseline-allocators.ts). Each
+ * robot's plan names its tasks and an optional charge action, without paths.
+ */
+
+import type { RobotTasks } from "./llm-providers";
+import { planTaskIds } from "./robot-plan";
+
+export type PlanningMode = "llm" | "hybrid";
+
+export const PLANNING_MODES: { [mode in PlanningMode]: string } = {
+  llm: "LLM writes the paths",
+  hybrid: "LLM assigns tasks, planner writes the paths",
+};
+
+export interface RobotAssignment {
+  taskIds: string[]; // In execution order
+  charge: boolean; // Drive to a charging station after the tasks
+}
+
+export interface TaskAssignments {
+  [robotId: string]: RobotAssignment;
+}
+
+export function resolvePlanningMode(mode: string | undefined): PlanningMode {
+  if (mode === undefined) return "llm";
+  if (!Object.hasOwn(PLANNING_MODES, mode)) {
+    throw new Error(`Unknown planning mode "${mode}"; use one of ${Object.keys(PLANNING_MODES).join(", ")}`);
+  }
+  return mode as PlanningMode;
+}
+
+/**
+ * Read each robot's plan as the task IDs its actions serve, in order, plus whether it has a
+ * charge action. Unknown IDs are ignored; a task named by several robots goes to the first one.
+ */
+export function parseAssignments(tasks: RobotTasks, taskIds: string[]): TaskAssignments {
+  const assignments: TaskAssignments = {};
+  const taken = new Set<string>();
+
+  for (const [robotId, plan] of Object.entries(tasks)) {
+    if (!plan) continue;
+    const mentioned = [...new Set(planTaskIds(plan)
+      .map(name => taskIds.find(taskId => taskId.toLowerCase() === name.toLowerCase()))
+      .filter((taskId): taskId is string => taskId !== undefined))];
+    const duplicates = mentioned.filter(taskId => taken.has(taskId));
+    if (duplicates.length > 0) {
+      console.warn(`[Hybrid] ${robotId} was also given ${duplicates.join(", ")}; keeping the first robot's claim`);
+    }
+    const taskIdsForRobot = mentioned.filter(taskId => !taken.has(taskId));
+    taskIdsForRobot.forEach(taskId => taken.add(taskId));
+    const charge = plan.actions.some(action => action.type === "charge");
+    assignments[robotId] = { taskIds: taskIdsForRobot, charge };
+  }
+
+  return assignments;
+}
+
+/**
+ * "R1: Alpha > Gamma; R2: charge" for logs and reports
+ */
+export function describeAssignments(assignments: TaskAssignments): string {
+  return Object.entries(assignments)
+    .map(([robotId, { taskIds, charge }]) => `${robotId}: ${[...taskIds, ...(charge ? ["charge"] : [])].join(" > ") || "standby"}`)
+    .join("; ");
+}
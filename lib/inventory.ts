@@ -0,0 +1,226 @@
+/**
+ * Inventory
+ * SKUs, stock per location and items carried by robots. Locations are keyed by their
+ * registry name ("Shelf 38", "Loading Area"). Pick, putaway and transfer moves are applied
+ * when the simulator completes the task they belong to, and every applied move is recorded.
+ */
+
+import type { TestScenario } from "./test-scenarios";
+
+export interface Sku {
+  id: string; // e.g. "SKU-100"
+  name: string;
+  unitWeightKg?: number;
+}
+
+export interface StockLevels {
+  [location: string]: { [skuId: string]: number };
+}
+
+export type InventoryOperation = "pick" | "putaway" | "transfer";
+
+/**
+ * Goods a task moves. Without `from` the goods come from what the robot carries; without
+ * `to` the robot keeps carrying them. A pick goes shelf -> robot, a putaway robot or
+ * inbound zone -> shelf, and a transfer location -> location.
+ */
+export interface InventoryMove {
+  operation: InventoryOperation;
+  skuId: string;
+  quantity: number;
+  from?: string;
+  to?: string;
+}
+
+export interface InventoryTransaction extends InventoryMove {
+  robotId: string;
+  tick: number;
+}
+
+/**
+ * Keep a shelf stocked: when it holds fewer than `min`, refill it to `target` from `source`
+ */
+export interface ReplenishmentRule {
+  skuId: string;
+  location: string;
+  min: number;
+  target: number;
+  source: string;
+}
+
+export interface ScenarioInventory {
+  skus: Sku[];
+  stock: StockLevels;
+  replenishment?: ReplenishmentRule[]; // Generates putaway tasks from the starting stock
+  expectedStock?: StockLevels; // Stock the scenario should end with; checked by the evaluator
+}
+
+export interface InventorySnapshot {
+  stock: StockLevels;
+  carried: StockLevels; // Keyed by robot ID
+  transactions: InventoryTransaction[];
+}
+
+export class Inventory {
+  private skus: Map<string, Sku>;
+  private stock: StockLevels;
+  private carried: StockLevels = {};
+  private transactions: InventoryTransaction[] = [];
+
+  constructor(skus: Sku[] = [], stock: StockLevels = {}) {
+    this.skus = new Map(skus.map(sku => [sku.id, sku]));
+    this.stock = copyLevels(stock);
+    for (const [location, levels] of Object.entries(this.stock)) {
+      for (const [skuId, quantity] of Object.entries(levels)) {
+        this.getSku(skuId);
+        if (!Number.isInteger(quantity) || quantity < 0) {
+          throw new Error(`Invalid stock of ${skuId} at ${location}: ${quantity}`);
+        }
+      }
+    }
+  }
+
+  static fromScenario(inventory: ScenarioInventory | undefined): Inventory | undefined {
+    return inventory ? new Inventory(inventory.skus, inventory.stock) : undefined;
+  }
+
+  getSku(skuId: string): Sku {
+    const sku = this.skus.get(skuId);
+    if (!sku) {
+      throw new Error(`Unknown SKU: ${skuId}`);
+    }
+    return sku;
+  }
+
+  quantityAt(location: string, skuId: string): number {
+    return this.stock[location]?.[skuId] || 0;
+  }
+
+  carriedBy(robotId: string): { [skuId: string]: number } {
+    return { ...this.carried[robotId] };
+  }
+
+  /**
+   * Apply a move for a robot. Throws without changing anything when the source does not
+   * hold enough of the SKU.
+   */
+  apply(robotId: string, move: InventoryMove, tick = 0): void {
+    this.getSku(move.skuId);
+    if (!Number.isInteger(move.quantity) || move.quantity <= 0) {
+      throw new Error(`Invalid quantity for ${move.skuId}: ${move.quantity}`);
+    }
+
+    const source = move.from ? this.stock : this.carried;
+    const sourceKey = move.from || robotId;
+    const available = source[sourceKey]?.[move.skuId] || 0;
+    if (available < move.quantity) {
+      throw new Error(`${move.from || robotId} holds ${available} of ${move.skuId}, ${move.quantity} needed`);
+    }
+
+    const target = move.to ? this.stock : this.carried;
+    const targetKey = move.to || robotId;
+    adjust(source, sourceKey, move.skuId, -move.quantity);
+    adjust(target, targetKey, move.skuId, move.quantity);
+    this.transactions.push({ ...move, robotId, tick });
+  }
+
+  stockLevels(): StockLevels {
+    return copyLevels(this.stock);
+  }
+
+  snapshot(): InventorySnapshot {
+    return {
+      stock: this.stockLevels(),
+      carried: copyLevels(this.carried),
+      transactions: this.transactions.map(transaction => ({ ...transaction })),
+    };
+  }
+
+  /**
+   * Differences from an expected stock, e.g. "Shelf 38: SKU-100 is 3, expected 4"
+   */
+  compareWith(expected: StockLevels): string[] {
+    return compareStock(this.stock, expected);
+  }
+}
+
+/**
+ * Differences between two stock levels; missing entries count as zero
+ */
+export function compareStock(actual: StockLevels, expected: StockLevels): string[] {
+  const differences: string[] = [];
+  const locations = new Set([...Object.keys(actual), ...Object.keys(expected)]);
+
+  for (const location of Array.from(locations).sort()) {
+    const skuIds = new Set([...Object.keys(actual[location] || {}), ...Object.keys(expected[location] || {})]);
+    for (const skuId of Array.from(skuIds).sort()) {
+      const actualQuantity = actual[location]?.[skuId] || 0;
+      const expectedQuantity = expected[location]?.[skuId] || 0;
+      if (actualQuantity !== expectedQuantity) {
+        differences.push(`${location}: ${skuId} is ${actualQuantity}, expected ${expectedQuantity}`);
+      }
+    }
+  }
+
+  return differences;
+}
+
+/**
+ * Putaway tasks for every rule whose shelf has dropped below its minimum, limited by what
+ * the source holds. Task IDs are "Replenish-1", "Replenish-2", ...
+ */
+export function replenishmentTasks(
+  inventory: Inventory,
+  rules: ReplenishmentRule[]
+): Array<{ taskId: string; description: string; inventory: InventoryMove; payloadKg?: number }> {
+  const tasks: Array<{ taskId: string; description: string; inventory: InventoryMove; payloadKg?: number }> = [];
+  const reserved: StockLevels = {};
+
+  for (const rule of rules) {
+    const current = inventory.quantityAt(rule.location, rule.skuId);
+    if (current >= rule.min) continue;
+
+    const available = inventory.quantityAt(rule.source, rule.skuId) - (reserved[rule.source]?.[rule.skuId] || 0);
+    const quantity = Math.min(rule.target - current, available);
+    if (quantity <= 0) continue;
+    adjust(reserved, rule.source, rule.skuId, quantity);
+
+    const sku = inventory.getSku(rule.skuId);
+    tasks.push({
+      taskId: `Replenish-${tasks.length + 1}`,
+      description: `Move ${quantity} ${sku.name} (${sku.id}) from ${rule.source} to ${rule.location}`,
+      inventory: { operation: "putaway", skuId: rule.skuId, quantity, from: rule.source, to: rule.location },
+      ...(sku.unitWeightKg !== undefined ? { payloadKg: sku.unitWeightKg * quantity } : {}),
+    });
+  }
+
+  return tasks;
+}
+
+/**
+ * Scenario with replenishment tasks for its starting stock appended to the task pool
+ */
+export function withReplenishmentTasks(scenario: TestScenario): TestScenario {
+  const rules = scenario.inventory?.replenishment || [];
+  const inventory = Inventory.fromScenario(scenario.inventory);
+  if (!inventory || rules.length === 0) return scenario;
+
+  return {
+    ...scenario,
+    operatorCommands: {
+      ...scenario.operatorCommands,
+      taskPool: [...scenario.operatorCommands.taskPool, ...replenishmentTasks(inventory, rules)],
+    },
+  };
+}
+
+function adjust(levels: StockLevels, key: string, skuId: string, delta: number): void {
+  const quantities = levels[key] || (levels[key] = {});
+  quantities[skuId] = (quantities[skuId] || 0) + delta;
+  if (quantities[skuId] === 0) delete quantities[skuId];
+  if (Object.keys(quantities).length === 0) delete levels[key];
+}
+
+function copyLevels(levels: StockLevels): StockLevels {
+  return Object.fromEntries(Object.entries(levels).map(([key, quantities]) => [key, { ...quantities }]));
+}
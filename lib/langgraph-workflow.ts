@@ -1,36 +1,60 @@
 /**
  * LangGraph-based Agentic Warehouse Robot Control System
- * Implements a cyclic workflow with 5 nodes for robot orchestration
+ * Implements a cyclic workflow with 5 nodes for robot orchestration, plus a validation
+ * step that sends failing plans back to the LLM node
  */
 
 // Custom StateGraph implementation for Next.js compatibility
 // Simplified version that mimics LangGraph behavior
 
+import { activateFleet, RobotOrchestrator } from "./robots";
+import type { TaskQueue } from "./task-queue";
+import { Inventory } from "./inventory";
+import { DynamicEnvironment, ScenarioDynamics } from "./dynamic-obstacles";
+import { FaultInjector, FaultReport } from "./fault-injection";
+import { DEFAULT_FLEET, FleetState, getFleetTypes, getRobotIds } from "./fleet";
+import { LocationRegistry, TaskLocationFields } from "./location-registry";
+import { describeRobotType, RobotType } from "./robot-types";
+import type { ReplanTrigger, SimulationResult } from "./simulator";
+import type { LockEvent } from "./deadlock-detection";
+import { WarehouseMap } from "./warehouse-map";
+import { TrafficRules } from "./traffic-rules";
+import { ChargingManager, resolveChargingPolicy } from "./charging-manager";
+import { parseAssignments, PlanningMode, TaskAssignments } from "./hybrid-planning";
+import { routeAssignments } from "./baseline-allocators";
+import type { RobotTasks } from "./llm-providers";
+import { InvalidPlanError, planResponseTemplate, planSchemaRules } from "./robot-plan";
+import { PlanningToolbox, ToolCallRecord } from "./planning-tools";
+import { MAX_REPAIR_ROUNDS, PlanIssue, validateRobotPlans } from "./plan-validation";
+
 // State structure for the graph
 export interface WarehouseState {
   // Node 1: Natural language command
   userCommand: string;
   
-  // Node 2: Robot statuses (4 robots: R1, R2, R3, R4)
-  robotStatuses: {
-    R1: { position: { row: number; col: number }; battery: number; status: string };
-    R2: { position: { row: number; col: number }; battery: number; status: string };
-    R3: { position: { row: number; col: number }; battery: number; status: string };
-    R4: { position: { row: number; col: number }; battery: number; status: string };
-  };
+  // Node 2: Robot statuses, keyed by robot ID (fleet comes from the scenario)
+  robotStatuses: FleetState;
   sensorData?: any;
   
-  // Node 3: LLM response
+  // Node 3: LLM response. In hybrid mode the LLM only assigns tasks and the path planner
+  // turns its assignments into the robot plans.
+  planningMode?: PlanningMode; // Default "llm"
+  useTools?: boolean; // Let the model call planning tools (lib/planning-tools.ts) while it plans
+  toolTranscript?: ToolCallRecord[]; // Tool calls of the last LLM call, in order
+  assignments?: TaskAssignments; // Hybrid mode only
   llmPrompt: string;
   llmResponse: string;
-  robotCommands: {
-    R1: string;
-    R2: string;
-    R3: string;
-    R4: string;
-  };
+  robotPlans?: RobotTasks; // Typed action plan per robot; paths are read from here
+  robotCommands: { [robotId: string]: string }; // Each plan's description, for display
   humanReadableResponse: string;
   
+  // Validation (between Node 3 and Node 4): a failing plan goes back to Node 3 with its issues
+  schemaIssue?: PlanIssue; // Set by Node 3 when the latest response did not fit the plan schema
+  planIssues?: PlanIssue[]; // Issues of the latest plan; empty when it passed
+  repairRounds?: number; // Times Node 3 was sent back to fix its plan in this iteration
+  totalRepairRounds?: number; // Repair rounds over all iterations of the run
+  maxRepairRounds?: number; // Default MAX_REPAIR_ROUNDS
+  
   // Node 4: Broken down commands (stored for execution)
   executedCommands: Array<{
     robotId: string;
@@ -38,6 +62,9 @@ export interface WarehouseState {
     timestamp: Date;
   }>;
   
+  // Node 4: Tick-based execution of the dispatched paths on the grid
+  simulation?: SimulationResult;
+  
   // Node 5: Operator interface message
   operatorMessage: string;
   
@@ -46,7 +73,7 @@ export interface WarehouseState {
   shouldContinue: boolean;
   taskComplete: boolean;
   
-  // Environment representation (18x16 matrix)
+  // Environment representation: row-major warehouse grid (grid[row][col]) of any size
   environmentMatrix: string[][];
   
   // Evaluation metrics
@@ -67,22 +94,19 @@ export async function processUserCommand(state: WarehouseState): Promise<Partial
   return {
     userCommand: state.userCommand,
     iteration: (state.iteration || 0) + 1,
+    repairRounds: 0, // Each iteration gets the full repair budget
   };
 }
 
-// Node 2: Query Robot Statuses (4 robots for navigation tasks)
+// Node 2: Query Robot Statuses (every robot in the fleet)
 export async function queryRobotStatus(state: WarehouseState): Promise<Partial<WarehouseState>> {
   console.log("[Node 2] Querying robot statuses");
   
   // Use robot statuses from state (set from test scenario)
-  // If not set, use defaults - all robots start at 100% battery and working status
-  // R4 moved from (15,0) which is in charging area to (13,0) which is a path
-  const robotStatuses = state.robotStatuses || {
-    R1: { position: { row: 0, col: 0 }, battery: 100, status: "working" },
-    R2: { position: { row: 15, col: 17 }, battery: 100, status: "working" },
-    R3: { position: { row: 14, col: 16 }, battery: 100, status: "working" },
-    R4: { position: { row: 13, col: 0 }, battery: 100, status: "working" }, // Moved from charging area to path
-  };
+  // If not set, fall back to the default fleet
+  const robotStatuses = state.robotStatuses && Object.keys(state.robotStatuses).length > 0
+    ? state.robotStatuses
+    : { ...DEFAULT_FLEET };
   
   return {
     robotStatuses,
@@ -111,40 +135,112 @@ export async function llmReasoningNode(
     environmentMatrix: state.environmentMatrix,
     robotStatuses: state.robotStatuses,
     userCommand: state.userCommand, // Includes full scenario JSON
+    planningMode: state.planningMode || "llm",
   };
   
-  // Use the structured prompt as the main prompt
-  const llmResponse = await llmProvider.generateTasks(
-    prompt, // Use the full structured prompt
-    environmentData,
-    model
-  );
+  // Grid and fleet queries backed by this run's map, fleet and charging stations
+  const tools = state.useTools ? createToolbox(state) : undefined;
+
+  // Use the structured prompt as the main prompt. A response that does not fit the plan
+  // schema becomes a plan issue, so validation can send it back for repair.
+  let llmResponse: RobotTasks;
+  try {
+    llmResponse = await llmProvider.generateTasks(
+      prompt, // Use the full structured prompt
+      environmentData,
+      model,
+      tools
+    );
+  } catch (error) {
+    if (!(error instanceof InvalidPlanError)) throw error;
+    console.warn(`[Node 3] Response does not fit the plan schema: ${error.message}`);
+    return {
+      llmPrompt: prompt,
+      llmResponse: error.response === undefined ? "" : JSON.stringify(error.response),
+      robotPlans: {},
+      robotCommands: {},
+      schemaIssue: { kind: "schema", robotIds: [], message: error.message },
+      toolTranscript: tools?.transcript,
+      humanReadableResponse: `The response did not fit the plan schema: ${error.message}`,
+      evaluationMetrics: addResponseTime(state, llmProvider.lastLatencyMs ?? Date.now() - startTime),
+    };
+  }
+  if (tools) {
+    console.log(`[Node 3] Model made ${tools.transcript.length} tool call(s)`);
+  }
   
-  const responseTime = (Date.now() - startTime) / 1000; // in seconds
+  const latencyMs: number = llmProvider.lastLatencyMs ?? Date.now() - startTime;
+  const responseTime = latencyMs / 1000; // in seconds
   
-  // Parse LLM response to extract commands for each robot
-  // The LLM response is already in RobotTasks format (R1, R2, R3, R4)
-  const robotCommands = {
-    R1: llmResponse.R1 || "",
-    R2: llmResponse.R2 || "",
-    R3: llmResponse.R3 || "",
-    R4: llmResponse.R4 || "",
-  };
+  // The LLM response is already validated RobotTasks: one action plan per robot ID. In
+  // hybrid mode the plans carry no paths, so the planner routes their task IDs instead.
+  let assignments: TaskAssignments | undefined;
+  let plans: RobotTasks = llmResponse;
+  if (environmentData.planningMode === "hybrid") {
+    const taskIds = (state.sensorData?.operatorCommands?.taskPool || []).map((task: { taskId: string }) => task.taskId);
+    assignments = parseAssignments(llmResponse, taskIds);
+    plans = routeAssignments(environmentData, assignments);
+  }
+  const robotPlans: RobotTasks = {};
+  const robotCommands: WarehouseState["robotCommands"] = {};
+  for (const robotId of getRobotIds(state)) {
+    robotPlans[robotId] = plans[robotId];
+    robotCommands[robotId] = plans[robotId]?.description || "";
+  }
   
   return {
     llmPrompt: prompt,
     llmResponse: JSON.stringify(llmResponse),
+    robotPlans,
     robotCommands,
+    assignments,
+    schemaIssue: undefined,
+    toolTranscript: tools?.transcript,
     humanReadableResponse: `Generated tasks for all robots. Response time: ${responseTime.toFixed(2)}s`,
-    evaluationMetrics: {
-      ...state.evaluationMetrics,
-      responseTime,
-    },
+    evaluationMetrics: addResponseTime(state, latencyMs),
+  };
+}
+
+// Metrics with this LLM call's time added to the run's total (seconds)
+function addResponseTime(state: WarehouseState, latencyMs: number): WarehouseState["evaluationMetrics"] {
+  const metrics = state.evaluationMetrics || { responseTime: 0, jsonValidity: 0, safetyCompliance: 0, taskAllocation: 0, pathQuality: 0, totalScore: 0 };
+  return { ...metrics, responseTime: metrics.responseTime + latencyMs / 1000 };
+}
+
+// Validation: check the plan before it is executed
+export async function validatePlan(state: WarehouseState): Promise<Partial<WarehouseState>> {
+  console.log("[Validation] Checking robot plans");
+  if (state.schemaIssue) {
+    console.warn(`[Validation] ${state.schemaIssue.kind}: ${state.schemaIssue.message}`);
+    return { planIssues: [state.schemaIssue] };
+  }
+  
+  const map = WarehouseMap.from(state.environmentMatrix).withTraffic(TrafficRules.fromScenario(state.sensorData?.warehouseMap?.traffic));
+  const planIssues = validateRobotPlans(state.robotPlans || {}, {
+    map,
+    fleet: state.robotStatuses,
+    types: getFleetTypes({ robotStatuses: state.robotStatuses, scenario: state.sensorData }),
+    taskPool: state.sensorData?.operatorCommands?.taskPool,
+    batteryThresholdPercent: state.sensorData?.energyModel?.safetyThresholdPercent,
+  });
+  planIssues.forEach(issue => console.warn(`[Validation] ${issue.kind}: ${issue.message}`));
+  
+  return {
+    planIssues,
   };
 }
 
-// Node 4: Break down commands and send to robots
-export async function executeCommands(state: WarehouseState): Promise<Partial<WarehouseState>> {
+// Conditional edge: send a failing plan back to Node 3 while the repair budget lasts
+export function shouldRepair(state: WarehouseState): string {
+  if (!state.planIssues || state.planIssues.length === 0) {
+    return "execute";
+  }
+  return (state.repairRounds || 0) < (state.maxRepairRounds ?? MAX_REPAIR_ROUNDS) ? "repair" : "execute";
+}
+
+// Node 4: Break down commands and send to robots. With a queue of its own the run stays off
+// the live fleet; without one its fleet becomes the active one.
+export async function executeCommands(state: WarehouseState, queue?: TaskQueue): Promise<Partial<WarehouseState>> {
   console.log("[Node 4] Breaking down and executing commands");
   
   const executedCommands = [];
@@ -159,8 +255,27 @@ export async function executeCommands(state: WarehouseState): Promise<Partial<Wa
     }
   }
   
+  // Execute the dispatched paths on the grid so the run produces a real trajectory
+  let simulation: SimulationResult | undefined;
+  if (state.environmentMatrix && state.environmentMatrix.length > 0) {
+    // A live run's fleet becomes the active one, so the fleet API and dashboard show it; only
+    // this dispatch's tasks are simulated
+    const orchestrator = queue
+      ? RobotOrchestrator.fromFleet(state.robotStatuses, state.sensorData?.robotTypes, queue)
+      : activateFleet(state.robotStatuses, state.sensorData?.robotTypes);
+    const robotTasks = await orchestrator.distributeTasks(state.robotPlans || {}, state.sensorData?.operatorCommands?.taskPool);
+    const map = WarehouseMap.fromGrid(state.environmentMatrix).withTraffic(TrafficRules.fromScenario(state.sensorData?.warehouseMap?.traffic));
+    simulation = orchestrator.simulate(robotTasks, map, { energy: state.sensorData?.energyModel }, {
+      inventory: Inventory.fromScenario(state.sensorData?.inventory),
+      dynamics: DynamicEnvironment.fromScenario(map, state.sensorData?.dynamics),
+      faults: FaultInjector.fromScenario(state.sensorData?.faults),
+      charging: ChargingManager.fromFleet(map, state.robotStatuses, resolveChargingPolicy(state.sensorData?.charging)),
+    });
+  }
+  
   return {
     executedCommands,
+    simulation,
   };
 }
 
@@ -168,7 +283,20 @@ export async function executeCommands(state: WarehouseState): Promise<Partial<Wa
 export async function broadcastResponse(state: WarehouseState): Promise<Partial<WarehouseState>> {
   console.log("[Node 5] Broadcasting response to operator interface");
   
-  const operatorMessage = state.humanReadableResponse || "Task completed successfully";
+  let operatorMessage = state.humanReadableResponse || "Task completed successfully";
+  if (state.simulation) {
+    const completed = state.simulation.tasks.filter(t => t.status === "completed").length;
+    operatorMessage += ` Simulation: ${completed}/${state.simulation.tasks.length} tasks completed in ${state.simulation.ticks} ticks.`;
+    if (state.simulation.replanTriggers.length > 0) {
+      operatorMessage += ` ${state.simulation.replanTriggers.length} route(s) blocked by dynamic obstacles; replanning on the next iteration.`;
+    }
+    if (state.simulation.locks.length > 0) {
+      operatorMessage += ` ${state.simulation.locks.length} deadlock/livelock event(s) during execution.`;
+    }
+    if (state.simulation.charging && state.simulation.charging.waiting.length > 0) {
+      operatorMessage += ` Waiting for a charging station: ${state.simulation.charging.waiting.join(", ")}.`;
+    }
+  }
   
   return {
     operatorMessage,
@@ -180,71 +308,78 @@ export function shouldContinue(state: WarehouseState): string {
   if (state.taskComplete || (state.iteration || 0) >= 10) {
     return "end";
   }
-  return "continue";
+  // Another pass only helps when execution found routes blocked; the next prompt lists them
+  if (state.simulation && state.simulation.replanTriggers.length > 0) {
+    return "continue";
+  }
+  return "end";
 }
 
 // Build structured prompt for navigation task allocation
+function createToolbox(state: WarehouseState): PlanningToolbox {
+  const map = WarehouseMap.from(state.environmentMatrix).withTraffic(TrafficRules.fromScenario(state.sensorData?.warehouseMap?.traffic));
+  const charging = ChargingManager.fromFleet(map, state.robotStatuses, resolveChargingPolicy(state.sensorData?.charging));
+  const robotTypes = getFleetTypes({ robotStatuses: state.robotStatuses, scenario: state.sensorData });
+  return new PlanningToolbox(map, state.robotStatuses, robotTypes, charging);
+}
+
 function buildStructuredPrompt(state: WarehouseState): string {
-  const envMatrix = formatEnvironmentMatrix(state.environmentMatrix);
-  const robotStatus = formatRobotStatuses(state.robotStatuses);
+  const map = WarehouseMap.from(state.environmentMatrix).withTraffic(TrafficRules.fromScenario(state.sensorData?.warehouseMap?.traffic));
+  const locations = new LocationRegistry(map, state.sensorData?.warehouseMap?.specialZones);
+  const chargers = locations.chargers.map(charger => charger.name.replace("Charging station ", ""));
+  const charging = ChargingManager.fromFleet(map, state.robotStatuses, resolveChargingPolicy(state.sensorData?.charging));
+  const robotTypes = getFleetTypes({ robotStatuses: state.robotStatuses, scenario: state.sensorData });
+  const robotStatus = formatRobotStatuses(state.robotStatuses, robotTypes);
+  const robotIds = getRobotIds(state);
+  const fleetSize = robotIds.length;
+  const robotList = robotIds.join(", ");
+  const hybrid = state.planningMode === "hybrid";
+  const taskIds = (state.sensorData?.operatorCommands?.taskPool || []).map((task: { taskId: string }) => task.taskId);
   
   // Section 1: Role Definition
-  const roleDefinition = `You are an intelligent warehouse task coordinator. Your objective is to divide the overall task among four mobile robots (R1, R2, R3, R4) that all have the same capabilities. Each robot can navigate, manipulate objects, sense the environment, and communicate.`;
+  const roleDefinition = `You are an intelligent warehouse task coordinator. Your objective is to divide the overall task among ${fleetSize} mobile robots (${robotList}). Robots can be of different types (tuggers, pickers, inspection units, general-purpose); each robot's type defines its capabilities, maximum payload and speed.`;
 
   // Section 2: Environment Representation
-  const environmentRepresentation = `The warehouse is represented as an 18x16 grid matrix (each cell = 1x1 meter):
-${envMatrix}
+  const environmentRepresentation = `The warehouse is represented as a grid of ${map.rows} rows x ${map.cols} columns (each cell = 1x1 meter). Coordinates are [row, col]: row 0 is the top line, col 0 the left column.
+${map.toText()}
 
 Legend:
-. = Path
-S = Shelf (Obstacle)
-C = Charging Area (270-273)
-L = Loading Area (277-280)
-U = Unloading Area (284-287)`;
+${map.legendText()}${formatTraffic(map.traffic)}
+
+Named Locations:
+${locations.describe()}${formatTaskLocations(locations, state.sensorData?.operatorCommands?.taskPool || [])}${formatDynamics(state.sensorData?.dynamics)}`;
 
-  // Section 3: Robot Statuses
+  // Section 3: Robot Statuses, plus routes the last execution found blocked
   const systemStateInput = `Current Robot Statuses:
-${robotStatus}`;
+${robotStatus}${formatCharging(charging)}${formatReplanTriggers(state.simulation?.replanTriggers || [])}${formatFaults(state.simulation?.faults || [])}${formatLocks(state.simulation?.locks || [])}${formatPlanIssues(state.planIssues || [], state.llmResponse)}`;
 
   // Section 4: Operational Commands
   const operationalCommands = `Task Request: ${state.userCommand}`;
 
   // Section 5: Constraints & Rules
   const constraintsRules = `CRITICAL REQUIREMENTS:
-1. ALL 4 ROBOTS (R1, R2, R3, R4) MUST receive tasks - do not leave any robot idle unless battery < 20%
+1. ${hybrid ? `Use the whole fleet (${robotList}): spread the tasks so robots work in parallel; a robot may stand by when there are fewer tasks than robots` : `ALL ${fleetSize} ROBOTS (${robotList}) MUST receive tasks - do not leave any robot idle unless battery < 20%`}
 2. Divide tasks intelligently: assign different parts of the overall task to different robots for parallel execution
-3. Battery Safety: Robots with battery < 20% must go to charging stations (270-273)
+3. Battery Safety: Robots with battery < 20% must go to charging stations${chargers.length > 0 ? ` (${chargers.join(", ")})` : ""}; each station takes one robot, so send each robot to a different free station
 4. Collision Avoidance: No collisions between robots or with shelves
-5. Path Optimization: Use efficient A* or Dijkstra paths
+${hybrid
+  ? `5. Paths: a path planner routes every robot along the shortest legal path through its tasks' locations, so do NOT write paths or coordinates
 6. Task Distribution: If there are multiple tasks, assign different tasks to different robots based on proximity
-7. All robots must provide paths as [[row, col], ...] format in their task description
-8. IMPORTANT: Keep paths SHORT - use only key waypoints (start, major turns, destination). Maximum 10-15 waypoints per path. Do NOT list every single cell.
-9. All robots have the same capabilities - divide tasks based on proximity, battery, and workload
-10. Example: If there are 3 tasks, assign them to R1, R2, R3, and give R4 a supporting/coordination task`;
+7. Order: list each robot's actions in the order it should do them, each naming the task IDs it serves; the robot visits each task's locations in turn
+8. Battery: add a charge action to send a robot to the nearest free charging station after its tasks, or on its own when it should only charge`
+  : `5. Path Optimization: Use efficient A* or Dijkstra paths
+6. Task Distribution: If there are multiple tasks, assign different tasks to different robots based on proximity
+7. Every action that moves the robot must carry its path as [[row, col], ...] from where the previous action ended
+8. IMPORTANT: Keep paths SHORT - use only key waypoints (start, major turns, destination). Maximum 10-15 waypoints per action. Do NOT list every single cell.`}
+9. Capabilities: only assign a task to a robot whose type has the capabilities and payload it needs (e.g. no transport for inspection units); otherwise divide tasks based on proximity, battery, and workload
+10. Example: If there are fewer tasks than robots, assign each task to the closest robot and ${hybrid ? "let the remaining robots stand by" : "give the remaining robots supporting/coordination tasks"}${state.useTools
+  ? hybrid
+    ? `\n11. Tools: use plan_path to compare how far each robot is from a task, get_robot_status for a robot's details and nearest_charger to pick a free station; answer with the plan JSON only once you are done`
+    : `\n11. Tools: get every path from plan_path instead of working it out from the grid, use get_robot_status and nearest_charger for robot details and free stations, and run check_conflicts on the whole draft before answering; fix any conflicts it reports, then answer with the plan JSON only`
+  : ""}`;
 
   // Section 6: Output Format
-  const outputFormat = `CRITICAL: You MUST assign tasks to ALL 4 robots (R1, R2, R3, R4). Do NOT leave any robot without a task.
-
-You MUST respond with ONLY valid JSON using ROBOT IDs as keys:
-{
-  "R1": "task description for R1 robot with path: [[row, col], [row, col], ...]",
-  "R2": "task description for R2 robot with path: [[row, col], [row, col], ...]", 
-  "R3": "task description for R3 robot with path: [[row, col], [row, col], ...]",
-  "R4": "task description for R4 robot with path: [[row, col], [row, col], ...]"
-}
-
-REQUIREMENTS:
-- Keys MUST be: "R1", "R2", "R3", "R4" (all 4 required)
-- ALL 4 robots MUST have non-empty task descriptions
-- Each task must include:
-  - Clear description of what the robot should do (not "remain idle" unless battery < 20%)
-  - Path as array of [row, col] coordinates: path: [[row, col], [row, col], ...]
-  - IMPORTANT: Use SHORT paths with only key waypoints (start, major turns, destination). Maximum 10-15 waypoints. Do NOT list every cell.
-  - Destination coordinates
-  - Actions: pickup, dropoff, charge, navigate, inspect, coordinate, etc.
-  - Consider robot's current position and battery level
-- If there are fewer tasks than robots, assign supporting roles (coordination, monitoring, backup) to remaining robots
-- Divide the work: don't assign all tasks to one robot`;
+  const outputFormat = hybrid ? hybridOutputFormat(robotIds, taskIds) : pathOutputFormat(robotIds);
 
   return `${roleDefinition}
 
@@ -259,38 +394,132 @@ ${constraintsRules}
 ${outputFormat}`;
 }
 
-// Format environment matrix as text
-function formatEnvironmentMatrix(matrix: string[][]): string {
-  if (!matrix || matrix.length === 0) {
-    return "Environment matrix not provided";
-  }
-  
-  let output = "\n";
-  for (let y = 0; y < matrix[0].length; y++) {
-    let row = "";
-    for (let x = 0; x < matrix.length; x++) {
-      row += (matrix[x]?.[y] || ".") + " ";
-    }
-    output += row.trim() + "\n";
-  }
-  return output;
+// Output format when the LLM writes each robot's actions and paths
+function pathOutputFormat(robotIds: string[]): string {
+  const fleetSize = robotIds.length;
+  const robotList = robotIds.join(", ");
+  return `CRITICAL: You MUST assign tasks to ALL ${fleetSize} robots (${robotList}). Do NOT leave any robot without a task.
+
+You MUST respond with ONLY valid JSON using ROBOT IDs as keys:
+${planResponseTemplate(robotIds)}
+
+REQUIREMENTS:
+- Keys MUST be: ${robotIds.map(robotId => `"${robotId}"`).join(", ")} (all ${fleetSize} required)
+- ALL ${fleetSize} robots MUST have at least one action (only "wait" if battery < 20% and no station is free)
+${planSchemaRules()}
+- IMPORTANT: Use SHORT paths with only key waypoints (start, major turns, destination). Maximum 10-15 waypoints. Do NOT list every cell.
+- Consider each robot's current position and battery level
+- If there are fewer tasks than robots, assign supporting roles (coordination, monitoring, backup) to remaining robots
+- Divide the work: don't assign all tasks to one robot`;
+}
+
+// Output format in hybrid mode: actions naming task IDs, no paths
+function hybridOutputFormat(robotIds: string[], taskIds: string[]): string {
+  return `You MUST respond with ONLY valid JSON using ROBOT IDs as keys:
+${planResponseTemplate(robotIds, false)}
+
+REQUIREMENTS:
+- Keys MUST be: ${robotIds.map(robotId => `"${robotId}"`).join(", ")} (all ${robotIds.length} required)
+- Task IDs come from the task pool (${taskIds.join(", ") || "none"}); a robot with nothing to do gets a single wait action
+${planSchemaRules(false)}
+- Give every task to exactly one robot`;
+}
+
+// Resolve each task's named places to cells, so the LLM never has to decode shelf numbers itself
+function formatTaskLocations(locations: LocationRegistry, tasks: Array<TaskLocationFields & { taskId: string }>): string {
+  const lines = tasks.map(task => {
+    const { locations: targets, unresolved } = locations.taskLocations(task);
+    const resolved = targets.map(target => {
+      const access = target.accessCells.map(([row, col]) => `[${row}, ${col}]`).join(", ");
+      return `${target.name} -> access from ${access || "nowhere (unreachable)"}`;
+    });
+    const notes = unresolved.map(note => `(${note})`);
+    return `- ${task.taskId}: ${[...resolved, ...notes].join("; ") || "no named location"}`;
+  });
+  return lines.length > 0 ? `\n\nTask Locations (the last one is the destination):\n${lines.join("\n")}` : "";
+}
+
+// One-way aisles, speed zones and restricted areas; the straight segments between waypoints must follow them too
+function formatTraffic(traffic: TrafficRules | undefined): string {
+  return traffic ? `\n\nTraffic Rules (every path must follow them):\n${traffic.describe()}` : "";
+}
+
+// Which stations are free, so charging trips never target a station another robot holds
+function formatCharging(charging: ChargingManager): string {
+  const stations = charging.describe();
+  return stations ? `\n\nCharging Stations (policy: ${charging.policy.name}):\n${stations}` : "";
+}
+
+// Validation errors of the previous plan, so the repaired plan can fix them
+function formatPlanIssues(issues: PlanIssue[], previousResponse: string): string {
+  if (issues.length === 0) return "";
+  const lines = issues.map(issue => `- ${issue.kind}${issue.robotIds.length > 0 ? ` (${issue.robotIds.join(", ")})` : ""}: ${issue.message}`);
+  return `\n\nYour Previous Plan Failed Validation (fix every issue and answer with the whole corrected plan):\n${lines.join("\n")}${previousResponse ? `\n\nPrevious plan:\n${previousResponse}` : ""}`;
+}
+
+// Moving actors and scheduled blocks, so paths can avoid them up front
+function formatDynamics(dynamics: ScenarioDynamics | undefined): string {
+  const actors = (dynamics?.actors || []).map(actor => {
+    const movement = actor.trajectory.type === "scripted"
+      ? `scripted route via ${actor.trajectory.waypoints.map(([row, col]) => `[${row}, ${col}]`).join(", ")}${actor.trajectory.loop ? " (repeats)" : ""}`
+      : "random walk";
+    return `- ${actor.kind} ${actor.id}: starts at [${actor.start[0]}, ${actor.start[1]}], ${movement}`;
+  });
+  const blocks = (dynamics?.blockedCells || []).map(block => {
+    const window = block.untilTick === undefined ? `from tick ${block.fromTick}` : `ticks ${block.fromTick}-${block.untilTick - 1}`;
+    return `- ${block.cells.map(([row, col]) => `[${row}, ${col}]`).join(", ")} blocked ${window}${block.reason ? ` (${block.reason})` : ""}`;
+  });
+  const lines = [...actors, ...blocks];
+  return lines.length > 0 ? `\n\nDynamic Obstacles (one cell per tick; avoid their routes where possible):\n${lines.join("\n")}` : "";
+}
+
+// Routes blocked during the previous execution; the next plan should route around them
+function formatReplanTriggers(triggers: ReplanTrigger[]): string {
+  const lines = triggers.map(trigger =>
+    `- ${trigger.robotId}${trigger.queueId ? ` (${trigger.queueId})` : ""}: blocked at [${trigger.cell[0]}, ${trigger.cell[1]}] by ${trigger.blocker} at tick ${trigger.tick}${trigger.rerouted ? ", detoured" : ", had to wait"}`
+  );
+  return lines.length > 0 ? `\n\nReplanning Triggers (previous execution):\n${lines.join("\n")}` : "";
+}
+
+// Faults detected during the previous execution; faulty robots should not get the orphaned work back
+function formatFaults(faults: FaultReport[]): string {
+  const lines = faults
+    .filter(report => report.detectedAt !== undefined)
+    .map(report => {
+      const handover = report.reassignments.map(({ from, robotId }) => `${from} -> ${robotId}`).join(", ");
+      return `- ${report.fault.robotId}: ${report.fault.type} detected at tick ${report.detectedAt} (${report.detection})${handover ? `; reassigned ${handover}` : ""}`;
+    });
+  return lines.length > 0 ? `\n\nRobot Faults (previous execution):\n${lines.join("\n")}` : "";
+}
+
+// Deadlocks and livelocks of the previous execution; the next plan should keep these robots apart
+function formatLocks(locks: LockEvent[]): string {
+  const lines = locks.map(lock => {
+    const cells = lock.cells.map(([row, col]) => `[${row}, ${col}]`).join(", ");
+    return `- ${lock.kind} of ${lock.robots.join(", ")} at ${cells} at tick ${lock.tick}${lock.resolution ? `; ${lock.resolution}` : ""}`;
+  });
+  return lines.length > 0 ? `\n\nDeadlocks and Livelocks (previous execution):\n${lines.join("\n")}` : "";
 }
 
 // Format robot statuses
-function formatRobotStatuses(statuses: WarehouseState["robotStatuses"]): string {
+function formatRobotStatuses(statuses: WarehouseState["robotStatuses"], types: { [robotId: string]: RobotType }): string {
   return Object.entries(statuses)
     .map(([robotId, status]) => {
-      return `- ${robotId}: Position (row: ${status.position.row}, col: ${status.position.col}), Battery: ${status.battery}%, Status: ${status.status}`;
+      const type = types[robotId] ? `, Type: ${describeRobotType(types[robotId])}` : "";
+      const station = status.chargingStationId !== undefined ? `, Docked at charging station ${status.chargingStationId}` : "";
+      return `- ${robotId}: Position (row: ${status.position.row}, col: ${status.position.col}), Battery: ${status.battery}%, Status: ${status.status}${station}${type}`;
     })
     .join("\n");
 }
 
-// Custom graph execution function
+// Custom graph execution function. Test runs pass a `taskQueue` of their own, so they neither
+// touch the live fleet's queue nor depend on what ran before them (queue IDs start at R1-1).
 export async function executeWarehouseGraph(
   initialState: WarehouseState,
   llmProvider: any,
   model: string,
-  maxIterations: number = 5
+  maxIterations: number = 5,
+  options: { taskQueue?: TaskQueue } = {}
 ): Promise<WarehouseState> {
   let state: WarehouseState = {
     ...initialState,
@@ -314,8 +543,29 @@ export async function executeWarehouseGraph(
     const node3Result = await llmReasoningNode(state, llmProvider, model);
     state = { ...state, ...node3Result };
 
+    // Validation: a failing plan goes back to Node 3 with its issues until it passes or
+    // the repair budget is spent
+    const validationResult = await validatePlan(state);
+    state = { ...state, ...validationResult };
+    while (shouldRepair(state) === "repair") {
+      const previousResponse = state.llmResponse;
+      state = { ...state, repairRounds: (state.repairRounds || 0) + 1, totalRepairRounds: (state.totalRepairRounds || 0) + 1 };
+      console.log(`[Validation] Repair round ${state.repairRounds}: sending ${state.planIssues!.length} issue(s) back to Node 3`);
+      const repairResult = await llmReasoningNode(state, llmProvider, model);
+      state = { ...state, ...repairResult };
+      const revalidationResult = await validatePlan(state);
+      state = { ...state, ...revalidationResult };
+      if (state.llmResponse === previousResponse) {
+        console.warn("[Validation] The plan did not change; executing it as it is");
+        break;
+      }
+    }
+    if (state.schemaIssue) {
+      throw new Error(`No usable plan after ${state.repairRounds} repair round(s): ${state.schemaIssue.message}`);
+    }
+
     // Node 4: Execute commands
-    const node4Result = await executeCommands(state);
+    const node4Result = await executeCommands(state, options.taskQueue);
     state = { ...state, ...node4Result };
 
     // Node 5: Broadcast response
@@ -0,0 +1,179 @@
+/**
+ * LLM Fixtures
+ * Record and replay provider responses for deterministic offline runs. RecordingProvider wraps
+ * any LLMProvider and writes each response, or the error it threw, to a fixture file named by
+ * the request's fingerprint; ReplayProvider serves those files back without calling any API,
+ * so scenario suites, evaluation and reports can be re-run with the exact same plans.
+ */
+
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { LLMProvider, RobotTasks } from "./llm-providers";
+import type { PlanningToolbox, ToolCallRecord } from "./planning-tools";
+import { InvalidPlanError } from "./robot-plan";
+
+export type FixtureMode = "off" | "record" | "replay";
+
+export const FIXTURE_MODES: { [mode in FixtureMode]: string } = {
+  off: "Call the provider",
+  record: "Call the provider and save its responses",
+  replay: "Serve saved responses, no API calls",
+};
+
+/**
+ * Where fixtures go unless LLM_FIXTURES_DIR says otherwise, relative to the working directory
+ */
+export const DEFAULT_FIXTURES_DIR = "fixtures/llm";
+
+/**
+ * One recorded provider call
+ */
+export interface LLMFixture {
+  fingerprint: string;
+  model: string;
+  tasks?: RobotTasks; // The provider's response
+  error?: string; // Or the message of the error it threw
+  invalidPlan?: { response?: unknown }; // Set when that error was an InvalidPlanError, with its response
+  toolTranscript?: ToolCallRecord[]; // Tool calls the model made during the request
+  latencyMs?: number; // How long the provider took, reported again on replay
+}
+
+export function resolveFixtureMode(mode: string | undefined): FixtureMode {
+  if (mode === undefined) return "off";
+  if (!Object.hasOwn(FIXTURE_MODES, mode)) {
+    throw new Error(`Unknown fixture mode "${mode}"; use one of ${Object.keys(FIXTURE_MODES).join(", ")}`);
+  }
+  return mode as FixtureMode;
+}
+
+/**
+ * Hash of everything the provider sees: model, prompt, environment (with keys sorted, so
+ * property order does not matter) and the tools offered
+ */
+export function requestFingerprint(prompt: string, environment: unknown, model: string, tools?: PlanningToolbox): string {
+  const request = canonicalJson({
+    model,
+    prompt,
+    environment,
+    tools: tools ? tools.definitions.map(tool => tool.name) : [],
+  });
+  return createHash("sha256").update(request).digest("hex").slice(0, 16);
+}
+
+/**
+ * A directory of fixture files, one "<fingerprint>.json" per request
+ */
+export class FixtureStore {
+  readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  pathFor(fingerprint: string): string {
+    return path.join(this.dir, `${fingerprint}.json`);
+  }
+
+  async read(fingerprint: string): Promise<LLMFixture | undefined> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.pathFor(fingerprint), "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+    return JSON.parse(content) as LLMFixture;
+  }
+
+  async write(fixture: LLMFixture): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(this.pathFor(fixture.fingerprint), `${JSON.stringify(fixture, null, 2)}\n`, "utf8");
+  }
+}
+
+/**
+ * Passes every request to the wrapped provider and saves what comes back. A request made
+ * again overwrites its fixture. The latency it saves is also reported as `lastLatencyMs`, so
+ * the recorded run scores the same time as its replays.
+ */
+export class RecordingProvider implements LLMProvider {
+  private provider: LLMProvider;
+  private store: FixtureStore;
+  lastLatencyMs?: number;
+
+  constructor(provider: LLMProvider, store: FixtureStore) {
+    this.provider = provider;
+    this.store = store;
+  }
+
+  async generateTasks(prompt: string, environment: unknown, model: string, tools?: PlanningToolbox): Promise<RobotTasks> {
+    const fingerprint = requestFingerprint(prompt, environment, model, tools);
+    const firstCall = tools?.transcript.length ?? 0;
+    const toolTranscript = () => (tools ? tools.transcript.slice(firstCall) : undefined);
+
+    const startTime = Date.now();
+    let tasks: RobotTasks;
+    try {
+      tasks = await this.provider.generateTasks(prompt, environment, model, tools);
+    } catch (error) {
+      this.lastLatencyMs = this.provider.lastLatencyMs ?? Date.now() - startTime;
+      await this.store.write({
+        fingerprint,
+        model,
+        error: error instanceof Error ? error.message : String(error),
+        ...(error instanceof InvalidPlanError ? { invalidPlan: { response: error.response } } : {}),
+        toolTranscript: toolTranscript(),
+        latencyMs: this.lastLatencyMs,
+      });
+      throw error;
+    }
+    this.lastLatencyMs = this.provider.lastLatencyMs ?? Date.now() - startTime;
+    await this.store.write({ fingerprint, model, tasks, toolTranscript: toolTranscript(), latencyMs: this.lastLatencyMs });
+    console.log(`[Fixtures] Recorded ${model} response as ${fingerprint}`);
+    return tasks;
+  }
+}
+
+/**
+ * Answers from recorded fixtures only. The recorded tool calls are added to the toolbox's
+ * transcript and the recorded latency is reported as `lastLatencyMs` (0 for fixtures recorded
+ * without one), so reports and response-time scores match the recorded run; a request that
+ * was never recorded throws.
+ */
+export class ReplayProvider implements LLMProvider {
+  private store: FixtureStore;
+  lastLatencyMs?: number;
+
+  constructor(store: FixtureStore) {
+    this.store = store;
+  }
+
+  async generateTasks(prompt: string, environment: unknown, model: string, tools?: PlanningToolbox): Promise<RobotTasks> {
+    const fingerprint = requestFingerprint(prompt, environment, model, tools);
+    const fixture = await this.store.read(fingerprint);
+    if (!fixture) {
+      throw new Error(`No recorded response for this ${model} request (fingerprint ${fingerprint}) in ${this.store.dir}; record the run first`);
+    }
+    console.log(`[Fixtures] Replaying ${model} response ${fingerprint}`);
+
+    this.lastLatencyMs = fixture.latencyMs ?? 0;
+    tools?.transcript.push(...(fixture.toolTranscript || []));
+    if (fixture.error !== undefined) {
+      throw fixture.invalidPlan ? new InvalidPlanError(fixture.error, fixture.invalidPlan.response) : new Error(fixture.error);
+    }
+    if (!fixture.tasks) {
+      throw new Error(`Fixture ${this.store.pathFor(fingerprint)} has neither tasks nor an error`);
+    }
+    return fixture.tasks;
+  }
+}
+
+// JSON with object keys sorted at every level; undefined values are dropped as usual
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, entry: unknown) =>
+    entry && typeof entry === "object" && !Array.isArray(entry)
+      ? Object.fromEntries(Object.entries(entry).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+      : entry
+  );
+}
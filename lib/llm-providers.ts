@@ -1,17 +1,175 @@
 /**
  * LLM Provider Interface and Implementations
- * Supports multiple LLM providers: Anthropic, OpenAI, xAI (Grok), Google Gemini
+ * Supports multiple LLM providers: Anthropic, OpenAI, xAI (Grok), Google Gemini, any local
+ * server speaking the OpenAI chat-completions protocol (Ollama, llama.cpp, vLLM), plus
+ * offline classical baselines (lib/baseline-allocators.ts) for comparison
  */
 
+import { FleetSource, getFleetTypes, getRobotIds } from "./fleet";
+import { describeRobotType } from "./robot-types";
+import { BaselineProvider } from "./baseline-allocators";
+import type { PlanningMode } from "./hybrid-planning";
+import { InvalidPlanError, planResponseTemplate, planSchemaRules, RobotPlan, validatePlans } from "./robot-plan";
+import { MAX_TOOL_ROUNDS, PlanningToolbox } from "./planning-tools";
+
 export interface LLMProvider {
-  generateTasks(prompt: string, environment: any, model: string): Promise<RobotTasks>;
+  // With a toolbox the model may call planning tools before it answers; baselines ignore it
+  generateTasks(prompt: string, environment: any, model: string, tools?: PlanningToolbox): Promise<RobotTasks>;
+  // How long the last call took, when the provider knows better than a clock around the call
+  // (replayed fixtures report the recorded latency)
+  lastLatencyMs?: number;
 }
 
 export interface RobotTasks {
-  R1?: string;
-  R2?: string;
-  R3?: string;
-  R4?: string;
+  [robotId: string]: RobotPlan | undefined; // One plan per robot in the fleet
+}
+
+/**
+ * Models on the local OpenAI-compatible server are selected as "local:<model id>"
+ */
+export const LOCAL_MODEL_PREFIX = "local:";
+
+/**
+ * "6 robots (R1, R2, ...)" for prompt text
+ */
+function describeFleet(robotIds: string[]): string {
+  return `${robotIds.length} robots (${robotIds.join(", ")})`;
+}
+
+/**
+ * One line per robot with its type, capabilities, payload and speed
+ */
+function describeFleetTypes(environment: FleetSource): string {
+  return Object.entries(getFleetTypes(environment))
+    .map(([robotId, type]) => `- ${robotId}: ${describeRobotType(type)}`)
+    .join("\n");
+}
+
+/**
+ * Plan schema skeleton plus field rules; in hybrid planning mode actions carry no paths and
+ * the path planner adds them
+ */
+function responseFormat(robotIds: string[], environment: { planningMode?: PlanningMode }): string {
+  const withPaths = environment.planningMode !== "hybrid";
+  return `${planResponseTemplate(robotIds, withPaths)}\n\n${planSchemaRules(withPaths)}`;
+}
+
+/**
+ * Output tokens to request; every robot's task carries its own path
+ */
+function outputTokenBudget(robotIds: string[], minimum: number): number {
+  return Math.max(minimum, robotIds.length * 500);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Validate task structure - at least 2 robots (or the whole fleet, if smaller) must
+ * have a plan that does more than wait. Some scenarios only need a few robots, so gaps only warn.
+ * Throws an InvalidPlanError, so the workflow can ask for a repaired plan.
+ */
+function validateTaskCoverage(tasks: RobotTasks, robotIds: string[]): void {
+  const taskCount = robotIds
+    .map(robotId => tasks[robotId])
+    .filter(plan => plan && plan.actions.some(action => action.type !== "wait")).length;
+  const required = Math.min(2, robotIds.length);
+
+  if (taskCount < required) {
+    console.error("Invalid task structure - not enough robots assigned:", tasks);
+    throw new InvalidPlanError(`Invalid task structure: Only ${taskCount} out of ${robotIds.length} robots received tasks. At least ${required} robots must be assigned tasks.`, tasks);
+  }
+
+  // Warn if not every robot has a task, but don't fail
+  if (taskCount < robotIds.length) {
+    console.warn(`Warning: Only ${taskCount} out of ${robotIds.length} robots received tasks. Consider assigning tasks to all robots.`);
+  }
+}
+
+// Payload shapes the tool-calling loops read and send back
+interface ChatMessage {
+  role: string;
+  content: string | null;
+  tool_calls?: Array<{ id: string; type: "function"; function: { name: string; arguments: string } }>; // Arguments as a JSON string
+  tool_call_id?: string;
+}
+
+interface AnthropicContentBlock {
+  type: string; // "text", "tool_use", "tool_result"
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: unknown;
+}
+
+interface GeminiPart {
+  text?: string;
+  functionCall?: { name: string; args?: unknown };
+  functionResponse?: { name: string; response: unknown };
+}
+
+interface GeminiContent {
+  role?: string;
+  parts: GeminiPart[];
+}
+
+interface GeminiRequest {
+  contents: GeminiContent[];
+  generationConfig: { [option: string]: unknown };
+  [field: string]: unknown; // tools, toolConfig
+}
+
+/**
+ * POST an OpenAI-compatible chat completion (OpenAI, xAI). With a toolbox, answer the
+ * model's function calls until it replies without any or runs out of tool rounds, then
+ * return the final message.
+ */
+async function chatCompletion(
+  url: string,
+  apiKey: string,
+  body: { messages: ChatMessage[]; [option: string]: unknown },
+  tools: PlanningToolbox | undefined,
+  apiError: (errorMessage: string) => Error
+): Promise<ChatMessage | undefined> {
+  const messages = [...body.messages];
+  for (let round = 1; ; round++) {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { "Authorization": `Bearer ${apiKey}` } : {}), // Local servers may need no key
+      },
+      body: JSON.stringify({
+        ...body,
+        messages,
+        ...(tools
+          ? {
+              tools: tools.definitions.map(({ name, description, parameters }) => ({ type: "function", function: { name, description, parameters } })),
+              tool_choice: round > MAX_TOOL_ROUNDS ? "none" : "auto",
+            }
+          : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw apiError(error.error?.message || `HTTP ${response.status}`);
+    }
+
+    const data = await response.json();
+    const message: ChatMessage | undefined = data.choices[0]?.message;
+    const calls = message?.tool_calls || [];
+    if (!message || !tools || round > MAX_TOOL_ROUNDS || calls.length === 0) {
+      return message;
+    }
+
+    messages.push(message);
+    for (const call of calls) {
+      const result = tools.call(call.function.name, call.function.arguments, round);
+      messages.push({ role: "tool", tool_call_id: call.id, content: JSON.stringify(result.output) });
+    }
+  }
 }
 
 export class AnthropicProvider implements LLMProvider {
@@ -21,19 +179,18 @@ export class AnthropicProvider implements LLMProvider {
     this.apiKey = apiKey;
   }
 
-  async generateTasks(prompt: string, environment: any, model: string): Promise<RobotTasks> {
-    const systemPrompt = `You are a robot orchestration system. Given a user prompt and environment data, you must divide the overall task among 4 robots (R1, R2, R3, R4) to accomplish it together.
+  async generateTasks(prompt: string, environment: any, model: string, tools?: PlanningToolbox): Promise<RobotTasks> {
+    const robotIds = getRobotIds(environment);
+    const systemPrompt = `You are a robot orchestration system. Given a user prompt and environment data, you must divide the overall task among ${describeFleet(robotIds)} to accomplish it together.
+
+CRITICAL REQUIREMENT: ALL ${robotIds.length} ROBOTS MUST receive tasks. Do NOT leave any robot idle or without a task assignment.
 
-CRITICAL REQUIREMENT: ALL 4 ROBOTS MUST receive tasks. Do NOT leave any robot idle or without a task assignment.
+Robot types (capabilities, max payload, speed, battery capacity):
+${describeFleetTypes(environment)}
 
-All robots have the SAME capabilities:
-- Path planning and route optimization
-- Obstacle avoidance and navigation
-- Object grasping and manipulation
-- Environmental sensing and data collection
-- Inter-robot coordination and communication
+Only assign a task to a robot whose type has the capabilities and payload the task needs.
 
-Your job is to intelligently divide the overall task into subtasks that can be executed in parallel by the 4 robots to achieve the goal efficiently.
+Your job is to intelligently divide the overall task into subtasks that can be executed in parallel by the ${robotIds.length} robots to achieve the goal efficiently.
 
 FULL SCENARIO DATA (Complete JavaScript Object as JSON):
 ${JSON.stringify(environment.scenario || environment, null, 2)}
@@ -48,54 +205,71 @@ User Request:
 ${prompt}
 
 TASK DISTRIBUTION RULES:
-1. ALL 4 robots (R1, R2, R3, R4) MUST be assigned tasks
+1. ALL ${describeFleet(robotIds)} MUST be assigned tasks
 2. Divide tasks based on proximity: assign each robot to the task closest to their starting position
 3. If there are fewer tasks than robots, assign supporting roles (coordination, monitoring, backup, inspection) to remaining robots
 4. Do NOT assign all tasks to one robot - distribute the work
-5. Each robot's task should:
-   - Be clear and actionable (not "remain idle")
-   - Include destination coordinates if movement is needed
-   - Include a path as an array of [row, col] coordinates: path: [[row, col], [row, col], ...]
-   - Specify actions: pickup, dropoff, charge, navigate, inspect, coordinate, monitor, etc.
+5. Each robot's plan should:
+   - Be clear and actionable (not only "wait")
+   - Be an ordered list of actions: navigate, pick, drop, charge or wait
+   - Name each action's target location and the task IDs it serves
    - Consider the robot's current position and battery level
 
 Return ONLY valid JSON in this exact format with no additional text or markdown:
-{
-  "R1": "task description with path: [[row, col], ...]",
-  "R2": "task description with path: [[row, col], ...]",
-  "R3": "task description with path: [[row, col], ...]",
-  "R4": "task description with path: [[row, col], ...]"
-}
-
-Remember: ALL 4 robots must have non-empty task descriptions.`;
-
-    const response = await fetch("https://api.anthropic.com/v1/messages", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "x-api-key": this.apiKey,
-        "anthropic-version": "2023-06-01",
-      },
-      body: JSON.stringify({
-        model,
-        max_tokens: 2000,
-        messages: [{ role: "user", content: systemPrompt }],
-      }),
-    });
+${responseFormat(robotIds, environment)}
+
+Remember: ALL ${robotIds.length} robots must have non-empty action lists.`;
+
+    // Tool calls and their results go back and forth until the model answers with the plan
+    const messages: Array<{ role: string; content: string | AnthropicContentBlock[] }> = [{ role: "user", content: systemPrompt }];
+    let data: { content: AnthropicContentBlock[] };
+    for (let round = 1; ; round++) {
+      const response = await fetch("https://api.anthropic.com/v1/messages", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": this.apiKey,
+          "anthropic-version": "2023-06-01",
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: outputTokenBudget(robotIds, 2000),
+          messages,
+          ...(tools
+            ? {
+                tools: tools.definitions.map(({ name, description, parameters }) => ({ name, description, input_schema: parameters })),
+                tool_choice: { type: round > MAX_TOOL_ROUNDS ? "none" : "auto" },
+              }
+            : {}),
+        }),
+      });
 
-    if (!response.ok) {
-      const error = await response.json();
-      const errorMessage = error.error?.message || "Unknown error";
-      
-      // Provide helpful messages for common errors
-      if (errorMessage.includes("quota") || errorMessage.includes("billing")) {
-        throw new Error(`Anthropic quota exceeded. Please check your billing or try using OpenAI GPT or Grok models instead. Original error: ${errorMessage}`);
+      if (!response.ok) {
+        const error = await response.json();
+        const errorMessage = error.error?.message || "Unknown error";
+        
+        // Provide helpful messages for common errors
+        if (errorMessage.includes("quota") || errorMessage.includes("billing")) {
+          throw new Error(`Anthropic quota exceeded. Please check your billing or try using OpenAI GPT or Grok models instead. Original error: ${errorMessage}`);
+        }
+        
+        throw new Error(`Anthropic API error: ${errorMessage}`);
       }
-      
-      throw new Error(`Anthropic API error: ${errorMessage}`);
+
+      data = await response.json();
+      const calls = data.content.filter(c => c.type === "tool_use");
+      if (!tools || round > MAX_TOOL_ROUNDS || calls.length === 0) break;
+
+      messages.push({ role: "assistant", content: data.content });
+      messages.push({
+        role: "user",
+        content: calls.map(call => {
+          const result = tools.call(call.name || "", call.input, round);
+          return { type: "tool_result", tool_use_id: call.id, content: JSON.stringify(result.output), is_error: result.isError };
+        }),
+      });
     }
 
-    const data = await response.json();
     const text = data.content.find((c: any) => c.type === "text")?.text;
     
     if (!text) {
@@ -113,21 +287,10 @@ Remember: ALL 4 robots must have non-empty task descriptions.`;
       throw new Error(`Failed to parse LLM response as JSON: ${parseError instanceof Error ? parseError.message : "Unknown error"}`);
     }
 
-    // Validate task structure - at least 2 out of 4 robots should have meaningful tasks
-    // (Some scenarios may only need 2-3 robots, but we want at least 2 to be active)
-    const taskCount = [tasks.R1, tasks.R2, tasks.R3, tasks.R4].filter(t => t && t.trim().length > 0 && !t.toLowerCase().includes("remain idle") && !t.toLowerCase().includes("not assigned")).length;
-    
-    if (taskCount < 2) {
-      console.error("Invalid task structure - not enough robots assigned:", tasks);
-      throw new Error(`Invalid task structure: Only ${taskCount} out of 4 robots received tasks. At least 2 robots must be assigned tasks.`);
-    }
-    
-    // Warn if less than 4 robots have tasks, but don't fail
-    if (taskCount < 4) {
-      console.warn(`Warning: Only ${taskCount} out of 4 robots received tasks. Consider assigning tasks to all robots.`);
-    }
+    const plans = validatePlans(tasks, robotIds);
+    validateTaskCoverage(plans, robotIds);
 
-    return tasks as RobotTasks;
+    return plans;
   }
 }
 
@@ -138,65 +301,55 @@ export class OpenAIProvider implements LLMProvider {
     this.apiKey = apiKey;
   }
 
-  async generateTasks(prompt: string, environment: any, model: string): Promise<RobotTasks> {
-    const systemPrompt = `You are a robot orchestration system. Given a user prompt and environment data, you must divide the overall task among 4 robots (R1, R2, R3, R4) to accomplish it together.
+  async generateTasks(prompt: string, environment: any, model: string, tools?: PlanningToolbox): Promise<RobotTasks> {
+    const robotIds = getRobotIds(environment);
+    const systemPrompt = `You are a robot orchestration system. Given a user prompt and environment data, you must divide the overall task among ${describeFleet(robotIds)} to accomplish it together.
 
-CRITICAL REQUIREMENT: ALL 4 ROBOTS MUST receive tasks. Do NOT leave any robot idle or without a task assignment.
+CRITICAL REQUIREMENT: ALL ${robotIds.length} ROBOTS MUST receive tasks. Do NOT leave any robot idle or without a task assignment.
 
-All robots have the SAME capabilities:
-- Path planning and route optimization
-- Obstacle avoidance and navigation
-- Object grasping and manipulation
-- Environmental sensing and data collection
-- Inter-robot coordination and communication
+Robot types (capabilities, max payload, speed, battery capacity):
+${describeFleetTypes(environment)}
 
-Your job is to intelligently divide the overall task into subtasks that can be executed in parallel by the 4 robots to achieve the goal efficiently.
+Only assign a task to a robot whose type has the capabilities and payload the task needs.
+
+Your job is to intelligently divide the overall task into subtasks that can be executed in parallel by the ${robotIds.length} robots to achieve the goal efficiently.
 
 TASK DISTRIBUTION RULES:
-1. ALL 4 robots (R1, R2, R3, R4) MUST be assigned tasks
+1. ALL ${describeFleet(robotIds)} MUST be assigned tasks
 2. Divide tasks based on proximity: assign each robot to the task closest to their starting position
 3. If there are fewer tasks than robots, assign supporting roles (coordination, monitoring, backup, inspection) to remaining robots
 4. Do NOT assign all tasks to one robot - distribute the work
 
-Generate a specific, actionable task for each robot based on the user request and environment. Each task should be clear, executable, and include paths as arrays of [row, col] coordinates.
+Generate a specific, actionable plan for each robot based on the user request and environment: an ordered list of actions (navigate, pick, drop, charge, wait) in the JSON format requested below.
 
 Always respond with valid JSON only, no markdown formatting.`;
 
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${this.apiKey}`,
-      },
-      body: JSON.stringify({
+    const message = await chatCompletion(
+      "https://api.openai.com/v1/chat/completions",
+      this.apiKey,
+      {
         model,
         messages: [
           { role: "system", content: systemPrompt },
           {
             role: "user",
-            content: `FULL SCENARIO DATA (Complete JavaScript Object as JSON):\n${JSON.stringify(environment.scenario || environment, null, 2)}\n\nEnvironment Grid:\n${JSON.stringify(environment.environmentMatrix || [], null, 2)}\n\nRobot Current Positions:\n${JSON.stringify(environment.robotStatuses || {}, null, 2)}\n\nUser Request:\n${prompt}\n\nReturn ONLY valid JSON:\n{\n  "R1": "task description with path: [[row, col], ...]",\n  "R2": "task description with path: [[row, col], ...]",\n  "R3": "task description with path: [[row, col], ...]",\n  "R4": "task description with path: [[row, col], ...]"\n}`,
+            content: `FULL SCENARIO DATA (Complete JavaScript Object as JSON):\n${JSON.stringify(environment.scenario || environment, null, 2)}\n\nEnvironment Grid:\n${JSON.stringify(environment.environmentMatrix || [], null, 2)}\n\nRobot Current Positions:\n${JSON.stringify(environment.robotStatuses || {}, null, 2)}\n\nUser Request:\n${prompt}\n\nReturn ONLY valid JSON:\n${responseFormat(robotIds, environment)}`,
           },
         ],
         response_format: { type: "json_object" },
         temperature: 0.7,
-        max_tokens: 2000,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      const errorMessage = error.error?.message || "Unknown error";
-      
-      // Provide helpful messages for common errors
-      if (errorMessage.includes("quota") || errorMessage.includes("billing")) {
-        throw new Error(`OpenAI quota exceeded. Please check your billing or try using Anthropic Claude or Grok models instead. Original error: ${errorMessage}`);
+        max_tokens: outputTokenBudget(robotIds, 2000),
+      },
+      tools,
+      errorMessage => {
+        // Provide helpful messages for common errors
+        if (errorMessage.includes("quota") || errorMessage.includes("billing")) {
+          return new Error(`OpenAI quota exceeded. Please check your billing or try using Anthropic Claude or Grok models instead. Original error: ${errorMessage}`);
+        }
+        return new Error(`OpenAI API error: ${errorMessage}`);
       }
-      
-      throw new Error(`OpenAI API error: ${errorMessage}`);
-    }
-
-    const data = await response.json();
-    const content = data.choices[0]?.message?.content;
+    );
+    const content = message?.content;
 
     if (!content) {
       throw new Error("No content in response");
@@ -213,21 +366,10 @@ Always respond with valid JSON only, no markdown formatting.`;
       throw new Error(`Failed to parse LLM response as JSON: ${parseError instanceof Error ? parseError.message : "Unknown error"}`);
     }
 
-    // Validate task structure - at least 2 out of 4 robots should have meaningful tasks
-    // (Some scenarios may only need 2-3 robots, but we want at least 2 to be active)
-    const taskCount = [tasks.R1, tasks.R2, tasks.R3, tasks.R4].filter(t => t && t.trim().length > 0 && !t.toLowerCase().includes("remain idle") && !t.toLowerCase().includes("not assigned")).length;
-    
-    if (taskCount < 2) {
-      console.error("Invalid task structure - not enough robots assigned:", tasks);
-      throw new Error(`Invalid task structure: Only ${taskCount} out of 4 robots received tasks. At least 2 robots must be assigned tasks.`);
-    }
-    
-    // Warn if less than 4 robots have tasks, but don't fail
-    if (taskCount < 4) {
-      console.warn(`Warning: Only ${taskCount} out of 4 robots received tasks. Consider assigning tasks to all robots.`);
-    }
+    const plans = validatePlans(tasks, robotIds);
+    validateTaskCoverage(plans, robotIds);
 
-    return tasks as RobotTasks;
+    return plans;
   }
 }
 
@@ -238,64 +380,54 @@ export class GrokProvider implements LLMProvider {
     this.apiKey = apiKey;
   }
 
-  async generateTasks(prompt: string, environment: any, model: string): Promise<RobotTasks> {
-    const systemPrompt = `You are a robot orchestration system. Given a user prompt and environment data, you must divide the overall task among 4 robots (R1, R2, R3, R4) to accomplish it together.
+  async generateTasks(prompt: string, environment: any, model: string, tools?: PlanningToolbox): Promise<RobotTasks> {
+    const robotIds = getRobotIds(environment);
+    const systemPrompt = `You are a robot orchestration system. Given a user prompt and environment data, you must divide the overall task among ${describeFleet(robotIds)} to accomplish it together.
+
+CRITICAL REQUIREMENT: ALL ${robotIds.length} ROBOTS MUST receive tasks. Do NOT leave any robot idle or without a task assignment.
 
-CRITICAL REQUIREMENT: ALL 4 ROBOTS MUST receive tasks. Do NOT leave any robot idle or without a task assignment.
+Robot types (capabilities, max payload, speed, battery capacity):
+${describeFleetTypes(environment)}
 
-All robots have the SAME capabilities:
-- Path planning and route optimization
-- Obstacle avoidance and navigation
-- Object grasping and manipulation
-- Environmental sensing and data collection
-- Inter-robot coordination and communication
+Only assign a task to a robot whose type has the capabilities and payload the task needs.
 
-Your job is to intelligently divide the overall task into subtasks that can be executed in parallel by the 4 robots to achieve the goal efficiently.
+Your job is to intelligently divide the overall task into subtasks that can be executed in parallel by the ${robotIds.length} robots to achieve the goal efficiently.
 
 TASK DISTRIBUTION RULES:
-1. ALL 4 robots (R1, R2, R3, R4) MUST be assigned tasks
+1. ALL ${describeFleet(robotIds)} MUST be assigned tasks
 2. Divide tasks based on proximity: assign each robot to the task closest to their starting position
 3. If there are fewer tasks than robots, assign supporting roles (coordination, monitoring, backup, inspection) to remaining robots
 4. Do NOT assign all tasks to one robot - distribute the work
 
-Generate a specific, actionable task for each robot based on the user request and environment. Each task should be clear, executable, and include paths as arrays of [row, col] coordinates.
+Generate a specific, actionable plan for each robot based on the user request and environment: an ordered list of actions (navigate, pick, drop, charge, wait) in the JSON format requested below.
 
 Always respond with valid JSON only, no markdown formatting.`;
 
-    const response = await fetch("https://api.x.ai/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${this.apiKey}`,
-      },
-      body: JSON.stringify({
+    const message = await chatCompletion(
+      "https://api.x.ai/v1/chat/completions",
+      this.apiKey,
+      {
         model,
         messages: [
           { role: "system", content: systemPrompt },
           {
             role: "user",
-            content: `FULL SCENARIO DATA (Complete JavaScript Object as JSON):\n${JSON.stringify(environment.scenario || environment, null, 2)}\n\nEnvironment Grid:\n${JSON.stringify(environment.environmentMatrix || [], null, 2)}\n\nRobot Current Positions:\n${JSON.stringify(environment.robotStatuses || {}, null, 2)}\n\nUser Request:\n${prompt}\n\nReturn ONLY valid JSON:\n{\n  "R1": "task description with path: [[row, col], ...]",\n  "R2": "task description with path: [[row, col], ...]",\n  "R3": "task description with path: [[row, col], ...]",\n  "R4": "task description with path: [[row, col], ...]"\n}`,
+            content: `FULL SCENARIO DATA (Complete JavaScript Object as JSON):\n${JSON.stringify(environment.scenario || environment, null, 2)}\n\nEnvironment Grid:\n${JSON.stringify(environment.environmentMatrix || [], null, 2)}\n\nRobot Current Positions:\n${JSON.stringify(environment.robotStatuses || {}, null, 2)}\n\nUser Request:\n${prompt}\n\nReturn ONLY valid JSON:\n${responseFormat(robotIds, environment)}`,
           },
         ],
         temperature: 0.7,
-        max_tokens: 2000,
-      }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json();
-      const errorMessage = error.error?.message || "Unknown error";
-      
-      // Provide helpful messages for common errors
-      if (errorMessage.includes("quota") || errorMessage.includes("billing")) {
-        throw new Error(`Grok quota exceeded. Please check your billing or try using Anthropic Claude or OpenAI GPT models instead. Original error: ${errorMessage}`);
+        max_tokens: outputTokenBudget(robotIds, 2000),
+      },
+      tools,
+      errorMessage => {
+        // Provide helpful messages for common errors
+        if (errorMessage.includes("quota") || errorMessage.includes("billing")) {
+          return new Error(`Grok quota exceeded. Please check your billing or try using Anthropic Claude or OpenAI GPT models instead. Original error: ${errorMessage}`);
+        }
+        return new Error(`Grok API error: ${errorMessage}`);
       }
-      
-      throw new Error(`Grok API error: ${errorMessage}`);
-    }
-
-    const data = await response.json();
-    const content = data.choices[0]?.message?.content;
+    );
+    const content = message?.content;
 
     if (!content) {
       throw new Error("No content in response");
@@ -312,21 +444,10 @@ Always respond with valid JSON only, no markdown formatting.`;
       throw new Error(`Failed to parse LLM response as JSON: ${parseError instanceof Error ? parseError.message : "Unknown error"}`);
     }
 
-    // Validate task structure - at least 2 out of 4 robots should have meaningful tasks
-    // (Some scenarios may only need 2-3 robots, but we want at least 2 to be active)
-    const taskCount = [tasks.R1, tasks.R2, tasks.R3, tasks.R4].filter(t => t && t.trim().length > 0 && !t.toLowerCase().includes("remain idle") && !t.toLowerCase().includes("not assigned")).length;
-    
-    if (taskCount < 2) {
-      console.error("Invalid task structure - not enough robots assigned:", tasks);
-      throw new Error(`Invalid task structure: Only ${taskCount} out of 4 robots received tasks. At least 2 robots must be assigned tasks.`);
-    }
-    
-    // Warn if less than 4 robots have tasks, but don't fail
-    if (taskCount < 4) {
-      console.warn(`Warning: Only ${taskCount} out of 4 robots received tasks. Consider assigning tasks to all robots.`);
-    }
+    const plans = validatePlans(tasks, robotIds);
+    validateTaskCoverage(plans, robotIds);
 
-    return tasks as RobotTasks;
+    return plans;
   }
 }
 
@@ -361,24 +482,25 @@ export class GeminiProvider implements LLMProvider {
     return ['gemini-1.5-flash', 'gemini-1.5-pro', 'gemini-pro'];
   }
 
-  async generateTasks(prompt: string, environment: any, model: string): Promise<RobotTasks> {
-    const systemPrompt = `You are a robot orchestration system. Divide tasks among 4 robots (R1, R2, R3, R4) with identical capabilities.
+  async generateTasks(prompt: string, environment: any, model: string, tools?: PlanningToolbox): Promise<RobotTasks> {
+    const robotIds = getRobotIds(environment);
+    const systemPrompt = `You are a robot orchestration system. Divide tasks among ${describeFleet(robotIds)}.
+
+Robot types (capabilities, max payload, speed, battery capacity):
+${describeFleetTypes(environment)}
 
-CRITICAL: ALL 4 ROBOTS MUST receive tasks. If fewer than 4 primary tasks exist, assign supporting roles (monitoring, coordination, standby) to remaining robots.
+Only assign a task to a robot whose type has the capabilities and payload the task needs.
+
+CRITICAL: ALL ${robotIds.length} ROBOTS MUST receive tasks. If fewer than ${robotIds.length} primary tasks exist, assign supporting roles (monitoring, coordination, standby) to remaining robots.
 
 IMPORTANT: Keep paths SHORT - use only key waypoints (start, major turns, destination). Maximum 10-15 waypoints per path. Do NOT list every single cell.
 
 Response format (JSON only, no markdown):
-{
-  "R1": "task description. Path: [[row,col], [row,col], ...]",
-  "R2": "task description. Path: [[row,col], [row,col], ...]",
-  "R3": "task description. Path: [[row,col], [row,col], ...]",
-  "R4": "task description. Path: [[row,col], [row,col], ...]"
-}
+${responseFormat(robotIds, environment)}
 
-Keep descriptions concise. Use short paths with key waypoints only.`;
+Keep rationales concise. Use short paths with key waypoints only.`;
 
-    const userContent = `FULL SCENARIO DATA (Complete JavaScript Object as JSON):\n${JSON.stringify(environment.scenario || environment, null, 2)}\n\nEnvironment Grid:\n${JSON.stringify(environment.environmentMatrix || [], null, 2)}\n\nRobot Current Positions:\n${JSON.stringify(environment.robotStatuses || {}, null, 2)}\n\nUser Request:\n${prompt}\n\nReturn ONLY valid JSON:\n{\n  "R1": "task description with path: [[row, col], ...]",\n  "R2": "task description with path: [[row, col], ...]",\n  "R3": "task description with path: [[row, col], ...]",\n  "R4": "task description with path: [[row, col], ...]"\n}`;
+    const userContent = `FULL SCENARIO DATA (Complete JavaScript Object as JSON):\n${JSON.stringify(environment.scenario || environment, null, 2)}\n\nEnvironment Grid:\n${JSON.stringify(environment.environmentMatrix || [], null, 2)}\n\nRobot Current Positions:\n${JSON.stringify(environment.robotStatuses || {}, null, 2)}\n\nUser Request:\n${prompt}\n\nReturn ONLY valid JSON:\n${responseFormat(robotIds, environment)}`;
 
     // Get available models and find a working one
     const availableModels = await this.getAvailableModels();
@@ -395,124 +517,39 @@ Keep descriptions concise. Use short paths with key waypoints only.`;
     // Find the first model that's available
     const apiModelName = modelsToTry.find(m => availableModels.includes(m)) || availableModels[0] || 'gemini-1.5-flash';
 
-    // Retry logic for transient errors (503, 429, 500, etc.)
-    const maxRetries = 3;
-    const retryableStatuses = [503, 429, 500, 502, 504];
-    let lastError: Error | null = null;
-    let successfulResponse: Response | null = null;
-    
-    for (let attempt = 0; attempt <= maxRetries; attempt++) {
-      try {
-        // Try v1beta API first (supports JSON mode)
-        let response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${apiModelName}:generateContent?key=${this.apiKey}`, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            contents: [
-              {
-                parts: [
-                  { text: `${systemPrompt}\n\n${userContent}` }
-                ]
-              }
-            ],
-            generationConfig: {
-              temperature: 0.7,
-              maxOutputTokens: 16000, // Increased to handle all 4 robots with paths
-              responseMimeType: "application/json",
-            },
-          }),
-        });
-
-        // If v1beta fails with model not found, try v1 API
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          const errorMessage = errorData.error?.message || "";
-          
-          if (errorMessage.includes("not found") || response.status === 404) {
-            // Try v1 API (without responseMimeType)
-            response = await fetch(`https://generativelanguage.googleapis.com/v1/models/${apiModelName}:generateContent?key=${this.apiKey}`, {
-              method: "POST",
-              headers: {
-                "Content-Type": "application/json",
-              },
-              body: JSON.stringify({
-                contents: [
-                  {
-                    parts: [
-                      { text: `${systemPrompt}\n\n${userContent}` }
-                    ]
-                  }
-                ],
-                generationConfig: {
-                  temperature: 0.7,
-                  maxOutputTokens: 16000, // Increased to handle all 4 robots with paths
-                },
-              }),
-            });
-          }
-        }
+    // Function calls and their responses go back and forth until the model answers with the plan
+    const contents: GeminiContent[] = [{ role: "user", parts: [{ text: `${systemPrompt}\n\n${userContent}` }] }];
+    let parts: GeminiPart[];
+    for (let round = 1; ; round++) {
+      const data = await this.generateContent(apiModelName, {
+        contents,
+        generationConfig: {
+          temperature: 0.7,
+          maxOutputTokens: outputTokenBudget(robotIds, 16000), // Room for every robot's path
+          ...(tools ? {} : { responseMimeType: "application/json" }), // JSON mode can't be combined with function calling
+        },
+        ...(tools
+          ? {
+              tools: [{ functionDeclarations: tools.definitions }],
+              toolConfig: { functionCallingConfig: { mode: round > MAX_TOOL_ROUNDS ? "NONE" : "AUTO" } },
+            }
+          : {}),
+      });
 
-        // Check if response is successful
-        if (response.ok) {
-          // Store successful response and break out of retry loop
-          successfulResponse = response;
-          break;
-        }
+      parts = data.candidates?.[0]?.content?.parts || [];
+      const calls = parts.flatMap(part => (part.functionCall ? [part.functionCall] : []));
+      if (!tools || round > MAX_TOOL_ROUNDS || calls.length === 0) break;
 
-        // Handle error response - only retry on specific status codes
-        const error = await response.json().catch(() => ({ error: { message: `HTTP ${response.status}: ${response.statusText}` } }));
-        const errorMessage = error.error?.message || `HTTP ${response.status}: ${response.statusText}`;
-        
-        // Check if this is a retryable error
-        if (retryableStatuses.includes(response.status) && attempt < maxRetries) {
-          const delay = Math.pow(2, attempt) * 1000; // Exponential backoff: 1s, 2s, 4s
-          console.warn(`Gemini API returned ${response.status} (${errorMessage}). Retrying in ${delay}ms... (attempt ${attempt + 1}/${maxRetries + 1})`);
-          await new Promise(resolve => setTimeout(resolve, delay));
-          lastError = new Error(`Gemini API error: ${errorMessage}`);
-          continue; // Retry
-        }
-        
-        // Non-retryable error or max retries reached
-        if (errorMessage.includes("quota") || errorMessage.includes("billing") || errorMessage.includes("API_KEY_INVALID")) {
-          throw new Error(`Gemini API error: ${errorMessage}. Please check your API key at https://aistudio.google.com/apikey`);
-        }
-        
-        throw new Error(`Gemini API error: ${errorMessage}`);
-      } catch (error) {
-        // Check if this is a retryable network/API error
-        const isRetryable = error instanceof Error && (
-          error.message.includes("503") || 
-          error.message.includes("429") || 
-          error.message.includes("500") ||
-          error.message.includes("502") ||
-          error.message.includes("504") ||
-          error.message.includes("Service Unavailable")
-        );
-        
-        // If it's the last attempt or a non-retryable error, throw
-        if (attempt === maxRetries || !isRetryable) {
-          throw error;
-        }
-        lastError = error as Error;
-        const delay = Math.pow(2, attempt) * 1000;
-        console.warn(`Request failed: ${error instanceof Error ? error.message : 'Unknown error'}. Retrying in ${delay}ms... (attempt ${attempt + 1}/${maxRetries + 1})`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-      }
-    }
-    
-    // If we get here, all retries failed
-    if (lastError) {
-      throw lastError;
-    }
-    if (!successfulResponse) {
-      throw new Error("Gemini API request failed after all retries");
+      contents.push({ role: "model", parts });
+      contents.push({
+        role: "user",
+        parts: calls.map(call => ({
+          functionResponse: { name: call.name, response: tools.call(call.name, call.args, round).output },
+        })),
+      });
     }
-    
-    // Parse the successful response
-    const data = await successfulResponse.json();
-    const content = data.candidates?.[0]?.content?.parts?.[0]?.text;
+
+    const content = parts.find(part => typeof part.text === "string")?.text;
 
     if (!content) {
       throw new Error("No content in response");
@@ -543,6 +580,9 @@ Keep descriptions concise. Use short paths with key waypoints only.`;
     cleaned = cleaned.replace(/(["}])\s*[\n\r]+\s*"/g, '$1, "');
     cleaned = cleaned.replace(/(["}])\s*[\n\r]+\s*}/g, '$1}');
 
+    // A quote followed by one of the fleet's keys (e.g. "R2":) closes the previous value
+    const robotKeyPattern = new RegExp(`^"(${robotIds.map(escapeRegExp).join("|")})"\\s*:`);
+
     // CRITICAL: Fix unescaped quotes within string values BEFORE first JSON.parse attempt
     // Use a character-by-character state machine that properly tracks string boundaries
     let fixedJson = '';
@@ -601,7 +641,7 @@ Keep descriptions concise. Use short paths with key waypoints only.`;
             j >= cleaned.length ||
             nextChar === '\n' ||
             nextChar === '\r' ||
-            lookAhead.match(/^"[R1-R4]\s*:/) || // Pattern: "R2": indicates next key
+            lookAhead.match(robotKeyPattern) || // Pattern: "R2": indicates next key
             lookAhead.match(/^"\s*[,}\]\n\r]/); // Pattern: ", or "} indicates end
           
           // If next char is a letter, digit, or other content (not structural JSON), it's an unescaped quote
@@ -715,7 +755,7 @@ Keep descriptions concise. Use short paths with key waypoints only.`;
             nextChar === '}' || 
             nextChar === ']' || 
             j >= fixedJson.length ||
-            lookAhead.match(/^"[R1-R4]\s*:/) || // Pattern: "R2": indicates next key
+            lookAhead.match(robotKeyPattern) || // Pattern: "R2": indicates next key
             lookAhead.match(/^"\s*[,}\]\n\r]/); // Pattern: ", or "} indicates end
           
           if (closesString) {
@@ -800,27 +840,24 @@ Keep descriptions concise. Use short paths with key waypoints only.`;
         console.error("Cleaned content (first 500 chars):", cleaned.substring(0, 500));
         console.error("Full cleaned content length:", cleaned.length);
         
-        // Last resort: try to extract task values using regex for R1/R2/R3/R4
+        // Last resort: try to extract task values using regex for each robot ID
         // Handle both complete and incomplete (truncated) responses
         try {
           // Try to extract complete tasks first
-          const r1Match = cleaned.match(/"R1"\s*:\s*"((?:[^"\\]|\\.)*)"/);
-          const r2Match = cleaned.match(/"R2"\s*:\s*"((?:[^"\\]|\\.)*)"/);
-          const r3Match = cleaned.match(/"R3"\s*:\s*"((?:[^"\\]|\\.)*)"/);
-          const r4Match = cleaned.match(/"R4"\s*:\s*"((?:[^"\\]|\\.)*)"/);
-          
+          const matches = robotIds.map(robotId =>
+            cleaned.match(new RegExp(`"${escapeRegExp(robotId)}"\\s*:\\s*"((?:[^"\\\\]|\\\\.)*)"`))
+          );
+
           // If we have matches, use them
-          if (r1Match || r2Match || r3Match || r4Match) {
-            tasks = {
-              R1: r1Match ? r1Match[1].replace(/\\"/g, '"').replace(/\\n/g, '\n') : "",
-              R2: r2Match ? r2Match[1].replace(/\\"/g, '"').replace(/\\n/g, '\n') : "",
-              R3: r3Match ? r3Match[1].replace(/\\"/g, '"').replace(/\\n/g, '\n') : "",
-              R4: r4Match ? r4Match[1].replace(/\\"/g, '"').replace(/\\n/g, '\n') : "",
-            };
+          if (matches.some(match => match)) {
+            tasks = Object.fromEntries(robotIds.map((robotId, index) => {
+              const match = matches[index];
+              return [robotId, match ? match[1].replace(/\\"/g, '"').replace(/\\n/g, '\n') : ""];
+            }));
           } else {
             // Try to extract incomplete tasks (response was truncated)
             const extractIncompleteTask = (robotId: string): string => {
-              const robotPattern = new RegExp(`"${robotId}"\\s*:\\s*"([^"]*)`, 'i');
+              const robotPattern = new RegExp(`"${escapeRegExp(robotId)}"\\s*:\\s*"([^"]*)`, 'i');
               const match = cleaned.match(robotPattern);
               if (match) {
                 return match[1] || "";
@@ -828,18 +865,10 @@ Keep descriptions concise. Use short paths with key waypoints only.`;
               return "";
             };
             
-            const r1Task = extractIncompleteTask("R1");
-            const r2Task = extractIncompleteTask("R2");
-            const r3Task = extractIncompleteTask("R3");
-            const r4Task = extractIncompleteTask("R4");
-            
-            if (r1Task || r2Task || r3Task || r4Task) {
-              tasks = {
-                R1: r1Task || "",
-                R2: r2Task || "",
-                R3: r3Task || "",
-                R4: r4Task || "",
-              };
+            const partialTasks = robotIds.map(robotId => extractIncompleteTask(robotId));
+
+            if (partialTasks.some(task => task)) {
+              tasks = Object.fromEntries(robotIds.map((robotId, index) => [robotId, partialTasks[index] || ""]));
             } else {
               throw new Error(`Failed to parse LLM response as JSON: ${parseError instanceof Error ? parseError.message : "Unknown error"}`);
             }
@@ -850,52 +879,253 @@ Keep descriptions concise. Use short paths with key waypoints only.`;
       }
     }
 
-    // Validate task structure - check all 4 robots have tasks
-    const robotIds = ['R1', 'R2', 'R3', 'R4'] as const;
-    const missingRobots: string[] = [];
-    const validTasks: string[] = [];
+    // A plain-text answer cut off inside its path means the response hit the token limit
+    const truncated = robotIds.filter(robotId => typeof tasks[robotId] === "string" && /path:/i.test(tasks[robotId]) && !tasks[robotId].includes("]]"));
+    if (truncated.length > 0) {
+      console.error("LLM response appears truncated:", truncated.map(robotId => tasks[robotId]));
+      throw new Error(`LLM response was truncated: the paths for ${truncated.join(", ")} are incomplete. The response may have exceeded token limits. Try: 1) Using a model with higher limits, 2) Simplifying the scenario, or 3) Reducing path detail.`);
+    }
+
+    const plans = validatePlans(tasks, robotIds);
+    validateTaskCoverage(plans, robotIds);
+
+    return plans;
+  }
+
+  /**
+   * POST a generateContent request, falling back from v1beta to v1 when the model is not
+   * found there and retrying transient errors with exponential backoff
+   */
+  private async generateContent(apiModelName: string, request: GeminiRequest): Promise<{ candidates?: Array<{ content?: GeminiContent }> }> {
+    // Retry logic for transient errors (503, 429, 500, etc.)
+    const maxRetries = 3;
+    const retryableStatuses = [503, 429, 500, 502, 504];
+    let lastError: Error | null = null;
+    let successfulResponse: Response | null = null;
     
-    for (const robotId of robotIds) {
-      const task = tasks[robotId];
-      if (!task || task.trim().length < 5 || 
-          task.toLowerCase().includes("idle") || 
-          task.toLowerCase().includes("not assigned") ||
-          task.toLowerCase().includes("no task")) {
-        missingRobots.push(robotId);
-      } else {
-        validTasks.push(task);
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      try {
+        // Try v1beta API first (supports JSON mode)
+        let response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${apiModelName}:generateContent?key=${this.apiKey}`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(request),
+        });
+
+        // If v1beta fails with model not found, try v1 API
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          const errorMessage = errorData.error?.message || "";
+          
+          if (errorMessage.includes("not found") || response.status === 404) {
+            // Try v1 API (without responseMimeType)
+            const v1Config = { ...request.generationConfig };
+            delete v1Config.responseMimeType;
+            response = await fetch(`https://generativelanguage.googleapis.com/v1/models/${apiModelName}:generateContent?key=${this.apiKey}`, {
+              method: "POST",
+              headers: {
+                "Content-Type": "application/json",
+              },
+              body: JSON.stringify({ ...request, generationConfig: v1Config }),
+            });
+          }
+        }
+
+        // Check if response is successful
+        if (response.ok) {
+          // Store successful response and break out of retry loop
+          successfulResponse = response;
+          break;
+        }
+
+        // Handle error response - only retry on specific status codes
+        const error = await response.json().catch(() => ({ error: { message: `HTTP ${response.status}: ${response.statusText}` } }));
+        const errorMessage = error.error?.message || `HTTP ${response.status}: ${response.statusText}`;
+        
+        // Check if this is a retryable error
+        if (retryableStatuses.includes(response.status) && attempt < maxRetries) {
+          const delay = Math.pow(2, attempt) * 1000; // Exponential backoff: 1s, 2s, 4s
+          console.warn(`Gemini API returned ${response.status} (${errorMessage}). Retrying in ${delay}ms... (attempt ${attempt + 1}/${maxRetries + 1})`);
+          await new Promise(resolve => setTimeout(resolve, delay));
+          lastError = new Error(`Gemini API error: ${errorMessage}`);
+          continue; // Retry
+        }
+        
+        // Non-retryable error or max retries reached
+        if (errorMessage.includes("quota") || errorMessage.includes("billing") || errorMessage.includes("API_KEY_INVALID")) {
+          throw new Error(`Gemini API error: ${errorMessage}. Please check your API key at https://aistudio.google.com/apikey`);
+        }
+        
+        throw new Error(`Gemini API error: ${errorMessage}`);
+      } catch (error) {
+        // Check if this is a retryable network/API error
+        const isRetryable = error instanceof Error && (
+          error.message.includes("503") || 
+          error.message.includes("429") || 
+          error.message.includes("500") ||
+          error.message.includes("502") ||
+          error.message.includes("504") ||
+          error.message.includes("Service Unavailable")
+        );
+        
+        // If it's the last attempt or a non-retryable error, throw
+        if (attempt === maxRetries || !isRetryable) {
+          throw error;
+        }
+        lastError = error as Error;
+        const delay = Math.pow(2, attempt) * 1000;
+        console.warn(`Request failed: ${error instanceof Error ? error.message : 'Unknown error'}. Retrying in ${delay}ms... (attempt ${attempt + 1}/${maxRetries + 1})`);
+        await new Promise(resolve => setTimeout(resolve, delay));
       }
     }
     
-    // Check if response was truncated (last task ends abruptly)
-    if (validTasks.length > 0) {
-      const lastTask = validTasks[validTasks.length - 1];
-      const isTruncated = lastTask && (
-        (lastTask.includes('Path:') && !lastTask.includes(']]')) ||
-        (lastTask.length > 300 && !lastTask.match(/\]\s*"$/m) && !lastTask.endsWith('"'))
+    // If we get here, all retries failed
+    if (lastError) {
+      throw lastError;
+    }
+    if (!successfulResponse) {
+      throw new Error("Gemini API request failed after all retries");
+    }
+    
+    return successfulResponse.json();
+  }
+}
+
+export type LocalEnvironment = FleetSource & {
+  planningMode?: PlanningMode;
+  scenario?: unknown;
+  environmentMatrix?: unknown;
+  robotStatuses?: unknown;
+};
+
+/**
+ * Any server speaking the OpenAI chat-completions protocol, e.g. Ollama, llama.cpp or vLLM on
+ * an isolated network. The base URL is the server root, with or without "/v1"; the key is
+ * only sent when set. Models are named as the server lists them in /v1/models. JSON mode
+ * (response_format json_object) is requested unless `jsonMode` is false; a server that
+ * rejects the request is asked once more without it, and not again.
+ */
+export class LocalProvider implements LLMProvider {
+  private baseUrl: string;
+  private apiKey: string;
+  private jsonMode: boolean;
+
+  constructor(baseUrl: string, apiKey = "", options: { jsonMode?: boolean } = {}) {
+    if (!baseUrl) {
+      throw new Error("The local provider needs the model server's base URL (LOCAL_LLM_BASE_URL)");
+    }
+    this.baseUrl = baseUrl.replace(/\/+$/, "").replace(/\/v1$/, "");
+    this.apiKey = apiKey;
+    this.jsonMode = options.jsonMode ?? true;
+  }
+
+  /**
+   * Model IDs the server offers, from its /v1/models endpoint
+   */
+  async listModels(): Promise<string[]> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/v1/models`, {
+        headers: this.apiKey ? { "Authorization": `Bearer ${this.apiKey}` } : {},
+      });
+    } catch (error) {
+      throw new Error(`Cannot reach the local model server at ${this.baseUrl}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!response.ok) {
+      throw new Error(`Local model server at ${this.baseUrl} returned HTTP ${response.status} for /v1/models`);
+    }
+    const data = await response.json();
+    return (data.data || []).map((model: { id: string }) => model.id);
+  }
+
+  async generateTasks(prompt: string, environment: LocalEnvironment, model: string, tools?: PlanningToolbox): Promise<RobotTasks> {
+    const robotIds = getRobotIds(environment);
+    const systemPrompt = `You are a robot orchestration system. Divide the overall task among ${describeFleet(robotIds)} so they work in parallel.
+
+Robot types (capabilities, max payload, speed, battery capacity):
+${describeFleetTypes(environment)}
+
+Only assign a task to a robot whose type has the capabilities and payload the task needs.
+
+CRITICAL: ALL ${robotIds.length} ROBOTS MUST receive tasks. If fewer than ${robotIds.length} primary tasks exist, assign supporting roles (monitoring, coordination, standby) to remaining robots.
+
+Keep paths SHORT - use only key waypoints (start, major turns, destination).
+
+Always respond with valid JSON only, no markdown formatting and no other text.`;
+
+    let rejected = false; // The server answered with an error instead of a completion
+    const request = (jsonMode: boolean) =>
+      chatCompletion(
+        `${this.baseUrl}/v1/chat/completions`,
+        this.apiKey,
+        {
+          model: model.startsWith(LOCAL_MODEL_PREFIX) ? model.slice(LOCAL_MODEL_PREFIX.length) : model,
+          messages: [
+            { role: "system", content: systemPrompt },
+            {
+              role: "user",
+              content: `FULL SCENARIO DATA (Complete JavaScript Object as JSON):\n${JSON.stringify(environment.scenario || environment, null, 2)}\n\nEnvironment Grid:\n${JSON.stringify(environment.environmentMatrix || [], null, 2)}\n\nRobot Current Positions:\n${JSON.stringify(environment.robotStatuses || {}, null, 2)}\n\nUser Request:\n${prompt}\n\nReturn ONLY valid JSON:\n${responseFormat(robotIds, environment)}`,
+            },
+          ],
+          ...(jsonMode ? { response_format: { type: "json_object" } } : {}),
+          temperature: 0.7,
+          max_tokens: outputTokenBudget(robotIds, 4000),
+        },
+        tools,
+        errorMessage => {
+          rejected = true;
+          return new Error(`Local model server error: ${errorMessage}`);
+        }
       );
-      
-      if (isTruncated) {
-        console.error("LLM response appears truncated. Last task:", lastTask.substring(Math.max(0, lastTask.length - 150)));
-        throw new Error(`LLM response was truncated. Only received complete tasks for ${validTasks.length} out of 4 robots. The response may have exceeded token limits. Try: 1) Using a model with higher limits, 2) Simplifying the scenario, or 3) Reducing path detail.`);
+
+    let message: ChatMessage | undefined;
+    const firstCall = tools?.transcript.length ?? 0;
+    try {
+      try {
+        message = await request(this.jsonMode);
+      } catch (error) {
+        // Not every server supports JSON mode; retry without it unless tool calls already ran
+        if (!this.jsonMode || !rejected || (tools?.transcript.length ?? 0) > firstCall) throw error;
+        console.warn(`[Local] ${error instanceof Error ? error.message : String(error)}; retrying without JSON mode`);
+        this.jsonMode = false;
+        message = await request(false);
+      }
+    } catch (error) {
+      // fetch itself fails (TypeError) when the server is down or unreachable
+      if (error instanceof TypeError) {
+        throw new Error(`Cannot reach the local model server at ${this.baseUrl}: ${error.message}`);
       }
+      throw error;
     }
-    
-    if (validTasks.length < 2) {
-      console.error("Invalid task structure - not enough robots assigned:", tasks);
-      throw new Error(`Invalid task structure: Only ${validTasks.length} out of 4 robots received valid tasks. Missing robots: ${missingRobots.join(', ')}. At least 2 robots must be assigned tasks.`);
+    const content = message?.content;
+
+    if (!content) {
+      throw new Error("No content in response");
     }
-    
-    // Warn if less than 4 robots have tasks
-    if (validTasks.length < 4) {
-      console.warn(`Warning: Only ${validTasks.length} out of 4 robots received tasks. Missing: ${missingRobots.join(', ')}`);
+
+    // Reasoning models may think out loud first, and small models may wrap the JSON in prose
+    const cleaned = content.replace(/<think>[\s\S]*?<\/think>/g, "").replace(/```json\n?|\n?```/g, "").trim();
+    const json = cleaned.match(/\{[\s\S]*\}/)?.[0] || cleaned;
+
+    let tasks: unknown;
+    try {
+      tasks = JSON.parse(json);
+    } catch (parseError) {
+      console.error("JSON parse error:", parseError);
+      console.error("Cleaned content:", cleaned);
+      throw new Error(`Failed to parse LLM response as JSON: ${parseError instanceof Error ? parseError.message : "Unknown error"}`);
     }
 
-    return tasks as RobotTasks;
+    const plans = validatePlans(tasks, robotIds);
+    validateTaskCoverage(plans, robotIds);
+
+    return plans;
   }
 }
 
-export function getLLMProvider(provider: string, apiKey: string): LLMProvider {
+export function getLLMProvider(provider: string, apiKey: string, options: { baseUrl?: string; jsonMode?: boolean } = {}): LLMProvider {
   switch (provider.toLowerCase()) {
     case "anthropic":
       return new AnthropicProvider(apiKey);
@@ -907,12 +1137,22 @@ export function getLLMProvider(provider: string, apiKey: string): LLMProvider {
     case "gemini":
     case "google":
       return new GeminiProvider(apiKey);
+    case "local":
+      return new LocalProvider(options.baseUrl || "", apiKey, { jsonMode: options.jsonMode });
+    case "baseline":
+      return new BaselineProvider();
     default:
       throw new Error(`Unsupported LLM provider: ${provider}`);
   }
 }
 
 export function detectProviderFromModel(model: string): string {
+  if (model.startsWith(LOCAL_MODEL_PREFIX)) {
+    return "local";
+  }
+  if (model.startsWith("baseline")) {
+    return "baseline";
+  }
   if (model.startsWith("claude") || model.includes("anthropic")) {
     return "anthropic";
   }
@@ -925,5 +1165,5 @@ export function detectProviderFromModel(model: string): string {
   if (model.startsWith("gemini") || model.includes("gemini") || model.includes("google")) {
     return "gemini";
   }
-  return "gemini"; // default to free option
+  throw new Error(`Unknown model "${model}": use a Claude, GPT, Grok, Gemini or baseline model, or "${LOCAL_MODEL_PREFIX}<model>" for the local model server`);
 }
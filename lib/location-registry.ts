@@ -0,0 +1,371 @@
+/**
+ * Location Registry
+ * Names for the places tasks refer to: shelves and charging stations by linear index
+ * (row * cols + col, as in the scenario's gridIndices), bays as connected blocks of shelves,
+ * and the charging, loading and unloading zones. Every location lists its access cells, the
+ * free cells a robot stands on to reach it, so "Shelf 38" resolves to somewhere drivable.
+ */
+
+import { findPath, manhattanDistance, PathOptions } from "./path-planner";
+import { GridCell, WarehouseMap } from "./warehouse-map";
+
+export type LocationKind = "shelf" | "bay" | "zone" | "charger" | "cell";
+export type ZoneKind = "charging" | "loading" | "unloading";
+
+export interface WarehouseLocation {
+  id: string; // e.g. "shelf-38", "bay-2", "zone-loading", "charger-270", "cell-97"
+  kind: LocationKind;
+  name: string; // e.g. "Shelf 38", "Loading Area"
+  cells: GridCell[];
+  accessCells: GridCell[]; // Free cells from which a robot can reach the location
+}
+
+export interface SpecialZones {
+  chargingArea?: number[];
+  loadingArea?: number[];
+  unloadingArea?: number[];
+}
+
+/**
+ * Task fields that can name a location
+ */
+export interface TaskLocationFields {
+  description: string;
+  destination?: { row: number; col: number };
+  targetCoordinate?: { row: number; col: number };
+  shelves?: number[];
+}
+
+const ZONES: Array<{ kind: ZoneKind; cell: "C" | "L" | "U"; name: string; specialZone: keyof SpecialZones }> = [
+  { kind: "charging", cell: "C", name: "Charging Area", specialZone: "chargingArea" },
+  { kind: "loading", cell: "L", name: "Loading Area", specialZone: "loadingArea" },
+  { kind: "unloading", cell: "U", name: "Unloading Area", specialZone: "unloadingArea" },
+];
+
+const LOCATION_PATTERN = new RegExp(
+  [
+    "\\bshel(?:f|ves)\\s+(\\d+(?:(?:\\s*,\\s*(?:and\\s+)?|\\s+and\\s+)\\d+)*)", // Shelf 97, Shelves 38, 97, and 213
+    "\\bbay\\s+(\\d+)", // Bay 2
+    "\\bcharging\\s+station\\s+(\\d+)", // Charging station 270
+    "\\b(charging|loading|unloading)\\s+(?:area|zone|dock|stations?)\\b", // Loading Area
+    "\\(\\s*(\\d+)\\s*,\\s*(\\d+)\\s*\\)", // (6,8)
+  ].join("|"),
+  "gi"
+);
+
+// One place named in text: resolved, or the reason it could not be
+interface LocationMention {
+  location?: WarehouseLocation;
+  unresolved?: string;
+}
+
+const formatCell = ([row, col]: GridCell): string => `(${row}, ${col})`;
+
+export class LocationRegistry {
+  readonly issues: string[] = []; // Scenario data that disagrees with the map
+  private map: WarehouseMap;
+  private locations: Map<string, WarehouseLocation> = new Map();
+
+  constructor(map: WarehouseMap, specialZones: SpecialZones = {}) {
+    this.map = map;
+    this.registerShelvesAndChargers();
+    this.registerBays();
+    this.registerZones(specialZones);
+  }
+
+  /**
+   * Registry for a scenario's warehouseMap (grid plus specialZones)
+   */
+  static fromScenario(warehouseMap: { grid?: string[][]; dimensions?: { rows: number; columns: number }; specialZones?: SpecialZones } | undefined): LocationRegistry {
+    return new LocationRegistry(WarehouseMap.fromScenario(warehouseMap), warehouseMap?.specialZones);
+  }
+
+  get all(): WarehouseLocation[] {
+    return Array.from(this.locations.values());
+  }
+
+  get(id: string): WarehouseLocation | undefined {
+    return this.locations.get(id);
+  }
+
+  shelf(index: number): WarehouseLocation | undefined {
+    return this.locations.get(`shelf-${index}`);
+  }
+
+  bay(number: number): WarehouseLocation | undefined {
+    return this.locations.get(`bay-${number}`);
+  }
+
+  zone(kind: ZoneKind): WarehouseLocation | undefined {
+    return this.locations.get(`zone-${kind}`);
+  }
+
+  charger(index: number): WarehouseLocation | undefined {
+    return this.locations.get(`charger-${index}`);
+  }
+
+  get chargers(): WarehouseLocation[] {
+    return this.all.filter(location => location.kind === "charger");
+  }
+
+  /**
+   * Location of a single cell: its shelf or charging station when it is one, otherwise the cell itself
+   */
+  cell(row: number, col: number): WarehouseLocation | undefined {
+    if (!this.map.inBounds(row, col)) return undefined;
+    const index = this.map.toIndex(row, col);
+    const registered = this.shelf(index) || this.charger(index);
+    if (registered) return registered;
+
+    const cell: GridCell = [row, col];
+    return {
+      id: `cell-${index}`,
+      kind: "cell",
+      name: `Cell ${formatCell(cell)}`,
+      cells: [cell],
+      accessCells: this.map.isTraversable(row, col) ? [cell] : this.freeNeighbours(cell),
+    };
+  }
+
+  /**
+   * Locations named in free text, in the order they appear. Names that do not match the
+   * map (e.g. a shelf number whose cell is not a shelf) are returned as unresolved.
+   */
+  findInText(text: string): { locations: WarehouseLocation[]; unresolved: string[] } {
+    return this.collect(this.scan(text));
+  }
+
+  /**
+   * First location named in a string such as "Shelf 38" or "Loading Area"
+   */
+  resolve(name: string): WarehouseLocation | undefined {
+    return this.findInText(name).locations[0];
+  }
+
+  /**
+   * Places a task visits, in order. An explicit destination or target coordinate replaces
+   * the last place named in the description and a shelf list replaces the description, so
+   * the last entry is the task's destination.
+   */
+  taskLocations(task: TaskLocationFields): { locations: WarehouseLocation[]; unresolved: string[] } {
+    const coordinate = task.destination || task.targetCoordinate;
+    if (coordinate) {
+      const named = this.scan(task.description).slice(0, -1);
+      const target = this.cell(coordinate.row, coordinate.col);
+      return this.collect([
+        ...named,
+        target ? { location: target } : { unresolved: `Coordinate (${coordinate.row}, ${coordinate.col}) is outside the map` },
+      ]);
+    }
+    if (task.shelves && task.shelves.length > 0) {
+      return this.findInText(`Shelves ${task.shelves.join(", ")}`);
+    }
+    return this.findInText(task.description);
+  }
+
+  /**
+   * Summary for prompts: index scheme, zones, charging stations and bays
+   */
+  describe(): string {
+    const lines = [
+      `Linear index = row * ${this.map.cols} + col. Shelves and charging stations are numbered by linear index (e.g. Shelf ${this.exampleShelf()}).`,
+      "A shelf is reached from an adjacent free cell (its access face); robots never enter shelf cells.",
+    ];
+    for (const { kind } of ZONES) {
+      const zone = this.zone(kind);
+      if (zone) lines.push(`${zone.name}: ${zone.cells.map(formatCell).join(", ")}`);
+    }
+    const chargers = this.chargers;
+    if (chargers.length > 0) {
+      lines.push(`Charging stations: ${chargers.map(charger => `${charger.name.replace("Charging station ", "")} ${formatCell(charger.cells[0])}`).join(", ")}`);
+    }
+    const bays = this.all.filter(location => location.kind === "bay");
+    if (bays.length > 0) {
+      lines.push(`Bays: ${bays.map(bay => `${bay.name} ${this.describeExtent(bay.cells)}`).join(", ")}`);
+    }
+    return lines.join("\n");
+  }
+
+  /**
+   * Every location mention in the text, in order, resolved or with the reason it is not
+   */
+  private scan(text: string): LocationMention[] {
+    const mentions: LocationMention[] = [];
+    const found = (location: WarehouseLocation | undefined, reason: string) =>
+      mentions.push(location ? { location } : { unresolved: reason });
+
+    for (const match of text.matchAll(LOCATION_PATTERN)) {
+      const [, shelves, bay, charger, zone, row, col] = match;
+      if (shelves) {
+        for (const index of shelves.match(/\d+/g) || []) {
+          const cell = this.map.fromIndex(Number(index));
+          found(this.shelf(Number(index)), cell
+            ? `Shelf ${index} is cell ${formatCell(cell)}, which is not a shelf`
+            : `Shelf ${index} is outside the map`);
+        }
+      } else if (bay) {
+        found(this.bay(Number(bay)), `Bay ${bay} does not exist`);
+      } else if (charger) {
+        found(this.charger(Number(charger)), `Charging station ${charger} does not exist`);
+      } else if (zone) {
+        found(this.zone(zone.toLowerCase() as ZoneKind), `${match[0]} is not on the map`);
+      } else if (row !== undefined && col !== undefined) {
+        found(this.cell(Number(row), Number(col)), `Coordinate (${row}, ${col}) is outside the map`);
+      }
+    }
+
+    return mentions;
+  }
+
+  private collect(mentions: LocationMention[]): { locations: WarehouseLocation[]; unresolved: string[] } {
+    return {
+      locations: mentions.flatMap(mention => mention.location ? [mention.location] : []),
+      unresolved: mentions.flatMap(mention => mention.unresolved ? [mention.unresolved] : []),
+    };
+  }
+
+  private registerShelvesAndChargers(): void {
+    for (let row = 0; row < this.map.rows; row++) {
+      for (let col = 0; col < this.map.cols; col++) {
+        const cell: GridCell = [row, col];
+        const index = this.map.toIndex(row, col);
+        const value = this.map.cellAt(row, col);
+        if (value === "S") {
+          this.locations.set(`shelf-${index}`, {
+            id: `shelf-${index}`,
+            kind: "shelf",
+            name: `Shelf ${index}`,
+            cells: [cell],
+            accessCells: this.freeNeighbours(cell),
+          });
+        } else if (value === "C") {
+          this.locations.set(`charger-${index}`, {
+            id: `charger-${index}`,
+            kind: "charger",
+            name: `Charging station ${index}`,
+            cells: [cell],
+            accessCells: [cell],
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Bays are 4-connected blocks of shelf cells, numbered in row-major order of their first cell
+   */
+  private registerBays(): void {
+    const seen = new Set<number>();
+    let number = 0;
+
+    for (const shelf of this.all.filter(location => location.kind === "shelf")) {
+      const [startRow, startCol] = shelf.cells[0];
+      if (seen.has(this.map.toIndex(startRow, startCol))) continue;
+
+      const cells: GridCell[] = [];
+      const queue: GridCell[] = [shelf.cells[0]];
+      seen.add(this.map.toIndex(startRow, startCol));
+      while (queue.length > 0) {
+        const current = queue.shift()!;
+        cells.push(current);
+        const [row, col] = current;
+        for (const next of [[row - 1, col], [row + 1, col], [row, col - 1], [row, col + 1]] as GridCell[]) {
+          const index = this.map.toIndex(next[0], next[1]);
+          if (this.map.cellAt(next[0], next[1]) === "S" && !seen.has(index)) {
+            seen.add(index);
+            queue.push(next);
+          }
+        }
+      }
+
+      number++;
+      this.locations.set(`bay-${number}`, {
+        id: `bay-${number}`,
+        kind: "bay",
+        name: `Bay ${number}`,
+        cells,
+        accessCells: this.uniqueCells(cells.flatMap(cell => this.freeNeighbours(cell))),
+      });
+    }
+  }
+
+  /**
+   * Zones come from the map's C/L/U cells; specialZones fill in zones the map does not mark
+   * and are reported when they disagree with it
+   */
+  private registerZones(specialZones: SpecialZones): void {
+    for (const { kind, cell, name, specialZone } of ZONES) {
+      const fromMap = this.map.cellsOfType(cell);
+      const declared = (specialZones[specialZone] || [])
+        .map(index => this.map.fromIndex(index))
+        .filter((entry): entry is GridCell => !!entry);
+
+      const mapIndices = new Set(fromMap.map(([row, col]) => this.map.toIndex(row, col)));
+      const mismatched = declared.filter(([row, col]) => !mapIndices.has(this.map.toIndex(row, col)));
+      if (fromMap.length > 0 && mismatched.length > 0) {
+        this.issues.push(`${name} indices ${mismatched.map(([row, col]) => this.map.toIndex(row, col)).join(", ")} are not ${cell} cells on the map`);
+      }
+
+      const cells = fromMap.length > 0 ? fromMap : declared;
+      if (cells.length === 0) continue;
+      this.locations.set(`zone-${kind}`, {
+        id: `zone-${kind}`,
+        kind: "zone",
+        name,
+        cells,
+        accessCells: cells.filter(([row, col]) => this.map.isTraversable(row, col)),
+      });
+    }
+  }
+
+  private freeNeighbours([row, col]: GridCell): GridCell[] {
+    const around: GridCell[] = [[row - 1, col], [row + 1, col], [row, col - 1], [row, col + 1]];
+    return around.filter(([r, c]) => this.map.isTraversable(r, c));
+  }
+
+  private uniqueCells(cells: GridCell[]): GridCell[] {
+    const seen = new Set<number>();
+    return cells.filter(([row, col]) => {
+      const index = this.map.toIndex(row, col);
+      if (seen.has(index)) return false;
+      seen.add(index);
+      return true;
+    });
+  }
+
+  private exampleShelf(): string {
+    const shelf = this.all.find(location => location.kind === "shelf");
+    return shelf ? `${shelf.name.replace("Shelf ", "")} = ${formatCell(shelf.cells[0])}` : "N = its cell";
+  }
+
+  private describeExtent(cells: GridCell[]): string {
+    const rows = cells.map(([row]) => row);
+    const cols = cells.map(([, col]) => col);
+    return `rows ${Math.min(...rows)}-${Math.max(...rows)}, cols ${Math.min(...cols)}-${Math.max(...cols)}`;
+  }
+}
+
+/**
+ * Shortest route from a cell to the nearest access cell of a location (inclusive of both
+ * ends), or null when none is reachable
+ */
+export function planRouteTo(map: WarehouseMap, start: GridCell, location: WarehouseLocation, options: PathOptions = {}): GridCell[] | null {
+  const candidates = [...location.accessCells].sort((a, b) => manhattanDistance(start, a) - manhattanDistance(start, b));
+  let best: GridCell[] | null = null;
+
+  for (const cell of candidates) {
+    // Paths are never shorter than the Manhattan distance, so stop once no candidate can win
+    if (best && manhattanDistance(start, cell) >= best.length - 1) break;
+    const path = findPath(map, start, cell, options);
+    if (path && (!best || path.length < best.length)) best = path;
+  }
+
+  return best;
+}
+
+/**
+ * Whether a route visits one of the location's access cells
+ */
+export function routeReaches(route: GridCell[], location: WarehouseLocation): boolean {
+  return route.some(([row, col]) => location.accessCells.some(([r, c]) => r === row && c === col));
+}
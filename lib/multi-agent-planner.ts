@@ -0,0 +1,410 @@
+/**
+ * Multi-Agent Path Finding
+ * Prioritized planning with a space-time reservation table. Robots are planned one
+ * after another; each plan reserves (cell, tick) pairs and edge traversals so later
+ * robots wait or detour instead of colliding. A robot that reaches its final goal
+ * parks there for the rest of the horizon. Robots slower than one cell per tick hold
+ * each cell for several ticks; faster robots are planned at one cell per tick. Traffic
+ * rules apply as in single-robot planning, and speed zones lengthen the time spent per cell.
+ * Waiting can be turned off for plans that cannot say when to wait (robots then detour).
+ * A goal another robot already parks on cannot be parked on, so its search gives up at once
+ * instead of waiting out the horizon; every search also stops after a bounded number of
+ * expanded nodes, leaving the robot unresolved.
+ */
+
+import { canMove, findPath, GridCell, manhattanDistance, PathOptions, PriorityQueue, repairPath } from "./path-planner";
+import { WarehouseMap } from "./warehouse-map";
+
+export interface AgentRequest {
+  robotId: string;
+  start: GridCell;
+  goals: GridCell[]; // Ordered waypoints the robot must visit
+  speedCellsPerTick?: number; // From the robot's type; defaults to 1
+  robotType?: string; // Decides which restricted areas the robot may enter
+}
+
+export interface PathConflict {
+  type: "vertex" | "swap"; // Same cell at the same tick, or two robots exchanging cells
+  robotIds: [string, string];
+  tick: number;
+  cells: GridCell[];
+}
+
+export interface ConflictResolution {
+  robotId: string; // Robot whose plan was changed to avoid the conflict
+  conflict: PathConflict; // Conflict its independent shortest path would have caused
+  strategy: "wait" | "detour";
+  delayTicks: number; // Extra ticks compared to its independent shortest path
+}
+
+export interface MultiAgentPlan {
+  paths: { [robotId: string]: GridCell[] }; // Time-indexed: paths[id][t] is the cell at tick t
+  resolutions: ConflictResolution[];
+  unresolved: string[]; // Robots for which no conflict-free path was found within the horizon
+  makespan: number;
+}
+
+export interface MultiAgentOptions {
+  maxTicks: number; // Planning horizon
+  maxExpansions: number; // Search nodes expanded per goal before the robot is left unresolved
+  allowWaiting: boolean; // False keeps robots moving until their final goal, for plans that cannot say when to wait
+  priority?: string[]; // Planning order; defaults to the order of the requests
+  speeds?: { [robotId: string]: number }; // Cells per tick per robot, used when timing proposed paths
+  robotTypes?: { [robotId: string]: string }; // Robot type ID per robot, for restricted areas
+}
+
+const DEFAULT_OPTIONS: MultiAgentOptions = {
+  maxTicks: 500,
+  maxExpansions: 20000,
+  allowWaiting: true,
+};
+
+const cellKey = ([row, col]: GridCell): string => `${row},${col}`;
+const sameCell = (a: GridCell, b: GridCell): boolean => a[0] === b[0] && a[1] === b[1];
+
+/**
+ * Ticks a robot spends in each cell it enters
+ */
+function dwellTicks(speedCellsPerTick = 1): number {
+  return speedCellsPerTick >= 1 ? 1 : Math.ceil(1 / Math.max(speedCellsPerTick, 0.01));
+}
+
+/**
+ * Ticks a robot spends in a cell, slowed down by the map's speed limit there
+ */
+function dwellAt(map: WarehouseMap | undefined, [row, col]: GridCell, speedCellsPerTick = 1): number {
+  return dwellTicks(Math.min(speedCellsPerTick, map?.traffic?.speedLimitAt(row, col) ?? Infinity));
+}
+
+/**
+ * Turn a cell sequence into a time-indexed path for a robot moving at the given speed,
+ * slowed down in the speed zones of the map when one is given
+ */
+export function retimePath(path: GridCell[], speedCellsPerTick = 1, map?: WarehouseMap): GridCell[] {
+  if (path.length === 0) return path;
+  const zoned = path.some(([row, col]) => map?.traffic?.speedLimitAt(row, col) !== undefined);
+  if (speedCellsPerTick >= 1 && !zoned) {
+    const stride = Math.floor(speedCellsPerTick);
+    const timed = path.filter((_, index) => index % stride === 0);
+    if ((path.length - 1) % stride !== 0) timed.push(path[path.length - 1]);
+    return timed;
+  }
+  return [path[0], ...path.slice(1).flatMap(cell => Array<GridCell>(dwellAt(map, cell, speedCellsPerTick)).fill(cell))];
+}
+
+/**
+ * Cell occupied by a robot at a tick; robots stay on their last cell once their path ends
+ */
+function cellAt(path: GridCell[], tick: number): GridCell {
+  return path[Math.min(tick, path.length - 1)];
+}
+
+export class ReservationTable {
+  private vertices = new Map<string, string>(); // "row,col@tick" -> robotId
+  private edges = new Map<string, string>(); // "from->to@tick" -> robotId (move ending at tick)
+  private parked = new Map<string, { robotId: string; fromTick: number }>(); // cell -> parked robot
+
+  reserve(robotId: string, path: GridCell[]): void {
+    path.forEach((cell, tick) => {
+      this.vertices.set(`${cellKey(cell)}@${tick}`, robotId);
+      if (tick > 0) {
+        this.edges.set(`${cellKey(path[tick - 1])}->${cellKey(cell)}@${tick}`, robotId);
+      }
+    });
+    if (path.length > 0) {
+      this.parked.set(cellKey(path[path.length - 1]), { robotId, fromTick: path.length - 1 });
+    }
+  }
+
+  /**
+   * Robot holding a cell at a tick, whether moving through it or parked on it
+   */
+  occupant(cell: GridCell, tick: number): string | undefined {
+    const moving = this.vertices.get(`${cellKey(cell)}@${tick}`);
+    if (moving) return moving;
+    const parked = this.parked.get(cellKey(cell));
+    return parked && tick >= parked.fromTick ? parked.robotId : undefined;
+  }
+
+  /**
+   * Robot that moves from `to` into `from` during the same tick, which would be a swap
+   */
+  swapWith(from: GridCell, to: GridCell, tick: number): string | undefined {
+    return this.edges.get(`${cellKey(to)}->${cellKey(from)}@${tick}`);
+  }
+
+  /**
+   * Whether a robot can park on a cell from a tick onwards without being run over later
+   */
+  canPark(cell: GridCell, fromTick: number, horizon: number): boolean {
+    for (let tick = fromTick; tick <= horizon; tick++) {
+      if (this.vertices.has(`${cellKey(cell)}@${tick}`)) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Tick from which a robot parks on a cell for the rest of the horizon, if one does
+   */
+  parkedFrom(cell: GridCell): number | undefined {
+    return this.parked.get(cellKey(cell))?.fromTick;
+  }
+}
+
+/**
+ * Space-time A* from a cell at a start tick to a goal, honouring the reservation table.
+ * Waiting in place is allowed unless `allowWaiting` is off. Returns the time-indexed cells
+ * after startTick, or null when there is none or it is not found within `maxExpansions`
+ * expanded nodes.
+ */
+function spaceTimeSearch(
+  map: WarehouseMap,
+  table: ReservationTable,
+  start: GridCell,
+  startTick: number,
+  goal: GridCell,
+  park: boolean,
+  horizon: number,
+  speedCellsPerTick = 1,
+  options: PathOptions = {},
+  maxExpansions = DEFAULT_OPTIONS.maxExpansions,
+  allowWaiting = true
+): GridCell[] | null {
+  // A robot parked on the goal never leaves: the goal must be reached before it arrives
+  const takenFrom = table.parkedFrom(goal);
+  if (takenFrom !== undefined && (park || takenFrom <= startTick)) return null;
+  const lastTick = Math.min(horizon, (takenFrom ?? Infinity) - 1);
+
+  const dwell = dwellTicks(speedCellsPerTick);
+  // rest: ticks the robot must still spend in its current cell before it may leave
+  type Node = { cell: GridCell; tick: number; g: number; rest: number; parent: Node | null };
+
+  const open = new PriorityQueue<Node>();
+  open.push({ cell: start, tick: startTick, g: 0, rest: 0, parent: null }, manhattanDistance(start, goal) * dwell);
+  const closed = new Set<string>();
+
+  while (open.size > 0 && closed.size < maxExpansions) {
+    const node = open.pop()!;
+
+    if (sameCell(node.cell, goal) && node.rest === 0 && (!park || table.canPark(goal, node.tick, horizon))) {
+      const cells: GridCell[] = [];
+      for (let current: Node | null = node; current && current.parent; current = current.parent) {
+        cells.unshift(current.cell);
+      }
+      return cells;
+    }
+
+    const key = `${cellKey(node.cell)}@${node.tick}#${node.rest}`;
+    if (closed.has(key) || node.tick >= lastTick) continue;
+    closed.add(key);
+
+    const [row, col] = node.cell;
+    const moves: GridCell[] = node.rest > 0
+      ? [[row, col]]
+      : [[row - 1, col], [row + 1, col], [row, col - 1], [row, col + 1]];
+    if (node.rest === 0 && allowWaiting) moves.unshift([row, col]);
+    for (const next of moves) {
+      const tick = node.tick + 1;
+      const moved = !sameCell(next, node.cell);
+      const rest = moved ? dwellAt(map, next, speedCellsPerTick) - 1 : Math.max(0, node.rest - 1);
+      if (moved ? !canMove(map, node.cell, next, options) : !map.isTraversable(next[0], next[1])) continue;
+      if (table.occupant(next, tick)) continue;
+      if (moved && table.swapWith(node.cell, next, tick)) continue;
+      if (closed.has(`${cellKey(next)}@${tick}#${rest}`)) continue;
+
+      const g = node.g + 1;
+      open.push({ cell: next, tick, g, rest, parent: node }, g + manhattanDistance(next, goal) * dwell);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Independent shortest path through all goals, ignoring other robots
+ */
+function independentPath(map: WarehouseMap, agent: AgentRequest): GridCell[] | null {
+  const path: GridCell[] = [agent.start];
+  for (const goal of agent.goals) {
+    const segment = findPath(map, path[path.length - 1], goal, { robotType: agent.robotType });
+    if (!segment) return null;
+    path.push(...segment.slice(1));
+  }
+  return path;
+}
+
+/**
+ * Find vertex and swap conflicts between time-indexed paths
+ */
+export function detectConflicts(paths: { [robotId: string]: GridCell[] }): PathConflict[] {
+  const conflicts: PathConflict[] = [];
+  const robotIds = Object.keys(paths).filter(id => paths[id].length > 0).sort();
+  const horizon = Math.max(0, ...robotIds.map(id => paths[id].length));
+
+  for (let i = 0; i < robotIds.length; i++) {
+    for (let j = i + 1; j < robotIds.length; j++) {
+      const a = paths[robotIds[i]];
+      const b = paths[robotIds[j]];
+      for (let tick = 0; tick < horizon; tick++) {
+        const cellA = cellAt(a, tick);
+        const cellB = cellAt(b, tick);
+        if (sameCell(cellA, cellB)) {
+          conflicts.push({ type: "vertex", robotIds: [robotIds[i], robotIds[j]], tick, cells: [cellA] });
+          break; // One conflict per pair is enough to report; later ones usually cascade
+        }
+        if (tick > 0 && sameCell(cellA, cellAt(b, tick - 1)) && sameCell(cellB, cellAt(a, tick - 1)) && !sameCell(cellA, cellB)) {
+          conflicts.push({ type: "swap", robotIds: [robotIds[i], robotIds[j]], tick, cells: [cellB, cellA] });
+          break;
+        }
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Rewrite each robot's waypoints with the single-robot planner and treat the result as
+ * a time-indexed path (one cell per tick). This is how an LLM plan would actually execute.
+ */
+export function timedPathsFromWaypoints(
+  map: WarehouseMap,
+  starts: { [robotId: string]: GridCell },
+  waypoints: { [robotId: string]: GridCell[] },
+  speeds: { [robotId: string]: number } = {},
+  robotTypes: { [robotId: string]: string } = {}
+): { [robotId: string]: GridCell[] } {
+  const paths: { [robotId: string]: GridCell[] } = {};
+  for (const [robotId, start] of Object.entries(starts)) {
+    const path = repairPath(map, start, waypoints[robotId] || [], { robotType: robotTypes[robotId] }).path;
+    paths[robotId] = retimePath(path, speeds[robotId], map);
+  }
+  return paths;
+}
+
+/**
+ * Plan conflict-free, time-indexed paths for a fleet with prioritized planning
+ */
+export function planMultiAgentPaths(
+  map: WarehouseMap,
+  agents: AgentRequest[],
+  options: Partial<MultiAgentOptions> = {}
+): MultiAgentPlan {
+  const { maxTicks, maxExpansions, allowWaiting, priority } = { ...DEFAULT_OPTIONS, ...options };
+  const prioritized = priority
+    ? [...agents].sort((a, b) => {
+        const rankA = priority.indexOf(a.robotId);
+        const rankB = priority.indexOf(b.robotId);
+        return (rankA === -1 ? Infinity : rankA) - (rankB === -1 ? Infinity : rankB);
+      })
+    : agents;
+  // Goals the robot already stands on when it gets there need no planning
+  const requests = prioritized.map(agent => ({
+    ...agent,
+    goals: agent.goals.filter((goal, index) => !sameCell(goal, index > 0 ? agent.goals[index - 1] : agent.start)),
+  }));
+  // Robots with nowhere to go are reserved first so nobody is routed through them
+  const ordered = [
+    ...requests.filter(agent => agent.goals.length === 0),
+    ...requests.filter(agent => agent.goals.length > 0),
+  ];
+
+  const table = new ReservationTable();
+  const paths: { [robotId: string]: GridCell[] } = {};
+  const resolutions: ConflictResolution[] = [];
+  const unresolved: string[] = [];
+
+  for (const agent of ordered) {
+    const { goals } = agent;
+
+    // Goals unreachable even without other robots cannot be fixed by waiting or detouring
+    const shortest = independentPath(map, agent);
+    const independent = shortest && retimePath(shortest, Math.min(agent.speedCellsPerTick ?? 1, 1), map);
+    const path: GridCell[] = [agent.start];
+    let failed = !independent;
+    for (let index = 0; !failed && index < goals.length; index++) {
+      const segment = spaceTimeSearch(
+        map, table, path[path.length - 1], path.length - 1, goals[index], index === goals.length - 1, maxTicks,
+        agent.speedCellsPerTick, { robotType: agent.robotType }, maxExpansions, allowWaiting
+      );
+      if (!segment) {
+        failed = true;
+      } else {
+        path.push(...segment);
+      }
+    }
+
+    if (failed || !independent) {
+      // Keep the robot parked at its start so lower-priority robots route around it
+      unresolved.push(agent.robotId);
+      paths[agent.robotId] = [agent.start];
+      table.reserve(agent.robotId, [agent.start]);
+      continue;
+    }
+
+    // Compare against the robot's independent shortest path to explain what was changed
+    const planned = Object.fromEntries(Object.entries(paths).filter(([id]) => id !== agent.robotId));
+    const avoided = detectConflicts({ ...planned, [agent.robotId]: independent })
+      .filter(conflict => conflict.robotIds.includes(agent.robotId));
+    const movedCells = path.filter((cell, tick) => tick > 0 && !sameCell(cell, path[tick - 1])).length;
+    const delayTicks = path.length - independent.length;
+    for (const conflict of avoided) {
+      resolutions.push({
+        robotId: agent.robotId,
+        conflict,
+        strategy: movedCells > shortest!.length - 1 ? "detour" : "wait",
+        delayTicks,
+      });
+    }
+
+    paths[agent.robotId] = path;
+    table.reserve(agent.robotId, path);
+  }
+
+  return {
+    paths,
+    resolutions,
+    unresolved,
+    makespan: Math.max(0, ...Object.values(paths).map(path => path.length - 1)),
+  };
+}
+
+export interface PlanComparison {
+  proposedConflicts: PathConflict[]; // Conflicts in the proposed paths when executed one cell per tick
+  proposedMakespan: number;
+  plan: MultiAgentPlan; // Conflict-free plan visiting the same waypoints
+}
+
+/**
+ * Compare proposed waypoints (e.g. from the LLM) with a planner-generated,
+ * conflict-free plan that visits the same waypoints in the same order
+ */
+export function compareWithPlanner(
+  map: WarehouseMap,
+  starts: { [robotId: string]: GridCell },
+  waypoints: { [robotId: string]: GridCell[] },
+  options: Partial<MultiAgentOptions> = {}
+): PlanComparison {
+  const proposed: { [robotId: string]: GridCell[] } = {};
+  const agents: AgentRequest[] = [];
+  const speeds = options.speeds || {};
+  const robotTypes = options.robotTypes || {};
+
+  for (const [robotId, start] of Object.entries(starts)) {
+    const repair = repairPath(map, start, waypoints[robotId] || [], { robotType: robotTypes[robotId] });
+    proposed[robotId] = retimePath(repair.path, speeds[robotId], map);
+    agents.push({
+      robotId,
+      start: repair.path[0] || start,
+      goals: repair.waypoints,
+      speedCellsPerTick: speeds[robotId],
+      robotType: robotTypes[robotId],
+    });
+  }
+
+  return {
+    proposedConflicts: detectConflicts(proposed),
+    proposedMakespan: Math.max(0, ...Object.values(proposed).map(path => path.length - 1)),
+    plan: planMultiAgentPaths(map, agents, options),
+  };
+}
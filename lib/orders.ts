@@ -0,0 +1,198 @@
+/**
+ * Orders and Waves
+ * Customer orders (lines of SKU and quantity, with a due tick) are batched into waves by
+ * configurable rules, and each wave becomes a task pool: one pick task per SKU and shelf,
+ * moving the goods from the shelf to the staging area. A scenario with orders runs once per wave.
+ */
+
+import { Inventory, InventoryMove, StockLevels } from "./inventory";
+import type { TestScenario } from "./test-scenarios";
+
+export interface OrderLine {
+  skuId: string;
+  quantity: number;
+}
+
+export interface Order {
+  orderId: string;
+  lines: OrderLine[];
+  dueTick?: number; // Simulation tick the order must be staged by; orders without one go last
+}
+
+export interface BatchingRules {
+  strategy: "fifo" | "dueTime"; // Keep the listed order, or sort by due tick first
+  maxOrdersPerWave: number;
+  maxLinesPerWave?: number;
+  maxUnitsPerWave?: number;
+  dueWindowTicks?: number; // dueTime only: a wave spans at most this many ticks of due times
+}
+
+export const DEFAULT_BATCHING_RULES: BatchingRules = {
+  strategy: "dueTime",
+  maxOrdersPerWave: 3,
+};
+
+export interface Wave {
+  waveId: string; // "W1", "W2", ...
+  orders: Order[];
+  dueTick?: number; // Earliest due tick of its orders
+}
+
+export interface ScenarioOrders {
+  orders: Order[];
+  batching?: Partial<BatchingRules>;
+  stagingLocation?: string; // Where picked goods are delivered; defaults to the Loading Area
+}
+
+type PoolTask = TestScenario["operatorCommands"]["taskPool"][number];
+
+/**
+ * Batch orders into waves. A wave closes when adding the next order would exceed a limit
+ * (orders, lines, units or due window); an order larger than the limits gets a wave of its own.
+ */
+export function buildWaves(orders: Order[], rules: Partial<BatchingRules> = {}): Wave[] {
+  const config: BatchingRules = { ...DEFAULT_BATCHING_RULES, ...rules };
+  if (config.maxOrdersPerWave < 1) {
+    throw new Error(`maxOrdersPerWave must be at least 1, got ${config.maxOrdersPerWave}`);
+  }
+
+  const sorted = config.strategy === "dueTime"
+    ? [...orders].sort((a, b) => (a.dueTick ?? Infinity) - (b.dueTick ?? Infinity))
+    : [...orders];
+
+  const waves: Wave[] = [];
+  let current: Order[] = [];
+  const lines = (batch: Order[]) => batch.reduce((sum, order) => sum + order.lines.length, 0);
+  const units = (batch: Order[]) => batch.reduce((sum, order) => sum + order.lines.reduce((total, line) => total + line.quantity, 0), 0);
+
+  const fits = (order: Order): boolean => {
+    const next = [...current, order];
+    if (next.length > config.maxOrdersPerWave) return false;
+    if (config.maxLinesPerWave !== undefined && lines(next) > config.maxLinesPerWave) return false;
+    if (config.maxUnitsPerWave !== undefined && units(next) > config.maxUnitsPerWave) return false;
+    if (config.strategy === "dueTime" && config.dueWindowTicks !== undefined && current[0]?.dueTick !== undefined) {
+      if (order.dueTick === undefined || order.dueTick - current[0].dueTick > config.dueWindowTicks) return false;
+    }
+    return true;
+  };
+
+  const close = () => {
+    if (current.length === 0) return;
+    const dueTicks = current.map(order => order.dueTick).filter((tick): tick is number => tick !== undefined);
+    waves.push({
+      waveId: `W${waves.length + 1}`,
+      orders: current,
+      ...(dueTicks.length > 0 ? { dueTick: Math.min(...dueTicks) } : {}),
+    });
+    current = [];
+  };
+
+  for (const order of sorted) {
+    if (current.length > 0 && !fits(order)) close();
+    current.push(order);
+  }
+  close();
+
+  return waves;
+}
+
+/**
+ * Pick tasks for a wave: the wave's units of each SKU are taken from the shelves holding
+ * the most stock first. Stock that is not on a shelf (zones, robots) is never picked.
+ * Units the shelves cannot cover are returned as shortages.
+ */
+export function waveToTaskPool(
+  wave: Wave,
+  inventory: Inventory,
+  stagingLocation = "Loading Area"
+): { tasks: PoolTask[]; shortages: string[] } {
+  const demand = new Map<string, { quantity: number; orderIds: string[] }>();
+  for (const order of wave.orders) {
+    for (const line of order.lines) {
+      const entry = demand.get(line.skuId) || { quantity: 0, orderIds: [] };
+      entry.quantity += line.quantity;
+      if (!entry.orderIds.includes(order.orderId)) entry.orderIds.push(order.orderId);
+      demand.set(line.skuId, entry);
+    }
+  }
+
+  const stock = inventory.stockLevels();
+  const tasks: PoolTask[] = [];
+  const shortages: string[] = [];
+
+  for (const [skuId, { quantity, orderIds }] of demand) {
+    const sku = inventory.getSku(skuId);
+    const shelves = Object.keys(stock)
+      .filter(location => /^Shelf \d+$/.test(location) && (stock[location][skuId] || 0) > 0)
+      .sort((a, b) => stock[b][skuId] - stock[a][skuId]);
+
+    let remaining = quantity;
+    for (const shelf of shelves) {
+      if (remaining === 0) break;
+      const take = Math.min(remaining, stock[shelf][skuId]);
+      remaining -= take;
+
+      const move: InventoryMove = { operation: "transfer", skuId, quantity: take, from: shelf, to: stagingLocation };
+      tasks.push({
+        taskId: `${wave.waveId}-${tasks.length + 1}`,
+        description: `Pick ${take} ${sku.name} (${skuId}) from ${shelf} and deliver to the ${stagingLocation} for orders ${orderIds.join(", ")}`,
+        inventory: move,
+        ...(wave.dueTick !== undefined ? { dueTick: wave.dueTick } : {}),
+        ...(sku.unitWeightKg !== undefined ? { payloadKg: sku.unitWeightKg * take } : {}),
+      });
+    }
+
+    if (remaining > 0) {
+      shortages.push(`${wave.waveId}: ${remaining} of ${skuId} not on any shelf`);
+    }
+  }
+
+  return { tasks, shortages };
+}
+
+/**
+ * One scenario per wave of the scenario's orders, run in sequence: each wave starts from
+ * the stock the previous waves leave and expects the stock its own tasks produce. The
+ * scenario's own tasks run in the first wave. Scenarios without orders are returned as-is.
+ */
+export function expandOrderWaves(scenario: TestScenario): TestScenario[] {
+  if (!scenario.orders || scenario.orders.orders.length === 0) return [scenario];
+  if (!scenario.inventory) {
+    throw new Error(`Scenario ${scenario.id || "(unnamed)"} has orders but no inventory to pick them from`);
+  }
+
+  const planning = Inventory.fromScenario(scenario.inventory)!;
+  const waves = buildWaves(scenario.orders.orders, scenario.orders.batching);
+
+  // Track the stock each task leaves behind; moves the stock cannot cover are skipped, as in the simulator
+  const plan = (tasks: PoolTask[]) => {
+    for (const task of tasks) {
+      if (!task.inventory) continue;
+      try {
+        planning.apply("planner", task.inventory);
+      } catch (error) {
+        console.warn(`[Scenario ${scenario.id}] ${task.taskId} cannot move stock: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  };
+
+  return waves.map((wave, index) => {
+    const startStock: StockLevels = planning.stockLevels();
+    const ownTasks = index === 0 ? scenario.operatorCommands.taskPool : [];
+    plan(ownTasks);
+
+    const { tasks, shortages } = waveToTaskPool(wave, planning, scenario.orders!.stagingLocation);
+    shortages.forEach(shortage => console.warn(`[Scenario ${scenario.id}] Shortage: ${shortage}`));
+    plan(tasks);
+
+    const taskPool = [...ownTasks, ...tasks];
+
+    return {
+      ...scenario,
+      id: `${scenario.id}-${wave.waveId.toLowerCase()}`,
+      inventory: { ...scenario.inventory!, stock: startStock, replenishment: undefined, expectedStock: planning.stockLevels() },
+      orders: { ...scenario.orders!, orders: wave.orders },
+      operatorCommands: { ...scenario.operatorCommands, taskPool },
+    };
+  });
+}
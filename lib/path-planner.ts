@@ -0,0 +1,314 @@
+/**
+ * Grid Path Planning
+ * Deterministic A* search on the warehouse map with 4-connected moves.
+ * Shelves (S) and obstacles (O) are blocked; every other cell is traversable.
+ * The map's traffic rules are honoured: no moves against one-way aisles, no entering
+ * restricted areas the robot type is not allowed in, and speed zones cost extra ticks.
+ */
+
+import { GridCell, WarehouseMap } from "./warehouse-map";
+
+export type { GridCell };
+
+export interface PathRepairResult {
+  path: GridCell[]; // Continuous, shelf-free path starting at the robot's position
+  waypoints: GridCell[]; // Waypoints actually visited, after moving blocked ones
+  issues: string[]; // Problems found in the original waypoint list
+  repaired: boolean; // True when the waypoints had to be changed, not just connected
+}
+
+/**
+ * Who the path is for: the robot type decides which restricted areas it may enter
+ * (none when unknown); ignoreTraffic plans on the bare grid, e.g. for people and forklifts
+ */
+export interface PathOptions {
+  robotType?: string;
+  ignoreTraffic?: boolean;
+}
+
+export function manhattanDistance(a: GridCell, b: GridCell): number {
+  return Math.abs(a[0] - b[0]) + Math.abs(a[1] - b[1]);
+}
+
+/**
+ * Whether a robot may move between two cells: the target is free and no traffic rule forbids it
+ */
+export function canMove(map: WarehouseMap, from: GridCell, to: GridCell, options: PathOptions = {}): boolean {
+  if (!map.isTraversable(to[0], to[1])) return false;
+  return options.ignoreTraffic || !map.traffic || map.traffic.moveViolation(from, to, options.robotType) === undefined;
+}
+
+/**
+ * Whether a robot may stop on a cell (e.g. as a waypoint): free and not restricted for it
+ */
+export function canStandOn(map: WarehouseMap, [row, col]: GridCell, options: PathOptions = {}): boolean {
+  if (!map.isTraversable(row, col)) return false;
+  return options.ignoreTraffic || !map.traffic || map.traffic.mayEnter(row, col, options.robotType);
+}
+
+/**
+ * Ticks it takes at one cell per tick to enter a cell; speed zones below that cost more
+ */
+function stepCost(map: WarehouseMap, [row, col]: GridCell, options: PathOptions): number {
+  const limit = options.ignoreTraffic ? undefined : map.traffic?.speedLimitAt(row, col);
+  return limit !== undefined && limit < 1 ? 1 / limit : 1;
+}
+
+function neighbors(map: WarehouseMap, cell: GridCell, options: PathOptions): GridCell[] {
+  const [row, col] = cell;
+  const candidates: GridCell[] = [
+    [row - 1, col],
+    [row + 1, col],
+    [row, col - 1],
+    [row, col + 1],
+  ];
+  return candidates.filter(next => canMove(map, cell, next, options));
+}
+
+const cellKey = ([row, col]: GridCell): string => `${row},${col}`;
+
+/**
+ * Binary min-heap keyed on a priority, with insertion order as the tie-breaker
+ * so searches expand nodes deterministically.
+ */
+export class PriorityQueue<T> {
+  private heap: Array<{ item: T; priority: number; order: number }> = [];
+  private counter = 0;
+
+  get size(): number {
+    return this.heap.length;
+  }
+
+  push(item: T, priority: number): void {
+    this.heap.push({ item, priority, order: this.counter++ });
+    let index = this.heap.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (!this.before(index, parent)) break;
+      [this.heap[index], this.heap[parent]] = [this.heap[parent], this.heap[index]];
+      index = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    if (this.heap.length === 0) return undefined;
+    const top = this.heap[0].item;
+    const last = this.heap.pop()!;
+    if (this.heap.length > 0) {
+      this.heap[0] = last;
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < this.heap.length && this.before(left, smallest)) smallest = left;
+        if (right < this.heap.length && this.before(right, smallest)) smallest = right;
+        if (smallest === index) break;
+        [this.heap[index], this.heap[smallest]] = [this.heap[smallest], this.heap[index]];
+        index = smallest;
+      }
+    }
+    return top;
+  }
+
+  private before(a: number, b: number): boolean {
+    const x = this.heap[a];
+    const y = this.heap[b];
+    return x.priority < y.priority || (x.priority === y.priority && x.order < y.order);
+  }
+}
+
+/**
+ * Shortest 4-connected path between two cells, inclusive of both ends.
+ * Returns null when the goal cannot be reached. Ties are broken by insertion
+ * order so the same inputs always produce the same path.
+ */
+export function findPath(map: WarehouseMap, start: GridCell, goal: GridCell, options: PathOptions = {}): GridCell[] | null {
+  if (!map.isTraversable(start[0], start[1]) || !map.isTraversable(goal[0], goal[1])) {
+    return null;
+  }
+
+  const open = new PriorityQueue<GridCell>();
+  open.push(start, manhattanDistance(start, goal));
+  const cameFrom = new Map<string, GridCell>();
+  const gScore = new Map<string, number>([[cellKey(start), 0]]);
+  const closed = new Set<string>();
+
+  while (open.size > 0) {
+    const cell = open.pop()!;
+    const key = cellKey(cell);
+
+    if (cell[0] === goal[0] && cell[1] === goal[1]) {
+      const path: GridCell[] = [cell];
+      let current = cellKey(cell);
+      while (cameFrom.has(current)) {
+        const previous = cameFrom.get(current)!;
+        path.unshift(previous);
+        current = cellKey(previous);
+      }
+      return path;
+    }
+
+    if (closed.has(key)) continue;
+    closed.add(key);
+
+    for (const next of neighbors(map, cell, options)) {
+      const nextKey = cellKey(next);
+      const tentative = gScore.get(key)! + stepCost(map, next, options);
+      if (!closed.has(nextKey) && tentative < (gScore.get(nextKey) ?? Infinity)) {
+        gScore.set(nextKey, tentative);
+        cameFrom.set(nextKey, cell);
+        open.push(next, tentative + manhattanDistance(next, goal));
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Closest traversable cell to the given cell (breadth-first, so ties favour
+ * up, down, left, right in that order) that the robot may stand on.
+ * Returns null for maps without such cells.
+ */
+export function nearestTraversable(map: WarehouseMap, cell: GridCell, options: PathOptions = {}): GridCell | null {
+  if (map.isEmpty) return null;
+  const { rows, cols } = map;
+  const start: GridCell = [
+    Math.min(Math.max(cell[0], 0), rows - 1),
+    Math.min(Math.max(cell[1], 0), cols - 1),
+  ];
+  const queue: GridCell[] = [start];
+  const seen = new Set<string>([cellKey(start)]);
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (canStandOn(map, current, options)) {
+      return current;
+    }
+    const [row, col] = current;
+    const around: GridCell[] = [[row - 1, col], [row + 1, col], [row, col - 1], [row, col + 1]];
+    for (const next of around) {
+      if (!map.inBounds(next[0], next[1])) continue;
+      const key = cellKey(next);
+      if (!seen.has(key)) {
+        seen.add(key);
+        queue.push(next);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find problems in a path as given: out-of-bounds or blocked cells and
+ * consecutive cells that are not 4-adjacent.
+ */
+export function validatePath(map: WarehouseMap, path: GridCell[]): string[] {
+  const issues: string[] = [];
+
+  path.forEach(([row, col], index) => {
+    if (!map.inBounds(row, col)) {
+      issues.push(`Cell (${row}, ${col}) is outside the grid`);
+    } else if (!map.isTraversable(row, col)) {
+      issues.push(`Cell (${row}, ${col}) is a ${map.cellAt(row, col) === "S" ? "shelf" : "obstacle"}`);
+    }
+    if (index > 0 && manhattanDistance(path[index - 1], [row, col]) !== 1) {
+      const [prevRow, prevCol] = path[index - 1];
+      issues.push(`Gap between (${prevRow}, ${prevCol}) and (${row}, ${col})`);
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Cells a robot would cross if it drove straight between each pair of waypoints.
+ * Only axis-aligned segments are walked; diagonal jumps are left to the planner.
+ */
+export function straightLineCells(waypoints: GridCell[]): GridCell[] {
+  const cells: GridCell[] = [];
+  waypoints.forEach((waypoint, index) => {
+    if (index === 0) {
+      cells.push(waypoint);
+      return;
+    }
+    const [fromRow, fromCol] = waypoints[index - 1];
+    const [toRow, toCol] = waypoint;
+    if (fromRow === toRow) {
+      const step = toCol > fromCol ? 1 : -1;
+      for (let col = fromCol + step; col !== toCol + step; col += step) cells.push([toRow, col]);
+    } else if (fromCol === toCol) {
+      const step = toRow > fromRow ? 1 : -1;
+      for (let row = fromRow + step; row !== toRow + step; row += step) cells.push([row, toCol]);
+    } else {
+      cells.push(waypoint);
+    }
+  });
+  return cells;
+}
+
+/**
+ * Start, corners, turnarounds and end of a continuous path, the inverse of
+ * straightLineCells; the planner redraws the straight segments between them
+ */
+export function toWaypoints(cells: GridCell[]): GridCell[] {
+  return cells.filter((cell, index) => {
+    if (index === 0 || index === cells.length - 1) return true;
+    const [before, after] = [cells[index - 1], cells[index + 1]];
+    const turnsBack = before[0] === after[0] && before[1] === after[1];
+    return turnsBack || (before[0] !== after[0] && before[1] !== after[1]);
+  });
+}
+
+/**
+ * Rewrite an LLM waypoint list into a continuous, shelf-free, 4-connected path.
+ * Blocked, restricted or out-of-bounds waypoints are moved to the nearest free cell
+ * and consecutive waypoints are joined with A* shortest paths.
+ */
+export function repairPath(map: WarehouseMap, start: GridCell, waypoints: GridCell[], options: PathOptions = {}): PathRepairResult {
+  const issues: string[] = [];
+  let repaired = false;
+
+  const origin = map.isTraversable(start[0], start[1]) ? start : nearestTraversable(map, start, options);
+  if (!origin) {
+    return { path: [], waypoints: [], issues: ["Grid has no traversable cells"], repaired: true };
+  }
+  if (origin !== start) {
+    issues.push(`Start (${start[0]}, ${start[1]}) is blocked; starting from (${origin[0]}, ${origin[1]})`);
+    repaired = true;
+  }
+
+  const path: GridCell[] = [origin];
+  const visited: GridCell[] = [];
+
+  for (const waypoint of waypoints) {
+    let target = waypoint;
+    if (!canStandOn(map, waypoint, options)) {
+      const snapped = nearestTraversable(map, waypoint, options);
+      if (!snapped) continue;
+      const [row, col] = waypoint;
+      const reason = !map.inBounds(row, col)
+        ? "outside the grid"
+        : map.isTraversable(row, col) ? "in a restricted area" : map.cellAt(row, col) === "S" ? "on a shelf" : "on an obstacle";
+      issues.push(`Waypoint (${row}, ${col}) is ${reason}; moved to (${snapped[0]}, ${snapped[1]})`);
+      repaired = true;
+      target = snapped;
+    }
+
+    const last = path[path.length - 1];
+    if (last[0] === target[0] && last[1] === target[1]) continue;
+
+    const segment = findPath(map, last, target, options);
+    if (!segment) {
+      issues.push(`No route from (${last[0]}, ${last[1]}) to (${target[0]}, ${target[1]})`);
+      repaired = true;
+      break;
+    }
+    path.push(...segment.slice(1));
+    visited.push(target);
+  }
+
+  return { path, waypoints: visited, issues, repaired };
+}
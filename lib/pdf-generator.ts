@@ -6,6 +6,11 @@ import { jsPDF } from "jspdf";
 import { EvaluationResult } from "./evaluation";
 import { TestScenario } from "./test-scenarios";
 import { WarehouseState } from "./langgraph-workflow";
+import { getRobotIds } from "./fleet";
+import { describeHistory } from "./task-lifecycle";
+import { describeAssignments, PLANNING_MODES, PlanningMode } from "./hybrid-planning";
+import { describeToolCalls } from "./planning-tools";
+import { describePlanIssues } from "./plan-validation";
 
 export interface TestRunResult {
   scenario: TestScenario;
@@ -13,6 +18,19 @@ export interface TestRunResult {
   evaluation: EvaluationResult;
   startTime: number;
   endTime: number;
+  appliedTransforms?: string[]; // Scenario transforms applied to the robots before the run
+  planningMode?: PlanningMode;
+}
+
+/**
+ * Averages of the runs made in one planning mode, for side-by-side comparison
+ */
+export interface PlanningModeSummary {
+  mode: PlanningMode;
+  totalTests: number;
+  passedTests: number;
+  averageScore: number;
+  averagePathQuality: number; // Percent of the path quality maximum
 }
 
 export interface TestReport {
@@ -26,6 +44,25 @@ export interface TestReport {
     passedTests: number;
     failedTests: number;
   };
+  planningModes?: PlanningModeSummary[]; // When the runs used more than one planning mode
+}
+
+/**
+ * Per-mode averages of the runs, in order of first appearance
+ */
+export function summarizePlanningModes(results: TestRunResult[]): PlanningModeSummary[] {
+  const modes = Array.from(new Set(results.map(result => result.planningMode || "llm")));
+  return modes.map(mode => {
+    const runs = results.filter(result => (result.planningMode || "llm") === mode);
+    const average = (value: (result: TestRunResult) => number) => runs.reduce((sum, result) => sum + value(result), 0) / runs.length;
+    return {
+      mode,
+      totalTests: runs.length,
+      passedTests: runs.filter(result => result.evaluation.percentage >= 70).length,
+      averageScore: average(result => result.evaluation.percentage),
+      averagePathQuality: average(result => (result.evaluation.pathQuality.score / result.evaluation.pathQuality.maxScore) * 100),
+    };
+  });
 }
 
 /**
@@ -61,6 +98,41 @@ export function generatePDFReport(report: TestReport): Buffer {
   doc.text(`Average Score: ${report.summary.averageScore.toFixed(2)}%`, 20, yPos);
   yPos += 15;
 
+  // Planning modes side by side: overall averages, then each scenario's score per mode
+  if (report.planningModes && report.planningModes.length > 1) {
+    doc.setFontSize(14);
+    doc.text("Planning Mode Comparison", 20, yPos);
+    yPos += 10;
+
+    doc.setFontSize(9);
+    doc.setFont("helvetica", "bold");
+    doc.text("Mode", 20, yPos);
+    doc.text("Passed", 110, yPos);
+    doc.text("Avg Score", 135, yPos);
+    doc.text("Path Quality", 165, yPos);
+    yPos += 7;
+    doc.setFont("helvetica", "normal");
+    report.planningModes.forEach(summary => {
+      doc.text(`${summary.mode}: ${PLANNING_MODES[summary.mode]}`, 20, yPos);
+      doc.text(`${summary.passedTests}/${summary.totalTests}`, 110, yPos);
+      doc.text(`${summary.averageScore.toFixed(2)}%`, 135, yPos);
+      doc.text(`${summary.averagePathQuality.toFixed(2)}%`, 165, yPos);
+      yPos += 7;
+    });
+    yPos += 3;
+
+    const scenarioIds = Array.from(new Set(report.results.map(result => result.scenario.id)));
+    scenarioIds.forEach(scenarioId => {
+      const scores = report.planningModes!.map(({ mode }) => {
+        const run = report.results.find(result => result.scenario.id === scenarioId && (result.planningMode || "llm") === mode);
+        return `${mode} ${run ? `${run.evaluation.percentage.toFixed(1)}% (path ${run.evaluation.pathQuality.score}/${run.evaluation.pathQuality.maxScore})` : "-"}`;
+      });
+      doc.text(`${scenarioId}: ${scores.join(" vs ")}`, 20, yPos);
+      yPos += 6;
+    });
+    yPos += 9;
+  }
+
   // Evaluation Criteria Table
   doc.setFontSize(14);
   doc.text("Evaluation Criteria (Table II)", 20, yPos);
@@ -102,7 +174,8 @@ export function generatePDFReport(report: TestReport): Buffer {
 
     doc.setFontSize(14);
     doc.setFont(undefined, "bold");
-    doc.text(`Test ${index + 1}: ${result.scenario.id}`, 20, yPos);
+    const mode = report.planningModes && report.planningModes.length > 1 ? ` (${result.planningMode || "llm"})` : "";
+    doc.text(`Test ${index + 1}: ${result.scenario.id}${mode}`, 20, yPos);
     yPos += 10;
 
     doc.setFontSize(11);
@@ -113,6 +186,16 @@ export function generatePDFReport(report: TestReport): Buffer {
     doc.text(`Warehoue Dimensions: ${result.scenario.warehouseMap.dimensions.rows}x${result.scenario.warehouseMap.dimensions.columns}`, 20, yPos);
     yPos += 7;
 
+    if (result.appliedTransforms && result.appliedTransforms.length > 0) {
+      doc.setFontSize(9);
+      result.appliedTransforms.forEach(transform => {
+        doc.text(`Scenario transform: ${transform}`, 20, yPos);
+        yPos += 6;
+      });
+      doc.setFontSize(11);
+      yPos += 1;
+    }
+
     // Evaluation Scores
     doc.setFont(undefined, "bold");
     doc.text("Evaluation Scores:", 20, yPos);
@@ -143,16 +226,82 @@ export function generatePDFReport(report: TestReport): Buffer {
     doc.text("Generated Robot Commands:", 20, yPos);
     yPos += 7;
 
+    if (result.state.assignments) {
+      doc.setFont("helvetica", "normal");
+      doc.setFontSize(9);
+      doc.text(`LLM assignments (paths by planner): ${describeAssignments(result.state.assignments)}`, 25, yPos, { maxWidth: 165 });
+      yPos += 6;
+    }
+
+    if (result.state.toolTranscript) {
+      doc.setFont("helvetica", "normal");
+      doc.setFontSize(9);
+      doc.text(`Tool calls (${result.state.toolTranscript.length}): ${describeToolCalls(result.state.toolTranscript)}`, 25, yPos, { maxWidth: 165 });
+      yPos += 6;
+    }
+
+    const planIssues = result.state.planIssues || [];
+    if (planIssues.length > 0 || result.evaluation.repairRounds > 0) {
+      doc.setFont("helvetica", "normal");
+      doc.setFontSize(9);
+      const outcome = planIssues.length === 0 ? "passed" : `${describePlanIssues(planIssues)} left`;
+      doc.text(`Plan validation: ${outcome} after ${result.evaluation.repairRounds} repair round(s)`, 25, yPos, { maxWidth: 165 });
+      yPos += 6;
+    }
+
     doc.setFont(undefined, "normal");
     doc.setFontSize(9);
-    doc.text(`R1: ${result.state.robotCommands.R1}`, 25, yPos);
-    yPos += 6;
-    doc.text(`R2: ${result.state.robotCommands.R2}`, 25, yPos);
-    yPos += 6;
-    doc.text(`R3: ${result.state.robotCommands.R3}`, 25, yPos);
-    yPos += 6;
-    doc.text(`R4: ${result.state.robotCommands.R4}`, 25, yPos);
-    yPos += 10;
+    getRobotIds(result.state).forEach(robotId => {
+      if (yPos > 280) {
+        doc.addPage();
+        yPos = 20;
+      }
+      doc.text(`${robotId}: ${result.state.robotCommands[robotId] || ""}`, 25, yPos);
+      yPos += 6;
+    });
+    yPos += 4;
+
+    // Simulated execution
+    if (result.state.simulation) {
+      const simulation = result.state.simulation;
+      const completed = simulation.tasks.filter(t => t.status === "completed").length;
+      const failed = simulation.tasks.filter(t => t.status === "failed").length;
+      doc.setFontSize(11);
+      doc.setFont("helvetica", "bold");
+      doc.text("Simulated Execution:", 20, yPos);
+      yPos += 7;
+
+      doc.setFont("helvetica", "normal");
+      doc.setFontSize(9);
+      doc.text(`${simulation.ticks} ticks, ${completed} completed, ${failed} failed${simulation.finished ? "" : " (stopped at tick limit)"}`, 25, yPos);
+      yPos += 6;
+      simulation.tasks.forEach(task => {
+        doc.text(`${task.queueId || task.robotId}: ${describeHistory(task.history)}`, 25, yPos);
+        yPos += 6;
+      });
+      (simulation.faults || []).forEach(report => {
+        const detection = report.detectedAt !== undefined ? `detected at tick ${report.detectedAt}` : report.injected ? "not detected" : "no effect";
+        doc.text(`Fault ${report.fault.robotId} ${report.fault.type} at tick ${report.fault.atTick}: ${detection}${report.recovered && report.orphanedTasks.length > 0 ? ", tasks recovered" : ""}`, 25, yPos);
+        yPos += 6;
+      });
+      if (simulation.charging) {
+        const occupied = simulation.charging.stations.filter(station => station.robotId).map(station => `${station.id} ${station.robotId}`);
+        const waiting = simulation.charging.waiting.length > 0 ? `; waiting: ${simulation.charging.waiting.join(", ")}` : "";
+        doc.text(`Charging stations: ${occupied.join(", ") || "all free"}${waiting}`, 25, yPos);
+        yPos += 6;
+      }
+      (simulation.locks || []).forEach(lock => {
+        doc.text(`${lock.kind === "deadlock" ? "Deadlock" : "Livelock"} of ${lock.robots.join("/")} at tick ${lock.tick}${lock.resolution ? `: ${lock.resolution}` : ""}`, 25, yPos);
+        yPos += 6;
+      });
+      simulation.events
+        .filter(e => e.type === "failed")
+        .forEach(e => {
+          doc.text(`${e.robotId} failed at tick ${e.tick}: ${e.detail || "unknown reason"}`, 25, yPos);
+          yPos += 6;
+        });
+      yPos += 4;
+    }
   });
 
   // Convert to buffer
@@ -0,0 +1,173 @@
+/**
+ * Plan Validation
+ * Checks the robot plans Node 3 produced before they are executed: responses that do not fit
+ * the plan schema (reported by Node 3 itself, see InvalidPlanError), paths through shelves or
+ * obstacles, diagonal jumps between waypoints, scenario tasks no robot was given, robots
+ * below the battery threshold that are not sent to charge (or told to wait while the plans
+ * leave no station free), and collisions between robots.
+ * The workflow sends failing plans back to the LLM with the issues to fix.
+ */
+
+import { straightLineCells } from "./path-planner";
+import { detectConflicts, timedPathsFromWaypoints } from "./multi-agent-planner";
+import { findTaskReferences, ScenarioTaskReference } from "./robots";
+import { planPath } from "./robot-plan";
+import { ChargingManager, chargingAllocations, checkChargingAllocation } from "./charging-manager";
+import type { FleetState } from "./fleet";
+import type { RobotTasks } from "./llm-providers";
+import type { RobotType } from "./robot-types";
+import type { GridCell, WarehouseMap } from "./warehouse-map";
+
+export type PlanIssueKind = "schema" | "shelf-cell" | "discontinuous-path" | "unassigned-task" | "low-battery" | "collision";
+
+export interface PlanIssue {
+  kind: PlanIssueKind;
+  robotIds: string[]; // Robots whose plans must change; empty for unassigned tasks and schema errors
+  action?: number; // 1-based index of the offending action in the robot's plan
+  taskId?: string;
+  cell?: GridCell;
+  message: string;
+}
+
+export interface PlanValidationContext {
+  map: WarehouseMap;
+  fleet: FleetState;
+  types: { [robotId: string]: RobotType };
+  taskPool?: ScenarioTaskReference[];
+  batteryThresholdPercent?: number; // Default 20
+}
+
+/**
+ * Times Node 3 may be sent back to fix a failing plan in one run
+ */
+export const MAX_REPAIR_ROUNDS = 2;
+
+/**
+ * Every issue found in the plans, grid checks first. Grid checks are skipped without a map.
+ */
+export function validateRobotPlans(plans: RobotTasks, context: PlanValidationContext): PlanIssue[] {
+  const { map, fleet } = context;
+  const issues: PlanIssue[] = [];
+
+  if (!map.isEmpty) {
+    for (const [robotId, plan] of Object.entries(plans)) {
+      const status = fleet[robotId];
+      if (!plan || !status) continue;
+      let position: GridCell = [status.position.row, status.position.col];
+      plan.actions.forEach((action, index) => {
+        if (action.path.length === 0) return;
+        issues.push(...checkSegment(map, robotId, index + 1, [position, ...action.path]));
+        position = action.path[action.path.length - 1];
+      });
+    }
+  }
+
+  const taskPool = context.taskPool || [];
+  const assigned = new Set(findTaskReferences(plans, taskPool).map(({ task }) => task.taskId));
+  for (const task of taskPool.filter(task => !assigned.has(task.taskId))) {
+    issues.push({
+      kind: "unassigned-task",
+      robotIds: [],
+      taskId: task.taskId,
+      message: `Task ${task.taskId} (${task.description}) is not assigned to any robot`,
+    });
+  }
+
+  const threshold = context.batteryThresholdPercent ?? 20;
+  const stationsLeft = freeStations(plans, context);
+  for (const [robotId, status] of Object.entries(fleet)) {
+    // Robots already docked at a station are charging
+    if (status.battery >= threshold || status.chargingStationId !== undefined) continue;
+    const plan = plans[robotId];
+    if (plan && plan.actions.some(action => action.type === "charge")) continue;
+    if (plan && stationsLeft === 0 && plan.actions.every(action => action.type === "wait")) continue;
+    issues.push({
+      kind: "low-battery",
+      robotIds: [robotId],
+      message: `${robotId} is at ${status.battery}% battery (below ${threshold}%) but its plan has no charge action`,
+    });
+  }
+
+  if (!map.isEmpty) {
+    issues.push(...findCollisions(plans, context));
+  }
+
+  return issues;
+}
+
+/**
+ * "2 collision, 1 unassigned-task" for logs and reports
+ */
+export function describePlanIssues(issues: PlanIssue[]): string {
+  const counts = new Map<PlanIssueKind, number>();
+  issues.forEach(issue => counts.set(issue.kind, (counts.get(issue.kind) || 0) + 1));
+  return Array.from(counts.entries()).map(([kind, count]) => `${count} ${kind}`).join(", ") || "none";
+}
+
+// Stations no robot holds or is sent to by the plans
+function freeStations(plans: RobotTasks, { map, fleet }: PlanValidationContext): number {
+  const manager = ChargingManager.fromFleet(map, fleet);
+  const { reservations } = checkChargingAllocation(manager, chargingAllocations(plans, fleet, map));
+  return manager.snapshot().stations.filter(station => !station.robotId).length - reservations.length;
+}
+
+// One action's waypoints, starting where the previous action ended; one issue per kind is
+// enough for the model to find the action
+function checkSegment(map: WarehouseMap, robotId: string, action: number, waypoints: GridCell[]): PlanIssue[] {
+  const issues: PlanIssue[] = [];
+
+  const jump = waypoints.findIndex((cell, index) => index > 0 && cell[0] !== waypoints[index - 1][0] && cell[1] !== waypoints[index - 1][1]);
+  if (jump > 0) {
+    const [from, to] = [waypoints[jump - 1], waypoints[jump]];
+    issues.push({
+      kind: "discontinuous-path",
+      robotIds: [robotId],
+      action,
+      cell: to,
+      message: `${robotId} action ${action} jumps diagonally from ${formatCell(from)} to ${formatCell(to)}; consecutive waypoints must share a row or column`,
+    });
+  }
+
+  const blocked = straightLineCells(waypoints).find(([row, col]) => !map.isTraversable(row, col));
+  if (blocked) {
+    const cell = map.cellAt(blocked[0], blocked[1]);
+    const what = cell === undefined ? "a cell outside the grid" : cell === "S" ? "shelf cell" : "obstacle";
+    issues.push({
+      kind: "shelf-cell",
+      robotIds: [robotId],
+      action,
+      cell: blocked,
+      message: `${robotId} action ${action} path runs through ${what} ${formatCell(blocked)}`,
+    });
+  }
+
+  return issues;
+}
+
+// Drive every plan at its robot's speed; robots without a path stay where they are
+function findCollisions(plans: RobotTasks, { map, fleet, types }: PlanValidationContext): PlanIssue[] {
+  const starts: { [robotId: string]: GridCell } = {};
+  const waypoints: { [robotId: string]: GridCell[] } = {};
+  for (const [robotId, status] of Object.entries(fleet)) {
+    starts[robotId] = [status.position.row, status.position.col];
+    waypoints[robotId] = planPath(plans[robotId]);
+  }
+  const speeds = Object.fromEntries(Object.entries(types).map(([robotId, type]) => [robotId, type.speedCellsPerTick]));
+  const typeIds = Object.fromEntries(Object.entries(types).map(([robotId, type]) => [robotId, type.id]));
+
+  return detectConflicts(timedPathsFromWaypoints(map, starts, waypoints, speeds, typeIds)).map(conflict => {
+    const [a, b] = conflict.robotIds;
+    return {
+      kind: "collision",
+      robotIds: [a, b],
+      cell: conflict.cells[0],
+      message: conflict.type === "vertex"
+        ? `${a} and ${b} are both at ${formatCell(conflict.cells[0])} at tick ${conflict.tick}`
+        : `${a} and ${b} swap cells ${formatCell(conflict.cells[0])} and ${formatCell(conflict.cells[1])} at tick ${conflict.tick}`,
+    };
+  });
+}
+
+function formatCell([row, col]: GridCell): string {
+  return `[${row}, ${col}]`;
+}
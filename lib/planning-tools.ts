@@ -0,0 +1,271 @@
+/**
+ * Planning Tools
+ * Grid and fleet queries the LLM can call while it plans (Anthropic tools, OpenAI and xAI
+ * function calling, Gemini function declarations) instead of working out paths in its head:
+ * plan_path, get_robot_status, check_conflicts and nearest_charger. Every tool runs locally
+ * and deterministically on the run's map and fleet; each call is kept in a transcript.
+ */
+
+import { findPath, GridCell, straightLineCells, toWaypoints } from "./path-planner";
+import { detectConflicts, timedPathsFromWaypoints } from "./multi-agent-planner";
+import type { ChargingManager, ChargingSnapshot } from "./charging-manager";
+import type { FleetState } from "./fleet";
+import type { RobotType } from "./robot-types";
+import type { WarehouseMap } from "./warehouse-map";
+
+export type PlanningToolName = "plan_path" | "get_robot_status" | "check_conflicts" | "nearest_charger";
+
+/**
+ * JSON Schema subset every provider accepts for tool parameters
+ */
+export interface ToolParameterSchema {
+  type: "object" | "array" | "string" | "integer";
+  description?: string;
+  properties?: { [name: string]: ToolParameterSchema };
+  items?: ToolParameterSchema;
+  required?: string[];
+}
+
+export interface ToolDefinition {
+  name: PlanningToolName;
+  description: string;
+  parameters: ToolParameterSchema;
+}
+
+/**
+ * One tool call as the model made it and what it got back
+ */
+export interface ToolCallRecord {
+  round: number; // Model turn that made the call, from 1
+  tool: string;
+  input: unknown;
+  output: unknown;
+  isError: boolean;
+}
+
+/**
+ * Tool-calling turns a model gets before it must give its final answer
+ */
+export const MAX_TOOL_ROUNDS = 8;
+
+const CELL: ToolParameterSchema = { type: "array", items: { type: "integer" }, description: "Cell as [row, col]" };
+const ROBOT_ID: ToolParameterSchema = { type: "string", description: "Robot ID, e.g. R1" };
+
+export const PLANNING_TOOLS: ToolDefinition[] = [
+  {
+    name: "plan_path",
+    description: "Shortest legal path between two cells (A*, avoiding shelves and obstacles and following traffic rules). Returns the waypoints (start, corners, end) to put in an action's path, and the number of moves.",
+    parameters: {
+      type: "object",
+      properties: {
+        from: CELL,
+        to: CELL,
+        robotId: { ...ROBOT_ID, description: "Robot that drives the path, so its type's restricted areas apply (optional)" },
+      },
+      required: ["from", "to"],
+    },
+  },
+  {
+    name: "get_robot_status",
+    description: "A robot's position, battery, status, type, capabilities, payload and speed, and the charging station it holds.",
+    parameters: { type: "object", properties: { robotId: ROBOT_ID }, required: ["robotId"] },
+  },
+  {
+    name: "check_conflicts",
+    description: "Check a draft plan: drives every robot's waypoints from its position at its speed (robots left out stay put) and reports vertex and swap conflicts between robots, segments through shelves or obstacles, and traffic rule violations.",
+    parameters: {
+      type: "object",
+      properties: {
+        plan: {
+          type: "array",
+          description: "One entry per robot that moves",
+          items: {
+            type: "object",
+            properties: { robotId: ROBOT_ID, path: { type: "array", items: CELL, description: "Waypoints as [[row, col], ...]" } },
+            required: ["robotId", "path"],
+          },
+        },
+      },
+      required: ["plan"],
+    },
+  },
+  {
+    name: "nearest_charger",
+    description: "Nearest charging station that no robot holds, by path length from a cell, with the path there; reports when every station is taken.",
+    parameters: {
+      type: "object",
+      properties: { position: CELL, robotId: { ...ROBOT_ID, description: "Robot that drives there (optional)" } },
+      required: ["position"],
+    },
+  },
+];
+
+/**
+ * "plan_path x5, check_conflicts x2 (1 failed)" for logs and reports
+ */
+export function describeToolCalls(transcript: ToolCallRecord[]): string {
+  const counts = new Map<string, { calls: number; failed: number }>();
+  for (const { tool, isError } of transcript) {
+    const count = counts.get(tool) || { calls: 0, failed: 0 };
+    count.calls++;
+    if (isError) count.failed++;
+    counts.set(tool, count);
+  }
+  return Array.from(counts.entries())
+    .map(([tool, { calls, failed }]) => `${tool} x${calls}${failed > 0 ? ` (${failed} failed)` : ""}`)
+    .join(", ") || "none";
+}
+
+export class PlanningToolbox {
+  readonly definitions: ToolDefinition[] = PLANNING_TOOLS;
+  readonly transcript: ToolCallRecord[] = [];
+  private map: WarehouseMap;
+  private fleet: FleetState;
+  private types: { [robotId: string]: RobotType };
+  private charging: ChargingManager;
+
+  constructor(map: WarehouseMap, fleet: FleetState, types: { [robotId: string]: RobotType }, charging: ChargingManager) {
+    this.map = map;
+    this.fleet = fleet;
+    this.types = types;
+    this.charging = charging;
+  }
+
+  /**
+   * Run a tool the model called and record it. Arguments may arrive as a JSON string
+   * (OpenAI-style function calls). Bad arguments and unknown tools come back as an error
+   * result for the model to correct rather than failing the run.
+   */
+  call(name: string, input: unknown, round: number): ToolCallRecord {
+    let record: ToolCallRecord;
+    try {
+      const args = typeof input === "string" ? (input.trim() ? JSON.parse(input) : {}) : input;
+      record = { round, tool: name, input: args, output: this.run(name, isRecord(args) ? args : {}), isError: false };
+    } catch (error) {
+      record = { round, tool: name, input, output: { error: error instanceof Error ? error.message : String(error) }, isError: true };
+    }
+    this.transcript.push(record);
+    return record;
+  }
+
+  private run(name: string, args: Record<string, unknown>): unknown {
+    switch (name) {
+      case "plan_path":
+        return this.planPath(toCell(args.from, "from"), toCell(args.to, "to"), this.robotType(args.robotId));
+      case "get_robot_status":
+        return this.robotStatus(toRobotId(args.robotId));
+      case "check_conflicts":
+        return this.checkConflicts(args.plan);
+      case "nearest_charger":
+        return this.nearestCharger(toCell(args.position, "position"), this.robotType(args.robotId));
+      default:
+        throw new Error(`Unknown tool "${name}"; use one of ${PLANNING_TOOLS.map(tool => tool.name).join(", ")}`);
+    }
+  }
+
+  private planPath(from: GridCell, to: GridCell, robotType?: string) {
+    const path = findPath(this.map, from, to, { robotType });
+    if (!path) {
+      throw new Error(`No legal path from [${from.join(", ")}] to [${to.join(", ")}]${robotType ? ` for a ${robotType}` : ""}`);
+    }
+    return { waypoints: toWaypoints(path), moves: path.length - 1 };
+  }
+
+  private robotStatus(robotId: string) {
+    const state = this.fleet[robotId];
+    if (!state) {
+      throw new Error(`Unknown robot "${robotId}"; the fleet is ${Object.keys(this.fleet).join(", ")}`);
+    }
+    const type = this.types[robotId];
+    const station = this.charging.reservationFor(robotId)?.stationId;
+    return {
+      robotId,
+      position: [state.position.row, state.position.col],
+      battery: state.battery,
+      status: state.status,
+      type: type?.id,
+      capabilities: type?.capabilities,
+      maxPayloadKg: type?.maxPayloadKg,
+      speedCellsPerTick: type?.speedCellsPerTick,
+      ...(station !== undefined ? { chargingStation: station } : {}),
+    };
+  }
+
+  private checkConflicts(plan: unknown) {
+    if (!Array.isArray(plan)) {
+      throw new Error(`"plan" must be a list of {"robotId": ..., "path": [[row, col], ...]}`);
+    }
+    const waypoints: { [robotId: string]: GridCell[] } = {};
+    for (const entry of plan) {
+      const robotId = toRobotId(isRecord(entry) ? entry.robotId : undefined);
+      if (!this.fleet[robotId]) throw new Error(`Unknown robot "${robotId}"`);
+      const path = isRecord(entry) ? entry.path : undefined;
+      if (!Array.isArray(path)) throw new Error(`Path of ${robotId} must be [[row, col], ...]`);
+      waypoints[robotId] = path.map((cell, index) => toCell(cell, `${robotId} path[${index}]`));
+    }
+
+    const starts = Object.fromEntries(Object.entries(this.fleet).map(([robotId, { position }]) => [robotId, [position.row, position.col] as GridCell]));
+    const speeds = Object.fromEntries(Object.entries(this.types).map(([robotId, type]) => [robotId, type.speedCellsPerTick]));
+    const typeIds = Object.fromEntries(Object.entries(this.types).map(([robotId, type]) => [robotId, type.id]));
+    const conflicts = detectConflicts(timedPathsFromWaypoints(this.map, starts, waypoints, speeds, typeIds));
+
+    const blocked = Object.entries(waypoints).flatMap(([robotId, path]) =>
+      straightLineCells(path)
+        .filter(([row, col]) => !this.map.isTraversable(row, col))
+        .map(([row, col]) => `${robotId} crosses a blocked cell at [${row}, ${col}]`)
+    );
+    const traffic = this.map.traffic;
+    const trafficViolations = traffic
+      ? Object.entries(waypoints).flatMap(([robotId, path]) =>
+          traffic.pathViolations(straightLineCells(path), typeIds[robotId]).map(violation => `${robotId} ${violation}`)
+        )
+      : [];
+
+    return {
+      ok: conflicts.length === 0 && blocked.length === 0 && trafficViolations.length === 0,
+      conflicts: conflicts.map(conflict => ({ type: conflict.type, robots: conflict.robotIds, tick: conflict.tick, cells: conflict.cells })),
+      blocked,
+      trafficViolations,
+    };
+  }
+
+  private nearestCharger(position: GridCell, robotType?: string) {
+    const { stations } = this.charging.snapshot();
+    const routes = stations
+      .filter(station => !station.robotId)
+      .map(station => ({ station, path: findPath(this.map, position, station.cell, { robotType }) }))
+      .filter((entry): entry is { station: ChargingSnapshot["stations"][number]; path: GridCell[] } => entry.path !== null)
+      .sort((a, b) => a.path.length - b.path.length || a.station.id - b.station.id);
+    if (routes.length === 0) {
+      const taken = stations.map(station => `${station.id} (${station.robotId || "unreachable"})`).join(", ");
+      return { available: false, reason: `Every reachable charging station is taken: ${taken}` };
+    }
+    const { station, path } = routes[0];
+    return { available: true, name: `Charging station ${station.id}`, cell: station.cell, waypoints: toWaypoints(path), moves: path.length - 1 };
+  }
+
+  private robotType(robotId: unknown): string | undefined {
+    if (robotId === undefined || robotId === null || robotId === "") return undefined;
+    const id = toRobotId(robotId);
+    if (!this.types[id]) throw new Error(`Unknown robot "${id}"`);
+    return this.types[id].id;
+  }
+}
+
+function toCell(raw: unknown, name: string): GridCell {
+  if (!Array.isArray(raw) || raw.length !== 2 || !raw.every(value => Number.isInteger(value))) {
+    throw new Error(`"${name}" must be a [row, col] cell of integers, got ${JSON.stringify(raw)}`);
+  }
+  return [raw[0], raw[1]];
+}
+
+function toRobotId(raw: unknown): string {
+  if (typeof raw !== "string" || !raw.trim()) {
+    throw new Error(`"robotId" must be a robot ID such as "R1", got ${JSON.stringify(raw)}`);
+  }
+  return raw.trim();
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,51 @@
+/**
+ * Robot Color Palette
+ * Tailwind class sets assigned to robots by their position in the fleet. Class names
+ * are written out in full so Tailwind's source scanning picks them up; fleets larger
+ * than the palette reuse colors in order.
+ */
+
+import { sortRobotIds } from "./fleet";
+
+export interface RobotPalette {
+  marker: string; // Robot cell on the grid
+  path: string; // Path overlay fill
+  pathBorder: string; // Path overlay border
+  cardBg: string;
+  cardText: string;
+  cardBorder: string;
+  darkText: string; // Labels on dark panels
+  darkBg: string; // Tinted background on dark panels
+}
+
+const PALETTE: RobotPalette[] = [
+  { marker: "bg-blue-600 text-white", path: "bg-blue-300", pathBorder: "border-blue-600", cardBg: "bg-blue-100", cardText: "text-blue-800", cardBorder: "border-blue-500", darkText: "text-blue-400", darkBg: "bg-blue-500/20" },
+  { marker: "bg-green-600 text-white", path: "bg-green-300", pathBorder: "border-green-600", cardBg: "bg-green-100", cardText: "text-green-800", cardBorder: "border-green-500", darkText: "text-green-400", darkBg: "bg-green-500/20" },
+  { marker: "bg-purple-600 text-white", path: "bg-purple-300", pathBorder: "border-purple-600", cardBg: "bg-purple-100", cardText: "text-purple-800", cardBorder: "border-purple-500", darkText: "text-purple-400", darkBg: "bg-purple-500/20" },
+  { marker: "bg-orange-600 text-white", path: "bg-orange-300", pathBorder: "border-orange-600", cardBg: "bg-orange-100", cardText: "text-orange-800", cardBorder: "border-orange-500", darkText: "text-orange-400", darkBg: "bg-orange-500/20" },
+  { marker: "bg-pink-600 text-white", path: "bg-pink-300", pathBorder: "border-pink-600", cardBg: "bg-pink-100", cardText: "text-pink-800", cardBorder: "border-pink-500", darkText: "text-pink-400", darkBg: "bg-pink-500/20" },
+  { marker: "bg-teal-600 text-white", path: "bg-teal-300", pathBorder: "border-teal-600", cardBg: "bg-teal-100", cardText: "text-teal-800", cardBorder: "border-teal-500", darkText: "text-teal-400", darkBg: "bg-teal-500/20" },
+  { marker: "bg-red-600 text-white", path: "bg-red-300", pathBorder: "border-red-600", cardBg: "bg-red-100", cardText: "text-red-800", cardBorder: "border-red-500", darkText: "text-red-400", darkBg: "bg-red-500/20" },
+  { marker: "bg-indigo-600 text-white", path: "bg-indigo-300", pathBorder: "border-indigo-600", cardBg: "bg-indigo-100", cardText: "text-indigo-800", cardBorder: "border-indigo-500", darkText: "text-indigo-400", darkBg: "bg-indigo-500/20" },
+  { marker: "bg-cyan-600 text-white", path: "bg-cyan-300", pathBorder: "border-cyan-600", cardBg: "bg-cyan-100", cardText: "text-cyan-800", cardBorder: "border-cyan-500", darkText: "text-cyan-400", darkBg: "bg-cyan-500/20" },
+  { marker: "bg-fuchsia-600 text-white", path: "bg-fuchsia-300", pathBorder: "border-fuchsia-600", cardBg: "bg-fuchsia-100", cardText: "text-fuchsia-800", cardBorder: "border-fuchsia-500", darkText: "text-fuchsia-400", darkBg: "bg-fuchsia-500/20" },
+];
+
+const UNKNOWN_ROBOT: RobotPalette = {
+  marker: "bg-gray-600 text-white",
+  path: "bg-gray-300",
+  pathBorder: "border-gray-600",
+  cardBg: "bg-gray-100",
+  cardText: "text-gray-800",
+  cardBorder: "border-gray-500",
+  darkText: "text-gray-400",
+  darkBg: "bg-gray-500/20",
+};
+
+/**
+ * Colors for a robot, based on its position in the (naturally sorted) fleet
+ */
+export function getRobotPalette(robotId: string, robotIds: string[]): RobotPalette {
+  const index = sortRobotIds(robotIds).indexOf(robotId);
+  return index === -1 ? UNKNOWN_ROBOT : PALETTE[index % PALETTE.length];
+}
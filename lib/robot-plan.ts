@@ -0,0 +1,252 @@
+/**
+ * Robot Plan Schema
+ * What every provider returns for each robot: an ordered list of actions (navigate, pick,
+ * drop, charge, wait), each with its target location, the scenario tasks it serves, the
+ * waypoints that lead there and a short rationale. Paths are read from the actions; the
+ * free-text description is derived from them for display.
+ */
+
+import type { RobotTasks } from "./llm-providers";
+import type { GridCell } from "./warehouse-map";
+
+export type PlanActionType = "navigate" | "pick" | "drop" | "charge" | "wait";
+
+export const PLAN_ACTION_TYPES: PlanActionType[] = ["navigate", "pick", "drop", "charge", "wait"];
+
+export interface PlanTarget {
+  name?: string; // Named location, e.g. "Shelf 38" or "Charging station 270"
+  cell?: GridCell;
+}
+
+export interface PlanAction {
+  type: PlanActionType;
+  target?: PlanTarget;
+  taskIds: string[]; // Scenario tasks the action serves
+  path: GridCell[]; // Waypoints from where the previous action ended to the target
+  rationale?: string;
+}
+
+export interface RobotPlan {
+  actions: PlanAction[];
+  description: string; // Derived from the actions; never parsed
+}
+
+/**
+ * A response that does not fit the plan schema. The workflow sends it back to the model as a
+ * plan issue; `response` is the parsed response that failed, when there was one.
+ */
+export class InvalidPlanError extends Error {
+  response?: unknown;
+
+  constructor(message: string, response?: unknown) {
+    super(message);
+    this.name = "InvalidPlanError";
+    this.response = response;
+  }
+}
+
+const ACTION_VERBS: { [type in PlanActionType]: [string, string] } = {
+  navigate: ["navigate", "to"],
+  pick: ["pick", "at"],
+  drop: ["drop", "at"],
+  charge: ["charge", "at"],
+  wait: ["wait", "at"],
+};
+
+/**
+ * "Pick at Loading Area [15, 6] for Alpha (closest tugger); then drop at Shelf 97 [6, 13] for Alpha"
+ */
+export function describeActions(actions: PlanAction[]): string {
+  const text = actions
+    .map(action => {
+      const [verb, preposition] = ACTION_VERBS[action.type];
+      const target = [action.target?.name, action.target?.cell && formatCell(action.target.cell)].filter(Boolean).join(" ");
+      return [
+        verb,
+        target && `${preposition} ${target}`,
+        action.taskIds.length > 0 && `for ${action.taskIds.join(", ")}`,
+        action.rationale && `(${action.rationale})`,
+      ].filter(Boolean).join(" ");
+    })
+    .join("; then ");
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+export function createPlan(actions: PlanAction[]): RobotPlan {
+  return { actions, description: describeActions(actions) };
+}
+
+/**
+ * The robot's whole route: every action's waypoints in order, without repeating the cell
+ * where one action ends and the next starts
+ */
+export function planPath(plan: RobotPlan | undefined): GridCell[] {
+  const path: GridCell[] = [];
+  for (const action of plan?.actions || []) {
+    for (const [row, col] of action.path) {
+      const last = path[path.length - 1];
+      if (!last || last[0] !== row || last[1] !== col) path.push([row, col]);
+    }
+  }
+  return path;
+}
+
+/**
+ * Scenario task IDs the plan serves, in the order its actions reach them
+ */
+export function planTaskIds(plan: RobotPlan | undefined): string[] {
+  return [...new Set((plan?.actions || []).flatMap(action => action.taskIds))];
+}
+
+/**
+ * The plan cut after each action that finishes a scenario task (the last action naming it),
+ * with the task IDs each piece finishes; actions after the last such cut form a final piece
+ * that finishes none, e.g. a trip to a charging station
+ */
+export function splitPlanByTask(plan: RobotPlan): Array<{ actions: PlanAction[]; finishes: string[] }> {
+  const lastAction = new Map<string, number>();
+  plan.actions.forEach((action, index) => action.taskIds.forEach(taskId => lastAction.set(taskId, index)));
+
+  const pieces: Array<{ actions: PlanAction[]; finishes: string[] }> = [];
+  let actions: PlanAction[] = [];
+  plan.actions.forEach((action, index) => {
+    actions.push(action);
+    const finishes = action.taskIds.filter(taskId => lastAction.get(taskId) === index);
+    if (finishes.length > 0) {
+      pieces.push({ actions, finishes });
+      actions = [];
+    }
+  });
+  if (actions.length > 0) pieces.push({ actions, finishes: [] });
+  return pieces;
+}
+
+/**
+ * Check a parsed response against the schema and normalise it. Each robot maps to
+ * {"actions": [...]}. Throws an InvalidPlanError on plain-text entries and malformed actions;
+ * keys that are not robots in the fleet are left out with a warning.
+ */
+export function validatePlans(response: unknown, robotIds: string[]): RobotTasks {
+  try {
+    return readPlans(response, robotIds);
+  } catch (error) {
+    if (error instanceof InvalidPlanError) error.response = response;
+    throw error;
+  }
+}
+
+/**
+ * JSON response skeleton with one plan per robot, for prompts. Without paths (hybrid
+ * planning) the path planner adds them.
+ */
+export function planResponseTemplate(robotIds: string[], withPaths = true): string {
+  const action = withPaths
+    ? `{"type": "navigate", "target": {"name": "Shelf 38", "cell": [row, col]}, "taskIds": ["Alpha"], "path": [[row, col], [row, col], ...], "rationale": "why this robot and route"}`
+    : `{"type": "navigate", "target": {"name": "Shelf 38"}, "taskIds": ["Alpha"], "rationale": "why this robot"}`;
+  return `{\n${robotIds.map(robotId => `  "${robotId}": {"actions": [${action}, ...]}`).join(",\n")}\n}`;
+}
+
+/**
+ * What each field of an action means, to go with the response template
+ */
+export function planSchemaRules(withPaths = true): string {
+  return [
+    `- "actions" run in order; "type" is one of ${PLAN_ACTION_TYPES.join(", ")}`,
+    `- "target" names the location${withPaths ? ` and gives its [row, col] cell` : ""}; "taskIds" lists the scenario task IDs the action serves (empty for charging or waiting)`,
+    withPaths
+      ? `- "path" lists [row, col] waypoints from where the previous action ended (the robot's position for the first action) to the target`
+      : `- Leave out "path" and cells: the path planner computes them`,
+    `- "rationale" says briefly why`,
+  ].join("\n");
+}
+
+function readPlans(response: unknown, robotIds: string[]): RobotTasks {
+  if (!isRecord(response)) {
+    throw new InvalidPlanError("Invalid plan: the response must be a JSON object keyed by robot ID");
+  }
+  const unknown = Object.keys(response).filter(key => !robotIds.includes(key));
+  if (unknown.length > 0) {
+    console.warn(`[Plan] Ignoring entries for robots not in the fleet: ${unknown.join(", ")}`);
+  }
+
+  const plans: RobotTasks = {};
+  for (const robotId of robotIds) {
+    const entry = response[robotId];
+    if (entry === undefined || entry === null || entry === "") continue;
+    if (typeof entry === "string") {
+      throw new InvalidPlanError(`Invalid plan for ${robotId}: got plain text; expected {"actions": [...]}`);
+    }
+    const actions = Array.isArray(entry) ? entry : isRecord(entry) ? entry.actions : undefined;
+    if (!Array.isArray(actions)) {
+      throw new InvalidPlanError(`Invalid plan for ${robotId}: expected {"actions": [...]}`);
+    }
+    plans[robotId] = createPlan(actions.map((action, index) => validateAction(action, `${robotId} action ${index + 1}`)));
+  }
+  return plans;
+}
+
+function validateAction(raw: unknown, label: string): PlanAction {
+  if (!isRecord(raw)) {
+    throw new InvalidPlanError(`Invalid plan: ${label} must be an object`);
+  }
+  const type = typeof raw.type === "string" ? raw.type.toLowerCase() : raw.type;
+  if (!PLAN_ACTION_TYPES.includes(type as PlanActionType)) {
+    throw new InvalidPlanError(`Invalid plan: ${label} has unknown type ${JSON.stringify(raw.type)}; use one of ${PLAN_ACTION_TYPES.join(", ")}`);
+  }
+
+  const action: PlanAction = { type: type as PlanActionType, taskIds: validateTaskIds(raw.taskIds, label), path: [] };
+  if (raw.path !== undefined && raw.path !== null) {
+    if (!Array.isArray(raw.path)) {
+      throw new InvalidPlanError(`Invalid plan: ${label} path must be [[row, col], ...]`);
+    }
+    action.path = raw.path.map(cell => toCell(cell, `${label} path`));
+  }
+  if (raw.target !== undefined && raw.target !== null) {
+    action.target = validateTarget(raw.target, label);
+  }
+  if (typeof raw.rationale === "string" && raw.rationale.trim()) {
+    action.rationale = raw.rationale.trim();
+  }
+  return action;
+}
+
+// Targets may also be given as just a name or just a cell
+function validateTarget(raw: unknown, label: string): PlanTarget {
+  if (typeof raw === "string") return { name: raw };
+  if (Array.isArray(raw)) return { cell: toCell(raw, `${label} target`) };
+  if (!isRecord(raw)) {
+    throw new InvalidPlanError(`Invalid plan: ${label} target must be {"name": ..., "cell": [row, col]}`);
+  }
+  const target: PlanTarget = {};
+  if (typeof raw.name === "string" && raw.name.trim()) target.name = raw.name.trim();
+  if (raw.cell !== undefined && raw.cell !== null) target.cell = toCell(raw.cell, `${label} target`);
+  return target;
+}
+
+function validateTaskIds(raw: unknown, label: string): string[] {
+  if (raw === undefined || raw === null) return [];
+  const values = Array.isArray(raw) ? raw : [raw];
+  if (!values.every(value => typeof value === "string")) {
+    throw new InvalidPlanError(`Invalid plan: ${label} taskIds must be a list of task IDs`);
+  }
+  return values.map(value => value.trim()).filter(Boolean);
+}
+
+// Numbers may arrive as numeric strings after lenient JSON repair
+function toCell(raw: unknown, label: string): GridCell {
+  const values = Array.isArray(raw) && raw.length === 2
+    ? raw.map(value => (typeof value === "number" || (typeof value === "string" && value.trim()) ? Number(value) : NaN))
+    : [];
+  if (values.length !== 2 || !values.every(Number.isInteger)) {
+    throw new InvalidPlanError(`Invalid plan: ${label} has ${JSON.stringify(raw)} where a [row, col] cell was expected`);
+  }
+  return [values[0], values[1]];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function formatCell([row, col]: GridCell): string {
+  return `[${row}, ${col}]`;
+}
@@ -0,0 +1,122 @@
+/**
+ * Robot Types
+ * Capabilities, payload, speed and battery capacity per robot model, plus the
+ * capability requirements of tasks, so mixed fleets (tuggers, pickers,
+ * inspection units) are allocated and simulated according to what each robot can do
+ */
+
+export type Capability = "navigation" | "transport" | "picking" | "towing" | "inspection" | "coordination";
+
+export interface RobotType {
+  id: string;
+  name: string;
+  capabilities: Capability[];
+  maxPayloadKg: number;
+  speedCellsPerTick: number; // May be fractional: 0.5 moves one cell every two ticks
+  batteryCapacityWh: number;
+}
+
+export interface TaskRequirements {
+  capabilities: Capability[];
+  payloadKg?: number;
+}
+
+export const DEFAULT_ROBOT_TYPE = "general";
+
+export const ROBOT_TYPES: { [typeId: string]: RobotType } = {
+  general: {
+    id: "general",
+    name: "General-purpose AMR",
+    capabilities: ["navigation", "transport", "picking", "inspection", "coordination"],
+    maxPayloadKg: 50,
+    speedCellsPerTick: 1,
+    batteryCapacityWh: 1000,
+  },
+  tugger: {
+    id: "tugger",
+    name: "Tugger",
+    capabilities: ["navigation", "transport", "towing", "coordination"],
+    maxPayloadKg: 500,
+    speedCellsPerTick: 0.5,
+    batteryCapacityWh: 2000,
+  },
+  picker: {
+    id: "picker",
+    name: "Picking robot",
+    capabilities: ["navigation", "transport", "picking", "coordination"],
+    maxPayloadKg: 30,
+    speedCellsPerTick: 1,
+    batteryCapacityWh: 800,
+  },
+  inspector: {
+    id: "inspector",
+    name: "Inspection unit",
+    capabilities: ["navigation", "inspection", "coordination"],
+    maxPayloadKg: 0,
+    speedCellsPerTick: 2,
+    batteryCapacityWh: 500,
+  },
+};
+
+/**
+ * Look up a robot type; unknown or missing types fall back to the general-purpose robot
+ */
+export function getRobotType(typeId?: string, customTypes: { [typeId: string]: RobotType } = {}): RobotType {
+  if (typeId && customTypes[typeId]) return customTypes[typeId];
+  if (typeId && ROBOT_TYPES[typeId]) return ROBOT_TYPES[typeId];
+  return ROBOT_TYPES[DEFAULT_ROBOT_TYPE];
+}
+
+const CAPABILITY_KEYWORDS: Array<{ capability: Capability; pattern: RegExp }> = [
+  { capability: "towing", pattern: /\b(tow|towing|tug|cart|trolley|pallet)s?\b/i },
+  { capability: "picking", pattern: /\b(pick|picking|grasp|retrieve|shelf|shelves)\b/i },
+  { capability: "transport", pattern: /\b(move|moving|carry|carrying|deliver|delivery|transport|item|items|load|unload)\b/i },
+  { capability: "inspection", pattern: /\b(inspect|inspection|scan|scanning|audit|count|survey)\b/i },
+];
+
+/**
+ * Capabilities a free-text task needs, inferred from keywords. Navigation is always required.
+ */
+export function inferRequiredCapabilities(text: string): Capability[] {
+  const required: Capability[] = ["navigation"];
+  for (const { capability, pattern } of CAPABILITY_KEYWORDS) {
+    if (pattern.test(text)) required.push(capability);
+  }
+  return required;
+}
+
+/**
+ * Requirements of a scenario task; explicit requiredCapabilities win over keyword inference
+ */
+export function getTaskRequirements(task: {
+  description: string;
+  requiredCapabilities?: Capability[];
+  payloadKg?: number;
+}): TaskRequirements {
+  return {
+    capabilities: task.requiredCapabilities && task.requiredCapabilities.length > 0
+      ? task.requiredCapabilities
+      : inferRequiredCapabilities(task.description),
+    payloadKg: task.payloadKg,
+  };
+}
+
+/**
+ * Reasons a robot type cannot perform a task; empty when it can
+ */
+export function capabilityGaps(type: RobotType, requirements: TaskRequirements): string[] {
+  const gaps = requirements.capabilities
+    .filter(capability => !type.capabilities.includes(capability))
+    .map(capability => `lacks ${capability}`);
+  if (requirements.payloadKg !== undefined && requirements.payloadKg > type.maxPayloadKg) {
+    gaps.push(`payload ${requirements.payloadKg} kg exceeds ${type.maxPayloadKg} kg`);
+  }
+  return gaps;
+}
+
+/**
+ * One-line summary for prompts and reports
+ */
+export function describeRobotType(type: RobotType): string {
+  return `${type.id} (${type.capabilities.join(", ")}; max payload ${type.maxPayloadKg} kg; speed ${type.speedCellsPerTick} cells/tick; battery ${type.batteryCapacityWh} Wh)`;
+}
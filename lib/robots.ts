@@ -1,17 +1,41 @@
 /**
  * Robot Service Classes
- * All robots have the same capabilities and can perform any task
+ * Each robot has a type that defines its capabilities, payload, speed and battery capacity
  */
 
 import type { RobotTasks } from './llm-providers';
+import { createPlan, planPath, planTaskIds, RobotPlan, splitPlanByTask } from './robot-plan';
+import { FleetSimulator, SimulationInputs, SimulationOptions, SimulationResult } from './simulator';
+import type { WarehouseMap } from './warehouse-map';
+import { DEFAULT_FLEET, FleetState } from './fleet';
+import { Capability, getRobotType, RobotType } from './robot-types';
+import type { InventoryMove } from './inventory';
+import { TaskQueue, TaskScheduling } from './task-queue';
+import { createdLifecycle, TaskEvent, TaskStatus } from './task-lifecycle';
 
-export interface RobotTask {
+const ROBOT_STATUSES: Array<Robot["status"]> = ["idle", "working", "error", "charging"];
+
+export interface RobotTask extends TaskScheduling {
+  queueId?: string; // Unique ID in the task queue, used by dependencies
   robotId: string;
   robotName: string;
   task: string;
-  status: "pending" | "in_progress" | "completed" | "failed";
+  status: TaskStatus;
+  history: TaskEvent[]; // Every status change, starting with "created"
   timestamp: Date;
   path?: Array<[number, number]>; // Path as array of [row, col] coordinates
+  taskId?: string; // Scenario task the command refers to
+  inventory?: InventoryMove; // Goods moved when the task completes
+  reassignedFrom?: string; // Queue ID of the task a faulty robot could not finish
+}
+
+/**
+ * Scenario task as referenced by robot commands
+ */
+export interface ScenarioTaskReference extends TaskScheduling {
+  taskId: string;
+  description: string;
+  inventory?: InventoryMove;
 }
 
 export class Robot {
@@ -21,10 +45,12 @@ export class Robot {
   public status: "idle" | "working" | "error" | "charging" = "working"; // Default to working
   protected position: { row: number; col: number } = { row: 0, col: 0 };
   protected battery: number = 100;
+  protected type: RobotType;
 
-  constructor(id: string, name: string, initialPosition?: { row: number; col: number }, initialBattery?: number) {
+  constructor(id: string, name: string, initialPosition?: { row: number; col: number }, initialBattery?: number, type?: RobotType) {
     this.id = id;
     this.name = name;
+    this.type = type || getRobotType();
     if (initialPosition) {
       this.position = initialPosition;
     }
@@ -65,70 +91,88 @@ export class Robot {
     this.battery = battery;
   }
 
-  // All robots have the same capabilities
-  getCapabilities(): string[] {
-    return [
-      "Path planning and route optimization",
-      "Obstacle avoidance",
-      "Spatial positioning and mapping",
-      "Movement coordination",
-      "Location tracking",
-      "Object grasping and manipulation",
-      "Precision movement",
-      "Tool usage",
-      "Object placement",
-      "Physical interaction",
-      "Environmental data collection",
-      "Object detection and recognition",
-      "Sensor data monitoring",
-      "Condition assessment",
-      "Real-time data gathering",
-      "Inter-robot coordination",
-      "Status reporting",
-      "Task synchronization",
-      "Message routing",
-      "System monitoring",
-    ];
-  }
-
-  async executeTask(task: string): Promise<void> {
+  getType(): RobotType {
+    return this.type;
+  }
+
+  // Capabilities come from the robot's type
+  getCapabilities(): Capability[] {
+    return this.type.capabilities;
+  }
+
+  // Mark the robot as busy with a task; movement is driven tick by tick by FleetSimulator
+  executeTask(task: string): void {
     this.currentTask = task;
     this.status = "working";
-    
-    // Simulate task execution
-    // In a real system, this would interface with actual robot hardware/API
     console.log(`[${this.name}] Executing task: ${task}`);
-    
-    // Simulate async work
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-    
-    this.status = "idle";
+  }
+
+  finishTask(): void {
     this.currentTask = null;
+    this.status = "idle";
   }
 }
 
+/**
+ * Scenario tasks each robot was given: the task IDs its plan's actions name
+ */
+export function findTaskReferences<T extends ScenarioTaskReference>(
+  plans: RobotTasks,
+  taskPool: T[]
+): Array<{ robotId: string; task: T }> {
+  const references: Array<{ robotId: string; task: T }> = [];
+
+  for (const [robotId, plan] of Object.entries(plans)) {
+    if (!plan) continue;
+    const named = planTaskIds(plan).map(taskId => taskId.toLowerCase());
+    taskPool.filter(task => named.includes(task.taskId.toLowerCase())).forEach(task => references.push({ robotId, task }));
+  }
+
+  return references;
+}
+
+/**
+ * Build Robot instances for every robot in a fleet state
+ */
+export function createRobots(fleet: FleetState, customTypes: { [typeId: string]: RobotType } = {}): Robot[] {
+  return Object.entries(fleet).map(([robotId, state]) => {
+    const type = getRobotType(state.type, customTypes);
+    const robot = new Robot(robotId, `Robot ${robotId}`, { ...state.position }, state.battery, type);
+    if (ROBOT_STATUSES.includes(state.status as Robot["status"])) {
+      robot.status = state.status as Robot["status"];
+    }
+    return robot;
+  });
+}
+
+/**
+ * Robot status as shown by the status dashboard
+ */
+export interface RobotStatusReport {
+  robotId: string;
+  robotName: string;
+  status: Robot["status"];
+  currentTask: string | null;
+  batteryPercent: number;
+  position: { row: number; col: number };
+  tasksCompleted: number;
+  tasksInQueue: number;
+  lastUpdated: string;
+  capabilities: string[];
+}
+
 export class RobotOrchestrator {
   private robots: Map<string, Robot>;
+  private queue: TaskQueue; // Every task dispatched to this fleet, kept across runs
 
-  constructor() {
+  constructor(robots: Robot[], queue: TaskQueue = new TaskQueue()) {
     this.robots = new Map();
-    // Initialize 4 robots with same capabilities - all start at 100% battery and working status
-    // R4 moved from (15,0) which is in charging area to (13,0) which is a path
-    const r1 = new Robot("R1", "Robot R1", { row: 0, col: 0 }, 100);
-    const r2 = new Robot("R2", "Robot R2", { row: 15, col: 17 }, 100);
-    const r3 = new Robot("R3", "Robot R3", { row: 14, col: 16 }, 100);
-    const r4 = new Robot("R4", "Robot R4", { row: 13, col: 0 }, 100); // Moved from charging area to path
-    
-    // Set all robots to working status
-    r1.status = "working";
-    r2.status = "working";
-    r3.status = "working";
-    r4.status = "working";
-    
-    this.robots.set("R1", r1);
-    this.robots.set("R2", r2);
-    this.robots.set("R3", r3);
-    this.robots.set("R4", r4);
+    robots.forEach(robot => this.robots.set(robot.getId(), robot));
+    this.queue = queue;
+  }
+
+  static fromFleet(fleet: FleetState, customTypes: { [typeId: string]: RobotType } = {}, queue?: TaskQueue): RobotOrchestrator {
+    return new RobotOrchestrator(createRobots(fleet, customTypes), queue);
   }
 
   getRobot(robotId: string): Robot | undefined {
@@ -139,44 +183,171 @@ export class RobotOrchestrator {
     return Array.from(this.robots.values());
   }
 
-  async distributeTasks(tasks: RobotTasks): Promise<RobotTask[]> {
+  getQueue(): TaskQueue {
+    return this.queue;
+  }
+
+  /**
+   * Queue one task for a robot, e.g. an urgent task that should preempt the current one
+   */
+  enqueueTask(robotId: string, task: string, scheduling: TaskScheduling & { queueId?: string } = {}): RobotTask {
+    const robot = this.robots.get(robotId);
+    if (!robot) {
+      throw new Error(`Unknown robot: ${robotId}`);
+    }
+    const timestamp = new Date();
+    return this.queue.enqueue({
+      ...scheduling,
+      robotId,
+      robotName: robot.getName(),
+      task,
+      ...createdLifecycle(timestamp),
+      timestamp,
+    });
+  }
+
+  /**
+   * Turn robot plans into queued tasks: one per scenario task a plan finishes, driving its
+   * actions up to the one that finishes the task, and one for any actions after the last
+   * finished task (e.g. a charging trip). Each carries its scenario task's ID, scheduling
+   * (priority, due tick, dependencies, release) and inventory move; the scenario task ID
+   * becomes the queue ID when it is free. A plan naming no task IDs stays a single task.
+   */
+  async distributeTasks(plans: RobotTasks, taskPool: ScenarioTaskReference[] = []): Promise<RobotTask[]> {
     const robotTasks: RobotTask[] = [];
+    const references = findTaskReferences(plans, taskPool);
 
-    for (const [robotId, task] of Object.entries(tasks)) {
-      if (task === undefined || !task) continue; // Skip undefined or empty tasks
+    for (const [robotId, plan] of Object.entries(plans)) {
+      if (!plan || plan.actions.length === 0) continue; // Skip robots without a plan
       
       const robot = this.robots.get(robotId);
-      if (robot) {
-        // Extract path from task if present (format: path: [[row, col], ...])
-        let path: Array<[number, number]> | undefined;
-        try {
-          const pathMatch = task.match(/path:\s*(\[[\s\S]*?\])/i);
-          if (pathMatch) {
-            path = JSON.parse(pathMatch[1]);
-          }
-        } catch (e) {
-          // Path parsing failed, continue without path
-        }
-
-        const robotTask: RobotTask = {
-          robotId,
-          robotName: robot.getName(),
-          task,
-          status: "pending",
-          timestamp: new Date(),
-          path,
-        };
-        robotTasks.push(robotTask);
-
-        // Execute task asynchronously
-        robot.executeTask(task).then(() => {
-          robotTask.status = "completed";
-        }).catch(() => {
-          robotTask.status = "failed";
+      if (!robot) continue;
+
+      if (planTaskIds(plan).length === 0) {
+        const referenced = references.filter(reference => reference.robotId === robotId).map(reference => reference.task);
+        robotTasks.push(this.enqueuePlan(robot, plan, referenced.find(scenarioTask => scenarioTask.inventory) || referenced[0]));
+        continue;
+      }
+
+      for (const piece of splitPlanByTask(plan)) {
+        const finished = piece.finishes.map(taskId => taskPool.find(scenarioTask => scenarioTask.taskId.toLowerCase() === taskId.toLowerCase()));
+        robotTasks.push(this.enqueuePlan(robot, createPlan(piece.actions), finished[0]));
+        // An action that finishes several tasks queues the others right behind it, already at their goal
+        const last = piece.actions[piece.actions.length - 1];
+        const goal = last.path.slice(-1);
+        finished.slice(1).forEach(scenarioTask => {
+          robotTasks.push(this.enqueuePlan(robot, createPlan([{ ...last, taskIds: scenarioTask ? [scenarioTask.taskId] : [], path: goal }]), scenarioTask));
         });
       }
     }
 
+    // Scenario task IDs already taken by earlier dispatches got other queue IDs; point this
+    // dispatch's dependencies at its own tasks
+    const queueIds = new Map(robotTasks.filter(task => task.taskId).map(task => [task.taskId!, task.queueId!]));
+    robotTasks.forEach(task => {
+      task.dependsOn = task.dependsOn?.map(dependencyId => queueIds.get(dependencyId) || dependencyId);
+    });
+
     return robotTasks;
   }
+
+  private enqueuePlan(robot: Robot, plan: RobotPlan, scenarioTask?: ScenarioTaskReference): RobotTask {
+    const timestamp = new Date();
+    const path = planPath(plan);
+    const robotTask: RobotTask = {
+      robotId: robot.getId(),
+      robotName: robot.getName(),
+      task: plan.description,
+      ...createdLifecycle(timestamp),
+      timestamp,
+      path: path.length > 0 ? path : undefined,
+    };
+    if (scenarioTask) {
+      robotTask.taskId = scenarioTask.taskId;
+      if (!this.queue.get(scenarioTask.taskId)) robotTask.queueId = scenarioTask.taskId;
+      if (scenarioTask.inventory) robotTask.inventory = { ...scenarioTask.inventory };
+      robotTask.priority = scenarioTask.priority;
+      robotTask.dueTick = scenarioTask.dueTick;
+      robotTask.dependsOn = scenarioTask.dependsOn && [...scenarioTask.dependsOn];
+      robotTask.releaseTick = scenarioTask.releaseTick;
+    }
+    return this.queue.enqueue(robotTask);
+  }
+
+  /**
+   * Tasks in the queue still waiting for a robot of this fleet, e.g. queued through the
+   * fleet API since the last run
+   */
+  waitingTasks(): RobotTask[] {
+    return this.queue.all().filter(task => task.status === "assigned" && this.robots.has(task.robotId));
+  }
+
+  /**
+   * Execute tasks on the warehouse map with the tick-based simulator; tasks not yet queued
+   * are added first. Only the given tasks run, but they may depend on any task in the queue.
+   * Robot positions, batteries, task statuses and the inventory are updated in place;
+   * dynamic obstacles and scripted faults play out as the run goes.
+   */
+  simulate(robotTasks: RobotTask[], map: WarehouseMap, config?: SimulationOptions, inputs?: SimulationInputs): SimulationResult {
+    const queued = this.queue.all();
+    robotTasks.filter(task => !queued.includes(task)).forEach(task => this.queue.enqueue(task));
+    const run = TaskQueue.from(robotTasks, this.queue);
+    const simulator = new FleetSimulator(this.getAllRobots(), map, config, inputs);
+    const result = simulator.run(run);
+    // Tasks the run added, e.g. reassignments away from a faulty robot
+    run.all().filter(task => !this.queue.get(task.queueId!)).forEach(task => this.queue.enqueue(task));
+    return result;
+  }
+
+  /**
+   * Cancel a queued or unfinished task; a robot still holding it becomes idle
+   */
+  cancelTask(queueId: string, reason?: string): RobotTask {
+    const task = this.queue.cancel(queueId, reason);
+    const robot = this.robots.get(task.robotId);
+    if (robot && robot.getCurrentTask() === task.task) {
+      robot.finishTask();
+    }
+    return task;
+  }
+
+  /**
+   * Current status of every robot with its queue counts, for the status dashboard
+   */
+  getStatusReport(): RobotStatusReport[] {
+    return this.getAllRobots().map(robot => {
+      const stats = this.queue.stats(robot.getId(), 0);
+      return {
+        robotId: robot.getId(),
+        robotName: robot.getName(),
+        status: robot.getStatus(),
+        currentTask: robot.getCurrentTask(),
+        batteryPercent: robot.getBattery(),
+        position: { ...robot.getPosition() },
+        tasksCompleted: stats.completed,
+        tasksInQueue: stats.queued + stats.active,
+        lastUpdated: new Date().toLocaleTimeString(),
+        capabilities: [...robot.getCapabilities()],
+      };
+    });
+  }
+}
+
+// Orchestrator of the latest dispatch in this server process; its queue feeds the fleet status API
+let activeOrchestrator: RobotOrchestrator | undefined;
+
+export function getActiveOrchestrator(): RobotOrchestrator {
+  if (!activeOrchestrator) {
+    activeOrchestrator = RobotOrchestrator.fromFleet(DEFAULT_FLEET);
+  }
+  return activeOrchestrator;
+}
+
+/**
+ * Make the orchestrator for a new dispatch the active one. It keeps the active queue, so
+ * tasks queued earlier stay queued and finished ones keep counting.
+ */
+export function activateFleet(fleet: FleetState, customTypes: { [typeId: string]: RobotType } = {}): RobotOrchestrator {
+  activeOrchestrator = RobotOrchestrator.fromFleet(fleet, customTypes, getActiveOrchestrator().getQueue());
+  return activeOrchestrator;
 }
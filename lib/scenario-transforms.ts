@@ -0,0 +1,84 @@
+/**
+ * Scenario Transforms
+ * Declared adjustments applied to a scenario's robots before a run. Runs use the
+ * scenario's real positions, batteries and statuses unless a transform is listed in the
+ * scenario (or requested for the run), and every applied transform is reported.
+ */
+
+import { FleetState, sortRobotIds } from "./fleet";
+
+/**
+ * Move a robot to another cell, optionally only when it starts inside an area
+ */
+export interface RelocateRobotTransform {
+  type: "relocateRobot";
+  robotId: string;
+  to: { row: number; col: number };
+  when?: { rows: [number, number]; cols: [number, number] }; // Inclusive bounds
+  reason: string;
+}
+
+/**
+ * Reset every robot to the same battery level and status
+ */
+export interface NormalizeRobotStatesTransform {
+  type: "normalizeRobotStates";
+  battery: number;
+  status: string;
+  reason: string;
+}
+
+export type ScenarioTransform = RelocateRobotTransform | NormalizeRobotStatesTransform;
+
+/**
+ * Per-run option to start all robots fully charged and working, as older runs did
+ */
+export const NORMALIZE_ROBOT_STATES: NormalizeRobotStatesTransform = {
+  type: "normalizeRobotStates",
+  battery: 100,
+  status: "working",
+  reason: "Run option: all robots start at 100% battery and working",
+};
+
+/**
+ * Apply transforms in order. Returns a new fleet and a description of each transform
+ * that changed something.
+ */
+export function applyScenarioTransforms(
+  fleet: FleetState,
+  transforms: ScenarioTransform[] = []
+): { fleet: FleetState; applied: string[] } {
+  const result: FleetState = Object.fromEntries(
+    Object.entries(fleet).map(([robotId, state]) => [robotId, { ...state, position: { ...state.position } }])
+  );
+  const applied: string[] = [];
+
+  for (const transform of transforms) {
+    if (transform.type === "relocateRobot") {
+      const robot = result[transform.robotId];
+      if (!robot) continue;
+
+      const { row, col } = robot.position;
+      const inArea = !transform.when || (
+        row >= transform.when.rows[0] && row <= transform.when.rows[1] &&
+        col >= transform.when.cols[0] && col <= transform.when.cols[1]
+      );
+      if (!inArea) continue;
+
+      robot.position = { ...transform.to };
+      applied.push(`${transform.robotId} moved from (${row}, ${col}) to (${transform.to.row}, ${transform.to.col}): ${transform.reason}`);
+    } else if (transform.type === "normalizeRobotStates") {
+      for (const robotId of sortRobotIds(Object.keys(result))) {
+        const robot = result[robotId];
+        robot.battery = transform.battery;
+        robot.status = transform.status;
+        delete robot.chargingStationId;
+      }
+      applied.push(transform.reason);
+    } else {
+      throw new Error(`Unknown scenario transform: ${JSON.stringify(transform)}`);
+    }
+  }
+
+  return { fleet: result, applied };
+}
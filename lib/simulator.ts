@@ -0,0 +1,1062 @@
+/**
+ * Discrete-Time Fleet Simulator
+ * Executes dispatched robot paths cell by cell on the warehouse map, one tick at a time.
+ * Batteries follow the energy model: robots drain while moving, handling goods and
+ * waiting, and charge while standing on C cells. Completed tasks apply their inventory move.
+ * Tasks come from a TaskQueue: each idle robot starts its next ready task, and a higher
+ * priority task preempts the active one, which resumes from where it stopped. A started
+ * task is accepted, in progress once it moves and blocked while it waits for a cell.
+ * Dynamic obstacles (moving actors, temporarily blocked cells) advance every tick; when one
+ * appears just ahead on a route, a replanning trigger is raised and the robot detours.
+ * Scripted faults stall robots, corrupt battery readings or drop payloads; when the monitor
+ * detects one, the robot's unfinished tasks are reassigned to the nearest capable robot.
+ * Deadlocks (cyclic waits) and livelocks (oscillation without progress) are detected and,
+ * unless resolution is off, broken by having one robot yield or pause.
+ * Routes follow the map's traffic rules, and robots slow down in its speed zones.
+ * With a charging manager, trips to C cells reserve a station (or queue when all are taken),
+ * and the charging policy sends robots to charge and holds them there until charged.
+ */
+
+import type { Robot, RobotTask } from "./robots";
+import { findPath, manhattanDistance, repairPath } from "./path-planner";
+import { LocationRegistry, planRouteTo } from "./location-registry";
+import type { Inventory, InventorySnapshot } from "./inventory";
+import { TaskQueue } from "./task-queue";
+import { createdLifecycle, transitionTask } from "./task-lifecycle";
+import { compareRobotIds, sortRobotIds } from "./fleet";
+import { GridCell, WarehouseMap } from "./warehouse-map";
+import type { DynamicEnvironment } from "./dynamic-obstacles";
+import { FaultInjector, FaultMonitor, FaultReport, RobotFault } from "./fault-injection";
+import { findRefuge, LockDetector, LockEvent, RobotWait } from "./deadlock-detection";
+import type { ChargingManager, ChargingSnapshot } from "./charging-manager";
+import { capabilityGaps, getTaskRequirements } from "./robot-types";
+import {
+  clampBattery,
+  DEFAULT_ENERGY_MODEL,
+  EnergyModel,
+  EnergyPrediction,
+  handlingOperations,
+  isChargingCell,
+  predictRouteEnergy,
+  whToPercent,
+} from "./energy-model";
+
+export interface SimulationConfig {
+  maxTicks: number; // Hard stop so a stuck fleet cannot loop forever
+  energy: EnergyModel;
+  replanLookaheadCells: number; // How far ahead on a route dynamic obstacles trigger replanning
+  stallDetectionTicks: number; // Ticks without moving, with the way clear, before a robot counts as stalled
+  batteryJumpPercent: number; // Largest believable change between two battery readings
+  lockResolution: "none" | "yield"; // Whether deadlocks and livelocks are only reported or also broken
+  livelockWindowTicks: number; // Ticks of oscillation without progress before a livelock is declared
+  livelockPauseTicks: number; // How long a livelocked robot holds still when resolving
+}
+
+export const DEFAULT_SIMULATION_CONFIG: SimulationConfig = {
+  maxTicks: 500,
+  energy: DEFAULT_ENERGY_MODEL,
+  replanLookaheadCells: 3,
+  stallDetectionTicks: 3,
+  batteryJumpPercent: 15,
+  lockResolution: "yield",
+  livelockWindowTicks: 10,
+  livelockPauseTicks: 3,
+};
+
+/**
+ * Config overrides; the energy model may be overridden field by field
+ */
+export type SimulationOptions = Partial<Omit<SimulationConfig, "energy">> & { energy?: Partial<EnergyModel> };
+
+/**
+ * Optional parts of the world a run simulates besides the robots and the map
+ */
+export interface SimulationInputs {
+  inventory?: Inventory;
+  dynamics?: DynamicEnvironment;
+  faults?: FaultInjector;
+  charging?: ChargingManager;
+}
+
+export interface TrajectoryPoint {
+  tick: number;
+  row: number;
+  col: number;
+  battery: number;
+  reportedBattery?: number; // What a faulty battery sensor reported instead
+  status: string;
+}
+
+export interface SimulationEvent {
+  tick: number;
+  robotId: string;
+  type: "started" | "waiting" | "warning" | "preempted" | "replan" | "fault" | "reassigned" | "deadlock" | "livelock" | "charging" | "completed" | "failed";
+  detail?: string;
+}
+
+/**
+ * A dispatched route found blocked by a dynamic obstacle. `rerouted` is false when no
+ * detour exists and the robot waits for the cell to clear.
+ */
+export interface ReplanTrigger {
+  tick: number;
+  robotId: string;
+  queueId?: string;
+  cell: GridCell;
+  blocker: string; // e.g. "forklift F1"
+  rerouted: boolean;
+}
+
+export interface SimulationResult {
+  ticks: number;
+  finished: boolean; // Every task reached a final status, and no robot waits for charge, before maxTicks
+  trajectories: { [robotId: string]: TrajectoryPoint[] };
+  tasks: RobotTask[];
+  events: SimulationEvent[];
+  predictions: { [robotId: string]: EnergyPrediction }; // Battery forecast for each assigned route
+  inventory?: InventorySnapshot; // Stock after the run, when an inventory was simulated
+  replanTriggers: ReplanTrigger[];
+  actors?: { [actorId: string]: Array<{ tick: number; row: number; col: number }> }; // Dynamic actor positions per tick
+  faults?: FaultReport[]; // Injected faults, their detection and recovery
+  locks: LockEvent[]; // Deadlocks and livelocks, with how they were resolved
+  charging?: ChargingSnapshot; // Station occupancy and queue at the end of the run
+}
+
+/**
+ * A robot told to hold still: for a number of ticks, or at its refuge cell until the robots
+ * it yielded to no longer need any cell of its remaining route
+ */
+interface Hold {
+  until?: number;
+  refuge?: GridCell;
+  yieldTo?: string[];
+}
+
+interface ActiveRoute {
+  task: RobotTask;
+  cells: Array<[number, number]>; // Remaining cells to enter, in order
+  drops: number; // Drop operations still to perform when the route completes
+}
+
+export class FleetSimulator {
+  private robots: Map<string, Robot>;
+  private map: WarehouseMap;
+  private locations: LocationRegistry;
+  private config: SimulationConfig;
+  private inventory?: Inventory;
+  private dynamics?: DynamicEnvironment;
+  private faults?: FaultInjector;
+  private monitor: FaultMonitor;
+  private outOfService: Set<string> = new Set(); // Robots taken out of service by a detected fault
+  private lockDetector: LockDetector;
+  private waits: Map<string, RobotWait> = new Map(); // Robots waiting for another robot this tick
+  private holds: Map<string, Hold> = new Map();
+  private locks: LockEvent[] = [];
+  private charging?: ChargingManager;
+  private chargingHolds: Set<string> = new Set(); // Docked robots that stay until the policy says they have charged
+  private ownTasks: Set<RobotTask> = new Set(); // Trips the simulator queued itself: to and from stations, or out of the way
+  private stationTrips: Map<string, RobotTask> = new Map(); // Task each robot with a reservation is driving to its station
+  private queue: TaskQueue = new TaskQueue();
+  private routes: Map<string, ActiveRoute> = new Map();
+  private suspended: Map<RobotTask, Omit<ActiveRoute, "task">> = new Map(); // Preempted routes to resume
+  private movementBudget: Map<string, number> = new Map(); // Cells each robot may still move this tick
+  private tick = 0;
+  private trajectories: { [robotId: string]: TrajectoryPoint[] } = {};
+  private events: SimulationEvent[] = [];
+  private predictions: { [robotId: string]: EnergyPrediction } = {};
+  private replanTriggers: ReplanTrigger[] = [];
+  private lastTrigger: Map<string, string> = new Map(); // Blocked cell each robot last triggered on
+  private actorTrajectories: { [actorId: string]: Array<{ tick: number; row: number; col: number }> } = {};
+
+  constructor(robots: Robot[], map: WarehouseMap, config: SimulationOptions = {}, inputs: SimulationInputs = {}) {
+    this.robots = new Map(robots.map(robot => [robot.getId(), robot]));
+    this.map = map;
+    this.inventory = inputs.inventory;
+    this.dynamics = inputs.dynamics;
+    this.faults = inputs.faults;
+    this.charging = inputs.charging;
+    this.locations = new LocationRegistry(map);
+    this.config = {
+      ...DEFAULT_SIMULATION_CONFIG,
+      ...config,
+      energy: { ...DEFAULT_SIMULATION_CONFIG.energy, ...config.energy },
+    };
+    this.monitor = new FaultMonitor({ stallTicks: this.config.stallDetectionTicks, batteryJumpPercent: this.config.batteryJumpPercent });
+    this.lockDetector = new LockDetector({ windowTicks: this.config.livelockWindowTicks });
+
+    for (const robot of robots) {
+      if (this.charging?.reservationFor(robot.getId())?.status === "charging") {
+        robot.status = "charging";
+        if (this.charging.policy.shouldCharge(robot.getBattery(), false)) this.chargingHolds.add(robot.getId());
+      }
+      this.trajectories[robot.getId()] = [this.snapshot(robot)];
+    }
+    this.recordActors();
+  }
+
+  /**
+   * Start every idle robot on its next ready task, preempting active tasks that a ready
+   * task outranks. Tasks that can never run (unknown robot, failed dependency) fail here.
+   * The charging policy then looks at the robots still without a route.
+   */
+  private dispatch(): void {
+    for (const { task, reason } of this.queue.failBlocked(this.tick)) {
+      this.events.push({ tick: this.tick, robotId: task.robotId, type: "failed", detail: reason });
+    }
+    for (const task of this.queue.all()) {
+      if (task.status === "assigned" && !this.robots.has(task.robotId)) {
+        transitionTask(task, "failed", { tick: this.tick, reason: "Unknown robot" });
+        this.events.push({ tick: this.tick, robotId: task.robotId, type: "failed", detail: "Unknown robot" });
+      }
+    }
+
+    for (const robotId of sortRobotIds(Array.from(this.robots.keys()))) {
+      if (this.outOfService.has(robotId) || this.chargingHolds.has(robotId)) continue;
+      const active = this.routes.get(robotId);
+      if (active) {
+        const preemptor = this.queue.preemptorFor(active.task, this.tick);
+        if (!preemptor) continue;
+        this.suspend(active, preemptor);
+      }
+      const next = this.queue.nextReady(robotId, this.tick);
+      if (next) this.start(next);
+    }
+    if (this.charging) {
+      this.manageCharging();
+    }
+  }
+
+  /**
+   * Start (or resume) a task and predict whether the robot's battery lasts the route.
+   * Tasks without a path are routed to the last location their text names (e.g. "Shelf 38");
+   * tasks with neither complete on the next tick.
+   */
+  private start(task: RobotTask): void {
+    const robot = this.robots.get(task.robotId)!;
+    const { row, col } = robot.getPosition();
+    const resumed = this.suspended.get(task);
+    this.suspended.delete(task);
+
+    // Dispatched paths are rewritten by the planner into continuous, shelf-free cell sequences
+    const waypoints = resumed
+      ? resumed.cells
+      : task.path && task.path.length > 0 ? task.path : this.routeToNamedLocation(task.robotId, [row, col], task.task);
+    const planned = repairPath(this.map, [row, col], waypoints, { robotType: robot.getType().id }).path.slice(1);
+    const cells = this.charging ? this.reserveStation(robot, task, planned) : planned;
+    const operations = resumed ? resumed.drops : handlingOperations(task.task);
+    const picks = resumed ? 0 : Math.ceil(operations / 2);
+    const prediction = predictRouteEnergy(this.map, [row, col], cells, robot.getBattery(), robot.getType(), {
+      handlingOperations: operations,
+      model: this.config.energy,
+    });
+    this.predictions[task.robotId] = prediction;
+
+    this.routes.set(task.robotId, { task, cells, drops: operations - picks });
+    transitionTask(task, "accepted", { tick: this.tick, reason: `${resumed ? "Resumed, " : ""}${cells.length} cells to travel` });
+    robot.executeTask(task.task);
+    this.drain(robot, picks * this.config.energy.whPerPickOrDrop);
+    this.events.push({
+      tick: this.tick,
+      robotId: task.robotId,
+      type: "started",
+      detail: `${resumed ? `Resumed ${task.queueId}, ` : task.queueId ? `${task.queueId}, ` : ""}${cells.length} cells to travel`,
+    });
+
+    if (!prediction.canFinish) {
+      this.events.push({ tick: this.tick, robotId: task.robotId, type: "warning", detail: "Predicted to run out of battery before finishing the route" });
+    } else if (prediction.strandedAt) {
+      const [strandedRow, strandedCol] = prediction.strandedAt;
+      this.events.push({
+        tick: this.tick,
+        robotId: task.robotId,
+        type: "warning",
+        detail: `Predicted to drop below ${this.config.energy.safetyThresholdPercent}% battery at (${strandedRow}, ${strandedCol})`,
+      });
+    }
+  }
+
+  /**
+   * Put an active task back in the queue, keeping its remaining route for when it resumes
+   */
+  private suspend(route: ActiveRoute, preemptor: RobotTask): void {
+    const { task } = route;
+    this.suspended.set(task, { cells: route.cells, drops: route.drops });
+    this.routes.delete(task.robotId);
+    this.movementBudget.delete(task.robotId);
+    this.holds.delete(task.robotId);
+    transitionTask(task, "assigned", { tick: this.tick, reason: `Preempted by ${preemptor.queueId}` });
+    this.events.push({ tick: this.tick, robotId: task.robotId, type: "preempted", detail: `${task.queueId} preempted by ${preemptor.queueId}` });
+  }
+
+  /**
+   * Match a route with the charging reservations. A route ending on a C cell reserves that
+   * station, or the nearest free one when it is taken; when every station is taken the robot
+   * joins the queue and stops short of the charging area. A robot driving off elsewhere
+   * gives up its station.
+   */
+  private reserveStation(robot: Robot, task: RobotTask, cells: GridCell[]): GridCell[] {
+    const robotId = robot.getId();
+    const { row, col } = robot.getPosition();
+    const held = this.charging!.reservationFor(robotId);
+    const end = cells[cells.length - 1];
+    if (!end || !isChargingCell(this.map, end[0], end[1])) {
+      if (held && cells.length > 0) this.releaseStation(robotId, `Left Charging station ${held.stationId} for ${task.queueId}`);
+      return cells;
+    }
+
+    const preferred = this.map.toIndex(end[0], end[1]);
+    const holder = this.charging!.holderOf(preferred);
+    const reservation = this.charging!.request(robotId, this.tick, { from: [row, col], battery: robot.getBattery(), preferred });
+    this.stationTrips.set(robotId, task);
+    if (!reservation) {
+      const waiting = this.charging!.waiting();
+      this.events.push({ tick: this.tick, robotId, type: "charging", detail: `Every station taken; queued (${waiting.indexOf(robotId) + 1} of ${waiting.length})` });
+      let stop = cells.length;
+      while (stop > 0 && isChargingCell(this.map, cells[stop - 1][0], cells[stop - 1][1])) stop--;
+      return cells.slice(0, stop);
+    }
+    if (reservation.stationId === preferred) {
+      if (reservation !== held) this.events.push({ tick: this.tick, robotId, type: "charging", detail: `Reserved Charging station ${preferred}` });
+      return cells;
+    }
+
+    const station = this.charging!.station(reservation.stationId)!;
+    const route = this.routeToStation(robot, station.cell) || [];
+    this.events.push({
+      tick: this.tick,
+      robotId,
+      type: "charging",
+      detail: `Charging station ${preferred} ${holder ? `held by ${holder}` : "unavailable"}; ${route.length > 0 ? "rerouted" : "no route"} to Charging station ${station.id}`,
+    });
+    return route.slice(1);
+  }
+
+  /**
+   * Apply the charging policy to robots without a route: docked robots that have charged
+   * enough are let go (and leave when others are waiting), and robots the policy sends to
+   * charge get a trip to the nearest free station or a place in the queue
+   */
+  private manageCharging(): void {
+    const policy = this.charging!.policy;
+    for (const robotId of sortRobotIds(Array.from(this.robots.keys()))) {
+      if (this.outOfService.has(robotId) || this.routes.has(robotId)) continue;
+      const robot = this.robots.get(robotId)!;
+      const battery = robot.getBattery();
+      const reservation = this.charging!.reservationFor(robotId);
+
+      if (reservation?.status === "charging") {
+        if (!policy.charged(battery)) continue;
+        if (this.chargingHolds.delete(robotId)) {
+          this.events.push({ tick: this.tick, robotId, type: "charging", detail: `Charged to ${battery}%` });
+        }
+        if (this.charging!.waiting().length > 0 && this.queue.pending(robotId).length === 0) {
+          this.vacateStation(robot, reservation.stationId);
+        }
+        continue;
+      }
+      if (reservation || this.charging!.isQueued(robotId)) continue;
+
+      if (!policy.shouldCharge(battery, this.queue.pending(robotId).length === 0)) continue;
+      const { row, col } = robot.getPosition();
+      const granted = this.charging!.request(robotId, this.tick, { from: [row, col], battery });
+      if (granted) {
+        this.sendToStation(robotId, granted.stationId, `Battery at ${battery}%; reserved Charging station ${granted.stationId}`);
+      } else {
+        this.events.push({ tick: this.tick, robotId, type: "charging", detail: `Battery at ${battery}%; every station taken, queued` });
+      }
+    }
+  }
+
+  /**
+   * Move a charged robot off its station to the nearest cell clear of the charging area and
+   * its approach, so the next robot in the queue can have it. It stays when there is no way out yet.
+   */
+  private vacateStation(robot: Robot, stationId: number): void {
+    const robotId = robot.getId();
+    const { row, col } = robot.getPosition();
+    const cellKey = ([r, c]: GridCell) => `${r},${c}`;
+    const chargers = new Set(this.locations.chargers.flatMap(charger => {
+      const [r, c] = charger.cells[0];
+      return [[r, c], [r - 1, c], [r + 1, c], [r, c - 1], [r, c + 1]].map(cell => cellKey(cell as GridCell));
+    }));
+    const occupied = new Set(
+      Array.from(this.robots.values())
+        .filter(other => other.getId() !== robotId)
+        .map(other => cellKey([other.getPosition().row, other.getPosition().col]))
+    );
+    const refuge = findRefuge(this.map, [row, col], chargers, occupied, { robotType: robot.getType().id });
+    if (!refuge) return;
+
+    this.releaseStation(robotId, `Charged to ${robot.getBattery()}%; leaving Charging station ${stationId} for the next robot`);
+    this.enqueueOwnTask(robotId, `Leave Charging station ${stationId}`, refuge.slice(1));
+  }
+
+  /**
+   * Give up a robot's station; the next robot in the queue is sent there
+   */
+  private releaseStation(robotId: string, detail: string): void {
+    const handover = this.charging!.release(robotId, this.tick);
+    this.chargingHolds.delete(robotId);
+    this.stationTrips.delete(robotId);
+    this.events.push({ tick: this.tick, robotId, type: "charging", detail });
+    if (handover) {
+      this.sendToStation(handover.robotId, handover.stationId, `Charging station ${handover.stationId} handed over from ${robotId}`);
+    }
+  }
+
+  /**
+   * Send a robot to its reserved station: a trip that stopped short of the charging area
+   * while the robot was queued continues there, otherwise a new trip is queued
+   */
+  private sendToStation(robotId: string, stationId: number, detail: string): void {
+    const robot = this.robots.get(robotId)!;
+    const { cell } = this.charging!.station(stationId)!;
+    const path = this.routeToStation(robot, cell);
+    const route = this.routes.get(robotId);
+    if (route && path && this.stationTrips.get(robotId) === route.task) {
+      route.cells = path.slice(1);
+      this.events.push({ tick: this.tick, robotId, type: "charging", detail: `${detail}; ${route.task.queueId} continues there` });
+      return;
+    }
+
+    const task = this.enqueueOwnTask(robotId, `Charge at Charging station ${stationId}`, path ? path.slice(1) : [cell]);
+    this.events.push({ tick: this.tick, robotId, type: "charging", detail: `${detail}; ${task.queueId} queued` });
+  }
+
+  /**
+   * Shortest route to a station that does not cut through stations other robots hold or
+   * have reserved (a docked robot never moves out of the way)
+   */
+  private routeToStation(robot: Robot, cell: GridCell): GridCell[] | null {
+    const map = WarehouseMap.fromGrid(this.map.toGrid()).withTraffic(this.map.traffic);
+    for (const { cell: [row, col], robotId } of this.charging!.snapshot().stations) {
+      if (robotId && robotId !== robot.getId() && (row !== cell[0] || col !== cell[1])) {
+        map.setCell(row, col, "O");
+      }
+    }
+    const { row, col } = robot.getPosition();
+    return findPath(map, [row, col], cell, { robotType: robot.getType().id });
+  }
+
+  /**
+   * Queue a trip the simulator needs (to or from a station, or out of the way) ahead of
+   * everything the robot has to do
+   */
+  private enqueueOwnTask(robotId: string, text: string, path: GridCell[]): RobotTask {
+    const robot = this.robots.get(robotId)!;
+    const active = this.routes.get(robotId);
+    const priorities = [...this.queue.pending(robotId), ...(active ? [active.task] : [])].map(task => task.priority || 0);
+    const timestamp = new Date();
+    const task = this.queue.enqueue({
+      robotId,
+      robotName: robot.getName(),
+      task: text,
+      ...createdLifecycle(timestamp),
+      timestamp,
+      path,
+      priority: Math.max(0, ...priorities) + 1,
+    });
+    this.ownTasks.add(task);
+    return task;
+  }
+
+  /**
+   * After a trip to a reserved station ends: a robot that reached it docks (and is held
+   * there while the policy says it needs charge); one that ended anywhere else gives it up
+   */
+  private settleCharging(robot: Robot, task: RobotTask): void {
+    const robotId = robot.getId();
+    const trip = this.stationTrips.get(robotId) === task;
+    if (trip) this.stationTrips.delete(robotId);
+    const reservation = this.charging!.reservationFor(robotId);
+    if (!reservation) return;
+    const [stationRow, stationCol] = this.charging!.station(reservation.stationId)!.cell;
+    const { row, col } = robot.getPosition();
+    const docked = row === stationRow && col === stationCol;
+    if (reservation.status === "charging") {
+      if (docked) robot.status = "charging";
+      return;
+    }
+    if (!trip) return;
+
+    if (!docked) {
+      this.releaseStation(robotId, `Did not reach Charging station ${reservation.stationId}; reservation released`);
+      return;
+    }
+    this.charging!.arrive(robotId);
+    robot.status = "charging";
+    if (this.charging!.policy.shouldCharge(robot.getBattery(), false)) this.chargingHolds.add(robotId);
+    this.events.push({ tick: this.tick, robotId, type: "charging", detail: `Docked at Charging station ${reservation.stationId} with ${robot.getBattery()}%` });
+  }
+
+  /**
+   * Cells to the access face of the last location named in a task, or none
+   */
+  private routeToNamedLocation(robotId: string, start: [number, number], text: string): Array<[number, number]> {
+    const { locations } = this.locations.findInText(text);
+    const target = locations[locations.length - 1];
+    if (!target) return [];
+
+    const route = planRouteTo(this.map, start, target, { robotType: this.robots.get(robotId)!.getType().id });
+    if (!route) {
+      this.events.push({ tick: this.tick, robotId, type: "warning", detail: `No route to ${target.name}` });
+      return [];
+    }
+    return route.slice(1);
+  }
+
+  /**
+   * Advance every active robot according to its type's speed. Robots are processed in ID
+   * order, so a robot may follow directly behind another but two robots can never swap cells.
+   * Fractional speeds bank movement across ticks (0.5 moves one cell every second tick).
+   * Robots that did not move charge on C cells and drain idle energy elsewhere.
+   */
+  step(): void {
+    this.tick++;
+    const moved = new Set<string>();
+    if (this.dynamics) {
+      this.dynamics.advance(this.tick, (row, col) => this.occupantOf(row, col) !== undefined);
+      this.checkDynamicObstacles();
+    }
+    if (this.faults) {
+      this.applyFaultScript();
+    }
+
+    const stalls: Array<{ robotId: string; detection: string }> = [];
+    this.waits.clear();
+    const robotIds = sortRobotIds(Array.from(this.routes.keys()));
+    for (const robotId of robotIds) {
+      const route = this.routes.get(robotId);
+      if (!route) continue; // Orphaned by a fault earlier in this tick
+      const robot = this.robots.get(robotId)!;
+      if (route.task.status === "accepted") {
+        transitionTask(route.task, "in_progress", { tick: this.tick });
+      }
+
+      if (route.cells.length === 0) {
+        this.finish(robot, route, "completed");
+        continue;
+      }
+
+      const [nextRow, nextCol] = route.cells[0];
+      const speed = Math.min(robot.getType().speedCellsPerTick, this.map.traffic?.speedLimitAt(nextRow, nextCol) ?? Infinity);
+      let budget = Math.min((this.movementBudget.get(robotId) || 0) + speed, Math.max(1, speed));
+      const before = robot.getPosition();
+      const held = this.isHeld(robot, route);
+      const shouldMove = !held && budget >= 1 && this.blockerAt(robotId, nextRow, nextCol) === undefined;
+      if (!held && !this.faults?.isStalled(robotId, this.tick)) {
+        while (budget >= 1 && this.moveOneCell(robot, route)) {
+          budget -= 1;
+        }
+      }
+      this.movementBudget.set(robotId, budget);
+
+      const after = robot.getPosition();
+      if (after.row !== before.row || after.col !== before.col) {
+        moved.add(robotId);
+      }
+      const detection = this.monitor.observeMovement(robotId, shouldMove && this.routes.has(robotId), moved.has(robotId));
+      if (detection) stalls.push({ robotId, detection: `${detection} at (${after.row}, ${after.col})` });
+    }
+    stalls.forEach(({ robotId, detection }) => this.handleFault(robotId, "stall", detection));
+    this.detectLocks();
+
+    for (const robot of this.robots.values()) {
+      if (moved.has(robot.getId())) continue;
+      const { row, col } = robot.getPosition();
+      if (isChargingCell(this.map, row, col)) {
+        robot.setBattery(clampBattery(robot.getBattery() + whToPercent(this.config.energy.chargeWhPerTick, robot.getType())));
+      } else {
+        this.drain(robot, this.config.energy.whPerIdleTick);
+      }
+    }
+
+    if (this.faults) {
+      for (const robot of this.robots.values()) {
+        if (this.outOfService.has(robot.getId())) continue;
+        const detection = this.monitor.observeBattery(robot.getId(), this.faults.batteryReading(robot.getId(), robot.getBattery(), this.tick));
+        if (detection) this.handleFault(robot.getId(), "batterySensor", detection);
+      }
+    }
+
+    for (const robot of this.robots.values()) {
+      this.trajectories[robot.getId()].push(this.snapshot(robot));
+    }
+    this.recordActors();
+  }
+
+  /**
+   * Whether a robot must hold still this tick; releases holds that have run out
+   */
+  private isHeld(robot: Robot, route: ActiveRoute): boolean {
+    const hold = this.holds.get(robot.getId());
+    if (!hold) return false;
+
+    if (hold.until !== undefined) {
+      if (this.tick < hold.until) return true;
+    } else if (hold.refuge) {
+      const { row, col } = robot.getPosition();
+      if (row !== hold.refuge[0] || col !== hold.refuge[1]) return false; // Still on its way to the refuge
+      const ahead = new Set(route.cells.map(([r, c]) => `${r},${c}`));
+      const needed = (hold.yieldTo || []).some(otherId => {
+        const other = this.routes.get(otherId);
+        if (!other) return false;
+        const position = this.robots.get(otherId)!.getPosition();
+        return ahead.has(`${position.row},${position.col}`) || other.cells.some(([r, c]) => ahead.has(`${r},${c}`));
+      });
+      if (needed) return true;
+    }
+    this.holds.delete(robot.getId());
+    return false;
+  }
+
+  /**
+   * Report new deadlocks and livelocks and, unless resolution is off, break them
+   */
+  private detectLocks(): void {
+    const parked = new Map<string, GridCell>();
+    for (const [robotId, robot] of this.robots) {
+      if (this.routes.has(robotId) || this.outOfService.has(robotId) || this.chargingHolds.has(robotId)) continue;
+      if (this.queue.nextReady(robotId, this.tick)) continue; // Starts its next task at the next dispatch
+      const { row, col } = robot.getPosition();
+      parked.set(robotId, [row, col]);
+    }
+
+    const found = this.lockDetector.detectDeadlocks(this.tick, this.waits, parked);
+    for (const robotId of sortRobotIds(Array.from(this.routes.keys()))) {
+      if (this.holds.has(robotId)) continue;
+      const { row, col } = this.robots.get(robotId)!.getPosition();
+      const livelock = this.lockDetector.observe(this.tick, robotId, [row, col], this.routes.get(robotId)!.cells.length);
+      if (livelock) found.push(livelock);
+    }
+
+    for (const lock of found) {
+      if (this.config.lockResolution === "yield") {
+        lock.resolution = lock.kind === "livelock" ? this.pause(lock.robots[0]) : lock.parked ? this.moveAside(lock.parked, lock) : this.resolveDeadlock(lock);
+      }
+      const cells = lock.cells.map(([row, col]) => `(${row}, ${col})`).join(", ");
+      this.events.push({
+        tick: this.tick,
+        robotId: lock.robots[0],
+        type: lock.kind,
+        detail: `${lock.robots.join(", ")} at ${cells}${lock.resolution ? `; ${lock.resolution}` : ""}`,
+      });
+      this.locks.push(lock);
+    }
+  }
+
+  /**
+   * Break a wait cycle: the robot with the lowest task priority (then the highest ID) backs
+   * off to the nearest cell none of the others still needs, waits there until they have
+   * passed and then returns to its route. The next candidate is tried when there is no refuge.
+   */
+  private resolveDeadlock(lock: LockEvent): string {
+    const priority = (robotId: string) => this.routes.get(robotId)?.task.priority || 0;
+    const candidates = [...lock.robots].sort((a, b) => priority(a) - priority(b) || compareRobotIds(b, a));
+    const cellKey = ([row, col]: GridCell) => `${row},${col}`;
+
+    for (const robotId of candidates) {
+      const route = this.routes.get(robotId);
+      if (!route) continue;
+      const others = lock.robots.filter(otherId => otherId !== robotId);
+      const avoid = new Set(others.flatMap(otherId => {
+        const { row, col } = this.robots.get(otherId)!.getPosition();
+        return [cellKey([row, col]), ...(this.routes.get(otherId)?.cells || []).map(cellKey)];
+      }));
+      const occupied = new Set(
+        Array.from(this.robots.values())
+          .filter(robot => robot.getId() !== robotId)
+          .map(robot => cellKey([robot.getPosition().row, robot.getPosition().col]))
+      );
+      const { row, col } = this.robots.get(robotId)!.getPosition();
+      const options = { robotType: this.robots.get(robotId)!.getType().id };
+      const refuge = findRefuge(this.map, [row, col], avoid, occupied, options);
+      if (!refuge) continue;
+
+      const back = findPath(this.map, refuge[refuge.length - 1], [row, col], options) || [];
+      route.cells = [...refuge.slice(1), ...back.slice(1), ...route.cells];
+      this.holds.set(robotId, { refuge: refuge[refuge.length - 1], yieldTo: others });
+      const [refugeRow, refugeCol] = refuge[refuge.length - 1];
+      return `${robotId} yields to (${refugeRow}, ${refugeCol})`;
+    }
+    return "no robot can back off";
+  }
+
+  /**
+   * Send a parked robot that a wait chain ends at to the nearest cell off the waiting robots'
+   * routes; it stays there until it gets a new task
+   */
+  private moveAside(robotId: string, lock: LockEvent): string {
+    const cellKey = ([row, col]: GridCell) => `${row},${col}`;
+    const waiting = lock.robots.filter(otherId => otherId !== robotId);
+    const avoid = new Set(waiting.flatMap(otherId => {
+      const { row, col } = this.robots.get(otherId)!.getPosition();
+      return [cellKey([row, col]), ...(this.routes.get(otherId)?.cells || []).map(cellKey)];
+    }));
+    const occupied = new Set(
+      Array.from(this.robots.values())
+        .filter(robot => robot.getId() !== robotId)
+        .map(robot => cellKey([robot.getPosition().row, robot.getPosition().col]))
+    );
+    const robot = this.robots.get(robotId)!;
+    const { row, col } = robot.getPosition();
+    const refuge = findRefuge(this.map, [row, col], avoid, occupied, { robotType: robot.getType().id });
+    if (!refuge) return `${robotId} has nowhere to move aside to`;
+
+    this.enqueueOwnTask(robotId, `Move aside for ${waiting.join(", ")}`, refuge.slice(1));
+    const [refugeRow, refugeCol] = refuge[refuge.length - 1];
+    return `${robotId} moves aside to (${refugeRow}, ${refugeCol})`;
+  }
+
+  private pause(robotId: string): string {
+    this.holds.set(robotId, { until: this.tick + this.config.livelockPauseTicks });
+    return `${robotId} pauses for ${this.config.livelockPauseTicks} ticks`;
+  }
+
+  /**
+   * Inject the faults scripted for this tick and return robots whose fault ended to service.
+   * A payload drop is noticed at once (the load sensor); stalls and sensor faults have to be
+   * detected by the monitor.
+   */
+  private applyFaultScript(): void {
+    for (const report of this.faults!.ending(this.tick)) {
+      const { robotId, type } = report.fault;
+      if (!this.outOfService.has(robotId)) continue;
+      this.outOfService.delete(robotId);
+      this.monitor.reset(robotId);
+      this.robots.get(robotId)!.status = "idle";
+      this.events.push({ tick: this.tick, robotId, type: "fault", detail: `${type} fault cleared; back in service` });
+    }
+
+    for (const report of this.faults!.starting(this.tick)) {
+      const { fault } = report;
+      const robot = this.robots.get(fault.robotId);
+      const route = this.routes.get(fault.robotId);
+      if (!robot || (fault.type === "dropPayload" && (!route || route.cells.length === 0))) {
+        this.events.push({ tick: this.tick, robotId: fault.robotId, type: "fault", detail: `${fault.type} fault had no effect` });
+        continue;
+      }
+      report.injected = true;
+      this.events.push({ tick: this.tick, robotId: fault.robotId, type: "fault", detail: `Injected ${fault.type} fault` });
+
+      if (fault.type === "dropPayload") {
+        const { row, col } = robot.getPosition();
+        this.handleFault(fault.robotId, "dropPayload", `Payload of ${route!.task.queueId} dropped at (${row}, ${col})`);
+      }
+    }
+  }
+
+  /**
+   * React to a detected fault: the robot's active task (and, unless it only dropped its
+   * payload, its queued tasks) are orphaned and reassigned. Stalled robots and robots with
+   * a faulty sensor go out of service until their fault clears.
+   */
+  private handleFault(robotId: string, type: RobotFault["type"], detection: string): void {
+    const robot = this.robots.get(robotId)!;
+    const report = this.faults?.undetected(robotId, type);
+    if (report) {
+      report.detectedAt = this.tick;
+      report.detection = detection;
+    }
+    this.events.push({ tick: this.tick, robotId, type: "fault", detail: `Detected ${type}: ${detection}` });
+
+    const orphaned: Array<{ task: RobotTask; cells?: GridCell[] }> = [];
+    const route = this.routes.get(robotId);
+    if (route) {
+      orphaned.push({ task: route.task, cells: route.cells });
+      this.routes.delete(robotId);
+      this.movementBudget.delete(robotId);
+      this.holds.delete(robotId);
+      robot.finishTask();
+    }
+    if (type !== "dropPayload") {
+      this.queue.forRobot(robotId).filter(task => task.status === "assigned").forEach(task => orphaned.push({ task }));
+      this.outOfService.add(robotId);
+      robot.status = "error";
+      if (this.charging?.reservationFor(robotId) || this.charging?.isQueued(robotId)) {
+        this.releaseStation(robotId, "Out of service; charging reservation released");
+      }
+    }
+
+    for (const { task, cells } of orphaned) {
+      transitionTask(task, "failed", { tick: this.tick, reason: `Orphaned: ${detection}` });
+      this.suspended.delete(task);
+      this.events.push({ tick: this.tick, robotId, type: "failed", detail: `${task.queueId} orphaned by ${type} fault` });
+      report?.orphanedTasks.push(task.queueId!);
+
+      const replacement = this.ownTasks.has(task) ? undefined : this.reassign(task, cells);
+      if (replacement) {
+        report?.reassignments.push({ from: task.queueId!, to: replacement.queueId!, robotId: replacement.robotId });
+      }
+    }
+  }
+
+  /**
+   * Queue an orphaned task for the nearest capable robot in service, idle robots first.
+   * The new task continues along the remaining cells when the task was under way.
+   */
+  private reassign(task: RobotTask, cells?: GridCell[]): RobotTask | undefined {
+    const from = this.robots.get(task.robotId)!.getPosition();
+    const near: GridCell = cells && cells.length > 0 ? cells[0] : [from.row, from.col];
+    const requirements = getTaskRequirements({ description: task.task });
+    const busy = (robotId: string) => this.routes.has(robotId) || this.queue.pending(robotId).length > 0;
+    const distance = (robot: Robot) => manhattanDistance([robot.getPosition().row, robot.getPosition().col], near);
+
+    const [target] = Array.from(this.robots.values())
+      .filter(robot => robot.getId() !== task.robotId && !this.outOfService.has(robot.getId()) && robot.getStatus() !== "error")
+      .filter(robot => capabilityGaps(robot.getType(), requirements).length === 0)
+      .sort((a, b) => Number(busy(a.getId())) - Number(busy(b.getId())) || distance(a) - distance(b) || compareRobotIds(a.getId(), b.getId()));
+    if (!target) {
+      this.events.push({ tick: this.tick, robotId: task.robotId, type: "warning", detail: `No robot available to take over ${task.queueId}` });
+      return undefined;
+    }
+
+    const timestamp = new Date();
+    const replacement = this.queue.enqueue({
+      robotId: target.getId(),
+      robotName: target.getName(),
+      task: task.task,
+      ...createdLifecycle(timestamp),
+      timestamp,
+      path: cells && cells.length > 0 ? cells : task.path,
+      taskId: task.taskId,
+      inventory: task.inventory && { ...task.inventory },
+      priority: task.priority,
+      dueTick: task.dueTick,
+      reassignedFrom: task.queueId,
+    });
+    this.queue.replaceDependency(task.queueId!, replacement.queueId!);
+    this.events.push({ tick: this.tick, robotId: target.getId(), type: "reassigned", detail: `${task.queueId} from ${task.robotId} as ${replacement.queueId}` });
+    return replacement;
+  }
+
+  /**
+   * Raise a replanning trigger for every route with a dynamic obstacle within the lookahead,
+   * once per blocked cell, and detour around it to the first free cell after it when possible
+   */
+  private checkDynamicObstacles(): void {
+    for (const robotId of sortRobotIds(Array.from(this.routes.keys()))) {
+      const route = this.routes.get(robotId)!;
+      const ahead = route.cells.slice(0, this.config.replanLookaheadCells);
+      const index = ahead.findIndex(([row, col]) => this.dynamics!.isBlocked(row, col));
+      if (index === -1) {
+        this.lastTrigger.delete(robotId);
+        continue;
+      }
+
+      const [row, col] = route.cells[index];
+      const key = `${row},${col}`;
+      if (this.lastTrigger.get(robotId) === key) continue;
+      this.lastTrigger.set(robotId, key);
+
+      const blocker = this.dynamics!.blockerAt(row, col)!;
+      const rejoin = route.cells.findIndex((cell, i) => i > index && !this.dynamics!.isBlocked(cell[0], cell[1]));
+      const { row: fromRow, col: fromCol } = this.robots.get(robotId)!.getPosition();
+      const options = { robotType: this.robots.get(robotId)!.getType().id };
+      const detour = rejoin === -1 ? null : findPath(this.dynamics!.planningMap(), [fromRow, fromCol], route.cells[rejoin], options);
+      if (detour) {
+        const extra = detour.length - 1 - (rejoin + 1);
+        route.cells = [...detour.slice(1), ...route.cells.slice(rejoin + 1)];
+        this.lastTrigger.delete(robotId);
+        this.events.push({ tick: this.tick, robotId, type: "replan", detail: `Route blocked at (${row}, ${col}) by ${blocker}; detour of ${extra >= 0 ? "+" : ""}${extra} cells` });
+      } else {
+        this.events.push({ tick: this.tick, robotId, type: "replan", detail: `Route blocked at (${row}, ${col}) by ${blocker}; no detour, waiting` });
+      }
+      this.replanTriggers.push({ tick: this.tick, robotId, queueId: route.task.queueId, cell: [row, col], blocker, rerouted: detour !== null });
+    }
+  }
+
+  /**
+   * Whether robots are still queued for a charging station or held on one until charged
+   */
+  private chargingPending(): boolean {
+    return this.chargingHolds.size > 0 || (this.charging?.waiting().length ?? 0) > 0;
+  }
+
+  /**
+   * Run until every queued task has finished and no robot waits for or holds a charging
+   * station, or maxTicks is reached. Assigned tasks whose dependencies can never complete
+   * (e.g. a cycle) fail once nothing else can run.
+   */
+  run(tasks: RobotTask[] | TaskQueue): SimulationResult {
+    this.queue = tasks instanceof TaskQueue ? tasks : TaskQueue.from(tasks);
+    this.dispatch();
+    while ((this.routes.size > 0 || this.queue.hasPending() || this.chargingPending()) && this.tick < this.config.maxTicks) {
+      // Trips the charging policy queued during the last dispatch start at the next one
+      const ready = Array.from(this.robots.keys()).some(robotId => !this.outOfService.has(robotId) && this.queue.nextReady(robotId, this.tick));
+      if (this.routes.size === 0 && !ready && !this.chargingPending() && this.queue.nextRelease(this.tick) === undefined) {
+        for (const task of this.queue.all().filter(task => task.status === "assigned")) {
+          transitionTask(task, "failed", { tick: this.tick, reason: "Dependencies never completed" });
+          this.events.push({ tick: this.tick, robotId: task.robotId, type: "failed", detail: "Dependencies never completed" });
+        }
+        break;
+      }
+      this.step();
+      this.dispatch();
+    }
+
+    return {
+      ticks: this.tick,
+      finished: this.routes.size === 0 && !this.queue.hasPending() && !this.chargingPending(),
+      trajectories: this.trajectories,
+      tasks: this.queue.all(),
+      events: this.events,
+      predictions: this.predictions,
+      ...(this.inventory ? { inventory: this.inventory.snapshot() } : {}),
+      replanTriggers: this.replanTriggers,
+      ...(this.dynamics ? { actors: this.actorTrajectories } : {}),
+      ...(this.faults ? { faults: this.faultReports() } : {}),
+      locks: this.locks,
+      ...(this.charging ? { charging: this.charging.snapshot() } : {}),
+    };
+  }
+
+  /**
+   * Move a robot into the next cell of its route. Returns false when it has to wait or its task ended.
+   */
+  private moveOneCell(robot: Robot, route: ActiveRoute): boolean {
+    const robotId = robot.getId();
+    const [row, col] = route.cells[0];
+    if (!this.map.isTraversable(row, col)) {
+      this.finish(robot, route, "failed", `Path blocked at (${row}, ${col})`);
+      return false;
+    }
+
+    const blocker = this.blockerAt(robotId, row, col);
+    const occupant = this.occupantOf(row, col);
+    if (occupant && occupant !== robotId) {
+      const { row: fromRow, col: fromCol } = robot.getPosition();
+      this.waits.set(robotId, { blocker: occupant, position: [fromRow, fromCol] });
+    }
+    if (blocker) {
+      const detail = `Cell (${row}, ${col}) occupied by ${blocker}`;
+      this.events.push({ tick: this.tick, robotId, type: "waiting", detail });
+      if (route.task.status === "in_progress") {
+        transitionTask(route.task, "blocked", { tick: this.tick, reason: detail });
+      }
+      return false;
+    }
+
+    if (route.task.status === "blocked") {
+      transitionTask(route.task, "in_progress", { tick: this.tick });
+    }
+    robot.setPosition({ row, col });
+    this.drain(robot, this.config.energy.whPerCell);
+    route.cells.shift();
+
+    if (robot.getBattery() <= 0) {
+      this.finish(robot, route, "failed", `Battery depleted at (${row}, ${col})`);
+      robot.status = "error";
+      return false;
+    }
+    if (route.cells.length === 0) {
+      this.finish(robot, route, "completed");
+      return false;
+    }
+    return true;
+  }
+
+  private drain(robot: Robot, wh: number): void {
+    robot.setBattery(clampBattery(robot.getBattery() - whToPercent(wh, robot.getType())));
+  }
+
+  private finish(robot: Robot, route: ActiveRoute, outcome: "completed" | "failed", detail?: string): void {
+    if (outcome === "completed") {
+      this.drain(robot, route.drops * this.config.energy.whPerPickOrDrop);
+      detail = detail || this.applyInventoryMove(robot, route.task);
+    }
+    if (outcome === "completed") {
+      this.queue.markCompleted(route.task, this.tick);
+    } else {
+      transitionTask(route.task, "failed", { tick: this.tick, reason: detail });
+    }
+    robot.finishTask();
+    this.routes.delete(robot.getId());
+    this.movementBudget.delete(robot.getId());
+    this.holds.delete(robot.getId());
+    this.lockDetector.forget(robot.getId());
+    this.events.push({ tick: this.tick, robotId: robot.getId(), type: outcome, detail });
+    if (this.charging) {
+      this.settleCharging(robot, route.task);
+    }
+  }
+
+  /**
+   * Move the task's goods and describe the move; a move the stock cannot cover is reported and skipped
+   */
+  private applyInventoryMove(robot: Robot, task: RobotTask): string | undefined {
+    if (!this.inventory || !task.inventory) return undefined;
+    const { operation, skuId, quantity, from, to } = task.inventory;
+    try {
+      this.inventory.apply(robot.getId(), task.inventory, this.tick);
+      return `${operation}: ${quantity} ${skuId} from ${from || robot.getId()} to ${to || robot.getId()}`;
+    } catch (error) {
+      this.events.push({
+        tick: this.tick,
+        robotId: robot.getId(),
+        type: "warning",
+        detail: `Inventory ${operation} skipped: ${error instanceof Error ? error.message : String(error)}`,
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Another robot or a dynamic obstacle holding a cell a robot wants to enter
+   */
+  private blockerAt(robotId: string, row: number, col: number): string | undefined {
+    const occupant = this.occupantOf(row, col);
+    return occupant && occupant !== robotId ? occupant : this.dynamics?.blockerAt(row, col);
+  }
+
+  /**
+   * Fault reports with recovery settled: every orphaned task ended completed, following
+   * reassignments (a replacement may itself be orphaned and reassigned again)
+   */
+  private faultReports(): FaultReport[] {
+    const outcome = (queueId: string): RobotTask | undefined => {
+      let task = this.queue.get(queueId);
+      while (task && task.status === "failed") {
+        const failed: RobotTask = task;
+        const next = this.queue.all().find(candidate => candidate.reassignedFrom === failed.queueId);
+        if (!next) break;
+        task = next;
+      }
+      return task;
+    };
+    return this.faults!.all().map(report => ({
+      ...report,
+      recovered: report.orphanedTasks.every(queueId => outcome(queueId)?.status === "completed"),
+    }));
+  }
+
+  private occupantOf(row: number, col: number): string | undefined {
+    for (const robot of this.robots.values()) {
+      const position = robot.getPosition();
+      if (position.row === row && position.col === col) {
+        return robot.getId();
+      }
+    }
+    return undefined;
+  }
+
+  private recordActors(): void {
+    for (const [actorId, [row, col]] of Object.entries(this.dynamics?.positions() || {})) {
+      const trajectory = this.actorTrajectories[actorId] || (this.actorTrajectories[actorId] = []);
+      trajectory.push({ tick: this.tick, row, col });
+    }
+  }
+
+  private snapshot(robot: Robot): TrajectoryPoint {
+    const { row, col } = robot.getPosition();
+    const reading = this.faults?.batteryReading(robot.getId(), robot.getBattery(), this.tick);
+    return {
+      tick: this.tick,
+      row,
+      col,
+      battery: robot.getBattery(),
+      ...(reading !== undefined && reading !== robot.getBattery() ? { reportedBattery: reading } : {}),
+      status: robot.getStatus(),
+    };
+  }
+}
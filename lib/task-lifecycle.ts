@@ -0,0 +1,84 @@
+/**
+ * Task Lifecycle
+ * States a dispatched task moves through and the transitions allowed between them. Every
+ * transition is recorded in the task's history with a timestamp, the simulation tick and a
+ * reason, so the UI and reports can show how each task progressed. A preempted task goes
+ * back to assigned; completed, failed and cancelled are final.
+ */
+
+export type TaskStatus =
+  | "created" // Built from a robot command
+  | "assigned" // Queued for a robot, waiting to start
+  | "accepted" // Picked up by the robot with a planned route
+  | "in_progress" // Moving along its route
+  | "blocked" // Waiting for an occupied cell
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export const TASK_TRANSITIONS: Record<TaskStatus, TaskStatus[]> = {
+  created: ["assigned", "cancelled"],
+  assigned: ["accepted", "failed", "cancelled"],
+  accepted: ["in_progress", "assigned", "failed", "cancelled"],
+  in_progress: ["blocked", "assigned", "completed", "failed", "cancelled"],
+  blocked: ["in_progress", "assigned", "failed", "cancelled"],
+  completed: [],
+  failed: [],
+  cancelled: [],
+};
+
+export interface TaskEvent {
+  status: TaskStatus;
+  from?: TaskStatus; // Omitted for the created event
+  timestamp: Date;
+  tick?: number; // Simulation tick, for transitions made by the simulator
+  reason?: string;
+}
+
+export interface LifecycleTask {
+  queueId?: string;
+  status: TaskStatus;
+  history: TaskEvent[];
+}
+
+/**
+ * Status and history of a newly created task
+ */
+export function createdLifecycle(timestamp: Date = new Date()): Pick<LifecycleTask, "status" | "history"> {
+  return { status: "created", history: [{ status: "created", timestamp }] };
+}
+
+export function canTransition(from: TaskStatus, to: TaskStatus): boolean {
+  return TASK_TRANSITIONS[from].includes(to);
+}
+
+export function isTerminal(status: TaskStatus): boolean {
+  return TASK_TRANSITIONS[status].length === 0;
+}
+
+/**
+ * Move a task to a new status and record the event. Throws on an illegal transition.
+ */
+export function transitionTask(task: LifecycleTask, to: TaskStatus, details: { tick?: number; reason?: string } = {}): void {
+  if (!canTransition(task.status, to)) {
+    throw new Error(`Illegal transition for task ${task.queueId || "(unqueued)"}: ${task.status} -> ${to}`);
+  }
+  task.history.push({
+    status: to,
+    from: task.status,
+    timestamp: new Date(),
+    ...(details.tick !== undefined ? { tick: details.tick } : {}),
+    ...(details.reason ? { reason: details.reason } : {}),
+  });
+  task.status = to;
+}
+
+/**
+ * One-line progression such as "assigned → accepted@0 → in_progress@1 → completed@9"
+ */
+export function describeHistory(history: TaskEvent[]): string {
+  return history
+    .filter(event => event.status !== "created")
+    .map(event => `${event.status}${event.tick !== undefined ? `@${event.tick}` : ""}`)
+    .join(" → ");
+}
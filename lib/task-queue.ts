@@ -0,0 +1,220 @@
+/**
+ * Task Queue
+ * Per-robot queue of dispatched tasks with priorities, due ticks, dependencies and release
+ * ticks. The next task for a robot is the released, unblocked one with the highest priority,
+ * then the earliest due tick, then the earliest enqueued. A newly released task with a
+ * higher priority than a robot's active task preempts it. Queued tasks are "assigned";
+ * status changes go through the task lifecycle.
+ */
+
+import type { RobotTask } from "./robots";
+import { isTerminal, TaskStatus, transitionTask } from "./task-lifecycle";
+
+/**
+ * Scheduling fields a task may carry; all optional so plain dispatched tasks queue FIFO
+ */
+export interface TaskScheduling {
+  priority?: number; // Higher runs first; 0 when omitted
+  dueTick?: number; // Tick the task should be completed by
+  dependsOn?: string[]; // Queue IDs that must complete first
+  releaseTick?: number; // Tick the task becomes available; 0 when omitted
+}
+
+export interface RobotQueueStats {
+  queued: number; // Assigned tasks, including preempted ones
+  active: number; // Accepted, in progress or blocked
+  completed: number;
+  failed: number;
+  cancelled: number;
+  overdue: number; // Unfinished tasks past their due tick, or tasks completed late
+}
+
+export class TaskQueue {
+  private tasks: RobotTask[] = [];
+  private completedAt: Map<string, number> = new Map();
+  private earlier?: TaskQueue; // Queue the tasks came from; dependencies and new IDs also look there
+
+  /**
+   * Queue from already dispatched tasks, in order. With `earlier` (e.g. the orchestrator's
+   * queue across dispatches) dependencies may name its tasks and new IDs avoid its IDs.
+   */
+  static from(tasks: RobotTask[], earlier?: TaskQueue): TaskQueue {
+    const queue = new TaskQueue();
+    queue.earlier = earlier;
+    tasks.forEach(task => queue.enqueue(task));
+    return queue;
+  }
+
+  /**
+   * Add a task. Tasks without a queue ID get one ("R1-1", "R1-2", ...); IDs must be unique.
+   * Created tasks become assigned to their robot.
+   */
+  enqueue(task: RobotTask): RobotTask {
+    if (!task.queueId) {
+      let number = this.forRobot(task.robotId).length + 1;
+      while (this.lookup(`${task.robotId}-${number}`)) number++;
+      task.queueId = `${task.robotId}-${number}`;
+    }
+    const existing = this.lookup(task.queueId);
+    if (existing && (existing !== task || this.get(task.queueId))) {
+      throw new Error(`Duplicate queued task ID: ${task.queueId}`);
+    }
+    if (task.status === "created") {
+      transitionTask(task, "assigned", { reason: `Queued for ${task.robotId}` });
+    }
+    this.tasks.push(task);
+    return task;
+  }
+
+  get(queueId: string): RobotTask | undefined {
+    return this.tasks.find(task => task.queueId === queueId);
+  }
+
+  all(): RobotTask[] {
+    return [...this.tasks];
+  }
+
+  forRobot(robotId: string): RobotTask[] {
+    return this.tasks.filter(task => task.robotId === robotId);
+  }
+
+  /**
+   * Assigned tasks of a robot in the order they would run, ignoring releases and dependencies
+   */
+  pending(robotId: string): RobotTask[] {
+    return this.forRobot(robotId).filter(task => task.status === "assigned").sort(compareTasks(this.tasks));
+  }
+
+  /**
+   * The task a robot should run next at a tick, if any is released and unblocked
+   */
+  nextReady(robotId: string, tick: number): RobotTask | undefined {
+    return this.pending(robotId).find(task => this.isReady(task, tick));
+  }
+
+  /**
+   * A ready task that outranks the robot's active task (strictly higher priority)
+   */
+  preemptorFor(active: RobotTask, tick: number): RobotTask | undefined {
+    const next = this.nextReady(active.robotId, tick);
+    return next && (next.priority || 0) > (active.priority || 0) ? next : undefined;
+  }
+
+  markCompleted(task: RobotTask, tick: number): void {
+    transitionTask(task, "completed", { tick });
+    if (task.queueId) this.completedAt.set(task.queueId, tick);
+  }
+
+  /**
+   * Cancel a task that has not finished. Throws for unknown or finished tasks.
+   */
+  cancel(queueId: string, reason = "Cancelled by operator", tick?: number): RobotTask {
+    const task = this.get(queueId);
+    if (!task) {
+      throw new Error(`Unknown queued task: ${queueId}`);
+    }
+    if (isTerminal(task.status)) {
+      throw new Error(`Task ${queueId} is already ${task.status}`);
+    }
+    transitionTask(task, "cancelled", { tick, reason });
+    return task;
+  }
+
+  /**
+   * Fail assigned tasks that can never run: a dependency failed, was cancelled or is not in
+   * the queue. Returns each failed task with the reason.
+   */
+  failBlocked(tick?: number): Array<{ task: RobotTask; reason: string }> {
+    const failed: Array<{ task: RobotTask; reason: string }> = [];
+    let changed = true;
+
+    // Repeat so failures propagate along dependency chains
+    while (changed) {
+      changed = false;
+      for (const task of this.tasks) {
+        if (task.status !== "assigned") continue;
+        for (const dependencyId of task.dependsOn || []) {
+          const dependency = this.lookup(dependencyId);
+          const reason = !dependency
+            ? `Depends on unknown task ${dependencyId}`
+            : dependency.status === "failed" || dependency.status === "cancelled"
+              ? `Dependency ${dependencyId} ${dependency.status}`
+              : undefined;
+          if (reason) {
+            transitionTask(task, "failed", { tick, reason });
+            failed.push({ task, reason });
+            changed = true;
+            break;
+          }
+        }
+      }
+    }
+
+    return failed;
+  }
+
+  /**
+   * Point unfinished tasks that depend on one task at its replacement, e.g. after a reassignment
+   */
+  replaceDependency(oldId: string, newId: string): void {
+    for (const task of this.tasks) {
+      if (isTerminal(task.status) || !task.dependsOn?.includes(oldId)) continue;
+      task.dependsOn = task.dependsOn.map(dependencyId => (dependencyId === oldId ? newId : dependencyId));
+    }
+  }
+
+  /**
+   * Whether any task is still waiting to run
+   */
+  hasPending(): boolean {
+    return this.tasks.some(task => task.status === "assigned");
+  }
+
+  /**
+   * Earliest release tick after `tick` among assigned tasks, if any
+   */
+  nextRelease(tick: number): number | undefined {
+    const releases = this.tasks
+      .filter(task => task.status === "assigned" && (task.releaseTick || 0) > tick)
+      .map(task => task.releaseTick!);
+    return releases.length > 0 ? Math.min(...releases) : undefined;
+  }
+
+  stats(robotId: string, tick: number): RobotQueueStats {
+    const tasks = this.forRobot(robotId);
+    const count = (...statuses: TaskStatus[]) => tasks.filter(task => statuses.includes(task.status)).length;
+    return {
+      queued: count("created", "assigned"),
+      active: count("accepted", "in_progress", "blocked"),
+      completed: count("completed"),
+      failed: count("failed"),
+      cancelled: count("cancelled"),
+      overdue: tasks.filter(task => this.isOverdue(task, tick)).length,
+    };
+  }
+
+  isOverdue(task: RobotTask, tick: number): boolean {
+    if (task.dueTick === undefined || task.status === "failed" || task.status === "cancelled") return false;
+    const finishedAt = task.queueId ? this.completedAt.get(task.queueId) : undefined;
+    return finishedAt !== undefined ? finishedAt > task.dueTick : tick > task.dueTick;
+  }
+
+  private isReady(task: RobotTask, tick: number): boolean {
+    if ((task.releaseTick || 0) > tick) return false;
+    return (task.dependsOn || []).every(dependencyId => this.lookup(dependencyId)?.status === "completed");
+  }
+
+  private lookup(queueId: string): RobotTask | undefined {
+    return this.get(queueId) || this.earlier?.get(queueId);
+  }
+}
+
+/**
+ * Priority (high first), then due tick (early first, none last), then enqueue order
+ */
+function compareTasks(order: RobotTask[]): (a: RobotTask, b: RobotTask) => number {
+  return (a, b) =>
+    (b.priority || 0) - (a.priority || 0) ||
+    (a.dueTick ?? Infinity) - (b.dueTick ?? Infinity) ||
+    order.indexOf(a) - order.indexOf(b);
+}
@@ -2,6 +2,17 @@
  * Test Scenarios for Warehouse Robot Control System
  */
 
+import type { ScenarioDynamics } from "./dynamic-obstacles";
+import type { EnergyModel } from "./energy-model";
+import type { RobotFault } from "./fault-injection";
+import type { InventoryMove, ScenarioInventory } from "./inventory";
+import type { ScenarioOrders } from "./orders";
+import { Capability, RobotType } from "./robot-types";
+import type { ScenarioTransform } from "./scenario-transforms";
+import type { TaskScheduling } from "./task-queue";
+import type { ChargingPolicyConfig } from "./charging-manager";
+import type { TrafficAnnotations } from "./traffic-rules";
+
 export interface TestScenario {
   id?: string;
   role: {
@@ -23,6 +34,7 @@ export interface TestScenario {
       unloadingArea: number[];
     };
     grid: string[][];
+    traffic?: TrafficAnnotations; // One-way aisles, speed zones and restricted areas
   };
   globalState: {
     robots: {
@@ -31,16 +43,28 @@ export interface TestScenario {
         batteryPercent: number;
         status?: string;
         chargingStationId?: number;
+        type?: string; // Robot type ID; general-purpose when omitted
       };
     };
   };
+  robotTypes?: { [typeId: string]: RobotType }; // Extra robot types beyond the built-in ones
+  energyModel?: Partial<EnergyModel>; // Overrides for the default drain and charge rates
+  transforms?: ScenarioTransform[]; // Declared adjustments to the robots before a run
+  inventory?: ScenarioInventory; // SKUs and starting stock by location name
+  orders?: ScenarioOrders; // Customer orders; the scenario runs once per wave
+  dynamics?: ScenarioDynamics; // Moving actors and temporarily blocked cells during the simulated run
+  faults?: RobotFault[]; // Scripted robot faults for resilience testing
+  charging?: ChargingPolicyConfig; // When robots go to charge and when they leave; threshold-based by default
   operatorCommands: {
-    taskPool: Array<{
+    taskPool: Array<TaskScheduling & { // Priority, due tick, dependencies (task IDs) and release tick
       taskId: string;
       description: string;
       destination?: { row: number; col: number };
       targetCoordinate?: { row: number; col: number };
       shelves?: number[];
+      requiredCapabilities?: Capability[]; // Inferred from the description when omitted
+      payloadKg?: number;
+      inventory?: InventoryMove; // Goods moved when the task completes
     }>;
   };
   agentInstructions: {
@@ -244,6 +268,16 @@ export const testScenarios: TestScenario[] = [
     }
   },
 
+  transforms: [
+    {
+      type: "relocateRobot",
+      robotId: "R4",
+      to: { row: 13, col: 0 },
+      when: { rows: [15, 15], cols: [0, 3] },
+      reason: "Start R4 on the path instead of inside the charging area"
+    }
+  ],
+
   operatorCommands: {
     taskPool: [
       {
@@ -329,7 +363,7 @@ export const testScenarios: TestScenario[] = [
       [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
       [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
       [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
-      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","R1",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","R1","."],
       [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
       [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","R2",".","."],
       ["C","C","C","C",".",".","L","L","L","L",".",".","U","U","U","U","R4","."]
@@ -487,13 +521,15 @@ export const testScenarios: TestScenario[] = [
       {
         taskId: "Beta",
         description:
-          "Send robot with lowest battery to charge immediately"
+          "Send robot with lowest battery to charge immediately",
+        priority: 2
       },
       {
         taskId: "Gamma",
         description:
           "Clear path for emergency maintenance at coordinate (6,8)",
-        targetCoordinate: { row: 6, col: 8 }
+        targetCoordinate: { row: 6, col: 8 },
+        priority: 3
       },
       {
         taskId: "Delta",
@@ -525,5 +561,782 @@ export const testScenarios: TestScenario[] = [
       R4: "[[row, col], ...]"
     }
   }
+},
+ {
+  id: "scenario-5",
+  role: {
+    description: "Autonomous Central Dispatcher for an IIoT Warehouse with a mixed fleet",
+    responsibilities: [
+      "Control 4 robots of different types on an 18x16 grid",
+      "Allocate tasks to robots that have the required capabilities and payload",
+      "Ensure battery safety",
+      "Generate collision-free paths"
+    ]
+  },
+
+  warehouseMap: {
+    dimensions: {
+      rows: 16,
+      columns: 18,
+      gridIndices: "0-287"
+    },
+    legend: {
+      ".": "Path",
+      S: "Shelf (Obstacle)",
+      C: "Charging Area",
+      L: "Loading Area",
+      U: "Unloading Area"
+    },
+    specialZones: {
+      chargingArea: [270, 271, 272, 273],
+      loadingArea: [277, 278, 279, 280],
+      unloadingArea: [284, 285, 286, 287]
+    },
+    grid: [
+      ["R1",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","R3",".","."],
+      ["C","C","C","C",".",".","L","L","L","L",".",".","U","U","U","U",".","R2"]
+    ]
+  },
+
+  globalState: {
+    robots: {
+      R1: {
+        position: { row: 0, col: 0 },
+        batteryPercent: 90,
+        type: "inspector"
+      },
+      R2: {
+        position: { row: 15, col: 17 },
+        batteryPercent: 80,
+        type: "tugger"
+      },
+      R3: {
+        position: { row: 14, col: 16 },
+        batteryPercent: 95,
+        type: "picker"
+      },
+      R4: {
+        position: { row: 13, col: 0 },
+        batteryPercent: 100,
+        status: "working",
+        type: "general"
+      }
+    }
+  },
+
+  inventory: {
+    skus: [
+      { id: "SKU-100", name: "Gearbox", unitWeightKg: 5 },
+      { id: "SKU-200", name: "Sensor kit", unitWeightKg: 2 }
+    ],
+    stock: {
+      "Unloading Area": { "SKU-100": 4 },
+      "Loading Area": { "SKU-200": 10 },
+      "Shelf 103": { "SKU-100": 1 },
+      "Shelf 38": { "SKU-200": 1 }
+    },
+    replenishment: [
+      { skuId: "SKU-200", location: "Shelf 38", min: 2, target: 4, source: "Loading Area" }
+    ],
+    expectedStock: {
+      "Unloading Area": { "SKU-100": 3 },
+      "Loading Area": { "SKU-200": 7 },
+      "Shelf 103": { "SKU-100": 2 },
+      "Shelf 38": { "SKU-200": 4 }
+    }
+  },
+
+  operatorCommands: {
+    taskPool: [
+      {
+        taskId: "Alpha",
+        description: "Tow a 300 kg pallet cart from Loading Area to Unloading Area",
+        requiredCapabilities: ["navigation", "towing"],
+        payloadKg: 300
+      },
+      {
+        taskId: "Beta",
+        description: "Pick 1 gearbox (SKU-100) from the Unloading Area and deliver it to Shelf 103",
+        destination: { row: 5, col: 13 },
+        requiredCapabilities: ["navigation", "picking", "transport"],
+        payloadKg: 5,
+        inventory: { operation: "putaway", skuId: "SKU-100", quantity: 1, from: "Unloading Area", to: "Shelf 103" }
+      },
+      {
+        taskId: "Gamma",
+        description: "Inspect the aisle at coordinate (7,9) for spilled goods",
+        targetCoordinate: { row: 7, col: 9 },
+        requiredCapabilities: ["navigation", "inspection"]
+      }
+    ]
+  },
+
+  agentInstructions: {
+    allocation:
+      "Only assign a task to a robot whose type has every required capability and enough payload. Prefer the nearest capable robot.",
+    safety:
+      "Robots with battery below 20% must go to charging stations (270-273) and cannot accept tasks.",
+    constraints: [
+      "No shelf collisions",
+      "No multi-robot collisions at the same coordinate and time"
+    ]
+  },
+
+  expectedOutputFormat: {
+    allocationSummary:
+      "Explain which robot type was chosen for each task and why",
+    paths: {
+      R1: "[[row, col], ...]",
+      R2: "[[row, col], ...]",
+      R3: "[[row, col], ...]",
+      R4: "[[row, col], ...]"
+    }
+  }
+},
+ {
+  id: "scenario-6",
+  role: {
+    description: "Autonomous Central Dispatcher for an IIoT Warehouse fulfilling customer orders",
+    responsibilities: [
+      "Control 4 robots on an 18x16 grid",
+      "Pick the SKUs of each order wave and stage them in the Loading Area",
+      "Ensure battery safety",
+      "Generate collision-free paths"
+    ]
+  },
+
+  warehouseMap: {
+    dimensions: {
+      rows: 16,
+      columns: 18,
+      gridIndices: "0-287"
+    },
+    legend: {
+      ".": "Path",
+      S: "Shelf (Obstacle)",
+      C: "Charging Area",
+      L: "Loading Area",
+      U: "Unloading Area"
+    },
+    specialZones: {
+      chargingArea: [270, 271, 272, 273],
+      loadingArea: [277, 278, 279, 280],
+      unloadingArea: [284, 285, 286, 287]
+    },
+    grid: [
+      ["R1",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","R3",".","."],
+      ["C","C","C","C",".",".","L","L","L","L",".",".","U","U","U","U",".","R2"]
+    ]
+  },
+
+  globalState: {
+    robots: {
+      R1: {
+        position: { row: 0, col: 0 },
+        batteryPercent: 90,
+        type: "picker"
+      },
+      R2: {
+        position: { row: 15, col: 17 },
+        batteryPercent: 80,
+        type: "general"
+      },
+      R3: {
+        position: { row: 14, col: 16 },
+        batteryPercent: 95,
+        type: "picker"
+      },
+      R4: {
+        position: { row: 13, col: 0 },
+        batteryPercent: 100,
+        status: "working",
+        type: "general"
+      }
+    }
+  },
+
+  inventory: {
+    skus: [
+      { id: "SKU-100", name: "Gearbox", unitWeightKg: 5 },
+      { id: "SKU-200", name: "Sensor kit", unitWeightKg: 2 },
+      { id: "SKU-300", name: "Cable reel", unitWeightKg: 8 }
+    ],
+    stock: {
+      "Shelf 38": { "SKU-100": 6 },
+      "Shelf 42": { "SKU-200": 10 },
+      "Shelf 103": { "SKU-100": 3, "SKU-300": 4 },
+      "Shelf 157": { "SKU-300": 2 }
+    }
+  },
+
+  orders: {
+    orders: [
+      { orderId: "O-1001", lines: [{ skuId: "SKU-100", quantity: 2 }, { skuId: "SKU-200", quantity: 1 }], dueTick: 60 },
+      { orderId: "O-1002", lines: [{ skuId: "SKU-300", quantity: 1 }], dueTick: 40 },
+      { orderId: "O-1003", lines: [{ skuId: "SKU-200", quantity: 3 }], dueTick: 90 },
+      { orderId: "O-1004", lines: [{ skuId: "SKU-100", quantity: 5 }, { skuId: "SKU-300", quantity: 4 }], dueTick: 120 },
+      { orderId: "O-1005", lines: [{ skuId: "SKU-200", quantity: 2 }], dueTick: 150 }
+    ],
+    batching: { strategy: "dueTime", maxOrdersPerWave: 3, maxUnitsPerWave: 12, dueWindowTicks: 60 },
+    stagingLocation: "Loading Area"
+  },
+
+  operatorCommands: {
+    taskPool: []
+  },
+
+  agentInstructions: {
+    allocation:
+      "Assign each pick task to the nearest robot with the picking capability and enough payload; robots may take several picks in sequence.",
+    safety:
+      "Robots with battery below 20% must go to charging stations (270-273) and cannot accept tasks.",
+    constraints: [
+      "No shelf collisions",
+      "No multi-robot collisions at the same coordinate and time"
+    ]
+  },
+
+  expectedOutputFormat: {
+    allocationSummary:
+      "Explain which robot picks each SKU and for which orders",
+    paths: {
+      R1: "[[row, col], ...]",
+      R2: "[[row, col], ...]",
+      R3: "[[row, col], ...]",
+      R4: "[[row, col], ...]"
+    }
+  }
+},
+  {
+  id: "scenario-7",
+  role: {
+    description: "Autonomous Central Dispatcher for an IIoT Warehouse shared with people and forklifts",
+    responsibilities: [
+      "Control 4 robots on an 18x16 grid",
+      "Allocate tasks efficiently",
+      "Route around moving forklifts, pickers and blocked aisles",
+      "Generate collision-free paths"
+    ]
+  },
+
+  warehouseMap: {
+    dimensions: {
+      rows: 16,
+      columns: 18,
+      gridIndices: "0-287"
+    },
+    legend: {
+      ".": "Path",
+      S: "Shelf (Obstacle)",
+      C: "Charging Area",
+      L: "Loading Area",
+      U: "Unloading Area"
+    },
+    specialZones: {
+      chargingArea: [270, 271, 272, 273],
+      loadingArea: [277, 278, 279, 280],
+      unloadingArea: [284, 285, 286, 287]
+    },
+    grid: [
+      ["R1",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","R3",".","."],
+      ["C","C","C","C",".",".","L","L","L","L",".",".","U","U","U","U",".","R2"]
+    ]
+  },
+
+  globalState: {
+    robots: {
+      R1: {
+        position: { row: 0, col: 0 },
+        batteryPercent: 85
+      },
+      R2: {
+        position: { row: 15, col: 17 },
+        batteryPercent: 75
+      },
+      R3: {
+        position: { row: 14, col: 16 },
+        batteryPercent: 90
+      },
+      R4: {
+        position: { row: 13, col: 0 },
+        batteryPercent: 100,
+        status: "working"
+      }
+    }
+  },
+
+  dynamics: {
+    actors: [
+      {
+        id: "F1",
+        kind: "forklift",
+        start: [6, 0],
+        trajectory: { type: "scripted", waypoints: [[6, 17], [6, 0]], loop: true }
+      },
+      {
+        id: "P1",
+        kind: "picker",
+        start: [13, 9],
+        trajectory: { type: "randomWalk", seed: 7, moveProbability: 0.5, area: { rows: [12, 14], cols: [4, 13] } }
+      }
+    ],
+    blockedCells: [
+      { cells: [[12, 6], [13, 6]], fromTick: 5, untilTick: 40, reason: "Spilled pallet" }
+    ]
+  },
+
+  operatorCommands: {
+    taskPool: [
+      {
+        taskId: "Alpha",
+        description: "Move 1 item from Shelf 38 to the Loading Area",
+        destination: { row: 14, col: 7 }
+      },
+      {
+        taskId: "Beta",
+        description: "Move 1 item from Unloading Area to Shelf 157",
+        destination: { row: 8, col: 13 }
+      },
+      {
+        taskId: "Gamma",
+        description: "Inspect Shelf 99"
+      }
+    ]
+  },
+
+  agentInstructions: {
+    allocation:
+      "Assign tasks based on distance and battery health. Prefer aisles away from the forklift's route.",
+    safety:
+      "Robots with battery below 20% must go to charging stations (270-273) and cannot accept tasks. Never plan a path through a blocked cell.",
+    constraints: [
+      "No shelf collisions",
+      "No multi-robot collisions at the same coordinate and time",
+      "Keep clear of forklifts and pickers"
+    ]
+  },
+
+  expectedOutputFormat: {
+    allocationSummary:
+      "Explain task-to-robot assignment and how the paths avoid the dynamic obstacles",
+    paths: {
+      R1: "[[row, col], ...]",
+      R2: "[[row, col], ...]",
+      R3: "[[row, col], ...]",
+      R4: "[[row, col], ...]"
+    }
+  }
+},
+  {
+  id: "scenario-8",
+  role: {
+    description: "Autonomous Central Dispatcher for an IIoT Warehouse with unreliable robots",
+    responsibilities: [
+      "Control 4 robots on an 18x16 grid",
+      "Allocate tasks efficiently",
+      "Detect faulty robots and reassign their orphaned tasks",
+      "Ensure battery safety",
+      "Generate collision-free paths"
+    ]
+  },
+
+  warehouseMap: {
+    dimensions: {
+      rows: 16,
+      columns: 18,
+      gridIndices: "0-287"
+    },
+    legend: {
+      ".": "Path",
+      S: "Shelf (Obstacle)",
+      C: "Charging Area",
+      L: "Loading Area",
+      U: "Unloading Area"
+    },
+    specialZones: {
+      chargingArea: [270, 271, 272, 273],
+      loadingArea: [277, 278, 279, 280],
+      unloadingArea: [284, 285, 286, 287]
+    },
+    grid: [
+      ["R1",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","R3",".","."],
+      ["C","C","C","C",".",".","L","L","L","L",".",".","U","U","U","U",".","R2"]
+    ]
+  },
+
+  globalState: {
+    robots: {
+      R1: {
+        position: { row: 0, col: 0 },
+        batteryPercent: 85
+      },
+      R2: {
+        position: { row: 15, col: 17 },
+        batteryPercent: 75
+      },
+      R3: {
+        position: { row: 14, col: 16 },
+        batteryPercent: 90
+      },
+      R4: {
+        position: { row: 13, col: 0 },
+        batteryPercent: 100,
+        status: "working"
+      }
+    }
+  },
+
+  faults: [
+    { robotId: "R1", type: "dropPayload", atTick: 6 },
+    { robotId: "R2", type: "stall", atTick: 8 },
+    { robotId: "R3", type: "batterySensor", atTick: 5, reportedPercent: 3, durationTicks: 20 }
+  ],
+
+  operatorCommands: {
+    taskPool: [
+      {
+        taskId: "Alpha",
+        description: "Move 1 item from Loading Area to Shelf 97",
+        destination: { row: 5, col: 13 }
+      },
+      {
+        taskId: "Beta",
+        description: "Move 1 item from Unloading Area to Shelf 38",
+        destination: { row: 2, col: 2 }
+      },
+      {
+        taskId: "Gamma",
+        description: "Move 1 item from Loading Area to Shelf 42",
+        destination: { row: 2, col: 6 }
+      }
+    ]
+  },
+
+  agentInstructions: {
+    allocation:
+      "Assign tasks based on distance and battery health. Robots may perform multiple tasks sequentially.",
+    safety:
+      "Robots with battery below 20% must go to charging stations (270-273) and cannot accept tasks.",
+    constraints: [
+      "No shelf collisions",
+      "No multi-robot collisions at the same coordinate and time"
+    ]
+  },
+
+  expectedOutputFormat: {
+    allocationSummary:
+      "Explain task-to-robot assignment and how robots back each other up",
+    paths: {
+      R1: "[[row, col], ...]",
+      R2: "[[row, col], ...]",
+      R3: "[[row, col], ...]",
+      R4: "[[row, col], ...]"
+    }
+  }
+},
+  {
+  id: "scenario-9",
+  role: {
+    description: "Autonomous Central Dispatcher for an IIoT Warehouse with traffic rules",
+    responsibilities: [
+      "Control 4 robots on an 18x16 grid",
+      "Allocate tasks efficiently",
+      "Follow one-way aisles, speed zones and restricted dock areas",
+      "Ensure battery safety",
+      "Generate collision-free paths"
+    ]
+  },
+
+  warehouseMap: {
+    dimensions: {
+      rows: 16,
+      columns: 18,
+      gridIndices: "0-287"
+    },
+    legend: {
+      ".": "Path",
+      S: "Shelf (Obstacle)",
+      C: "Charging Area",
+      L: "Loading Area",
+      U: "Unloading Area"
+    },
+    specialZones: {
+      chargingArea: [270, 271, 272, 273],
+      loadingArea: [277, 278, 279, 280],
+      unloadingArea: [284, 285, 286, 287]
+    },
+    grid: [
+      ["R1",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","R3",".","."],
+      ["C","C","C","C",".",".","L","L","L","L",".",".","U","U","U","U",".","R2"]
+    ],
+    traffic: {
+      oneWay: [
+        { name: "Cross aisle 6 (eastbound)", area: { rows: [6, 6], cols: [0, 17] }, directions: ["E"] },
+        { name: "Cross aisle 7 (westbound)", area: { rows: [7, 7], cols: [0, 17] }, directions: ["W"] }
+      ],
+      speedZones: [
+        { name: "Loading dock approach", area: { rows: [14, 15], cols: [4, 11] }, maxSpeedCellsPerTick: 0.5 }
+      ],
+      restricted: [
+        { name: "Dock doors", area: { rows: [15, 15], cols: [4, 5] }, cells: [[15, 10], [15, 11]], allowedRobotTypes: ["tugger"] }
+      ]
+    }
+  },
+
+  globalState: {
+    robots: {
+      R1: {
+        position: { row: 0, col: 0 },
+        batteryPercent: 85
+      },
+      R2: {
+        position: { row: 15, col: 17 },
+        batteryPercent: 75
+      },
+      R3: {
+        position: { row: 14, col: 16 },
+        batteryPercent: 90
+      },
+      R4: {
+        position: { row: 13, col: 0 },
+        batteryPercent: 100,
+        status: "working",
+        type: "tugger"
+      }
+    }
+  },
+
+  operatorCommands: {
+    taskPool: [
+      {
+        taskId: "Alpha",
+        description: "Move 1 item from Loading Area to Shelf 97",
+        destination: { row: 5, col: 13 }
+      },
+      {
+        taskId: "Beta",
+        description: "Move 1 item from Unloading Area to Shelf 38",
+        destination: { row: 2, col: 2 }
+      },
+      {
+        taskId: "Gamma",
+        description: "Move 1 item from Loading Area to Shelf 42",
+        destination: { row: 2, col: 6 }
+      }
+    ]
+  },
+
+  agentInstructions: {
+    allocation:
+      "Assign tasks based on distance and battery health. Robots may perform multiple tasks sequentially.",
+    safety:
+      "Robots with battery below 20% must go to charging stations (270-273) and cannot accept tasks.",
+    constraints: [
+      "No shelf collisions",
+      "No multi-robot collisions at the same coordinate and time",
+      "No driving against one-way aisles; only tuggers may enter the dock doors"
+    ]
+  },
+
+  expectedOutputFormat: {
+    allocationSummary:
+      "Explain task-to-robot assignment and how paths follow the traffic rules",
+    paths: {
+      R1: "[[row, col], ...]",
+      R2: "[[row, col], ...]",
+      R3: "[[row, col], ...]",
+      R4: "[[row, col], ...]"
+    }
+  }
+},
+  {
+  id: "scenario-10",
+  role: {
+    description: "Autonomous Central Dispatcher for an IIoT Warehouse with only two charging stations",
+    responsibilities: [
+      "Control 4 robots on an 18x16 grid",
+      "Allocate tasks efficiently",
+      "Send low-battery robots to free charging stations, one robot per station",
+      "Generate collision-free paths"
+    ]
+  },
+
+  warehouseMap: {
+    dimensions: {
+      rows: 16,
+      columns: 18,
+      gridIndices: "0-287"
+    },
+    legend: {
+      ".": "Path",
+      S: "Shelf (Obstacle)",
+      C: "Charging Area",
+      L: "Loading Area",
+      U: "Unloading Area"
+    },
+    specialZones: {
+      chargingArea: [270, 271],
+      loadingArea: [276, 277, 278, 279],
+      unloadingArea: [284, 285, 286, 287]
+    },
+    grid: [
+      ["R1",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".","S","S",".",".","S","S",".",".","S","S",".",".","S","S",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","."],
+      [".",".",".",".",".",".",".",".",".",".",".",".",".",".",".","R3",".","."],
+      ["C","C",".",".",".",".","L","L","L","L",".",".","U","U","U","U",".","R2"]
+    ]
+  },
+
+  globalState: {
+    robots: {
+      R1: {
+        position: { row: 0, col: 0 },
+        batteryPercent: 88
+      },
+      R2: {
+        position: { row: 15, col: 17 },
+        batteryPercent: 14,
+        status: "CRITICAL"
+      },
+      R3: {
+        position: { row: 14, col: 16 },
+        batteryPercent: 17,
+        status: "CRITICAL"
+      },
+      R4: {
+        position: { row: 15, col: 0 },
+        batteryPercent: 72,
+        status: "charging",
+        chargingStationId: 270
+      }
+    }
+  },
+
+  charging: {
+    policy: "opportunistic",
+    thresholdPercent: 20,
+    topUpBelowPercent: 60,
+    targetPercent: 80
+  },
+
+  operatorCommands: {
+    taskPool: [
+      {
+        taskId: "Alpha",
+        description: "Move 1 item from Loading Area to Shelf 97",
+        destination: { row: 5, col: 13 }
+      },
+      {
+        taskId: "Beta",
+        description: "Move 1 item from Unloading Area to Shelf 38",
+        destination: { row: 2, col: 2 }
+      }
+    ]
+  },
+
+  agentInstructions: {
+    allocation:
+      "Assign tasks based on distance and battery health. Robots may perform multiple tasks sequentially.",
+    safety:
+      "Robots with battery below 20% must charge. Stations 270 and 271 take one robot each; R4 is docked at 270.",
+    constraints: [
+      "No shelf collisions",
+      "No multi-robot collisions at the same coordinate and time",
+      "Never send two robots to the same charging station"
+    ]
+  },
+
+  expectedOutputFormat: {
+    allocationSummary:
+      "Explain which robot charges where, which one waits, and who takes the tasks",
+    paths: {
+      R1: "[[row, col], ...]",
+      R2: "[[row, col], ...]",
+      R3: "[[row, col], ...]",
+      R4: "[[row, col], ...]"
+    }
+  }
 },
 ];
@@ -0,0 +1,209 @@
+/**
+ * Traffic Rules
+ * Annotations a scenario map carries on top of its cells: one-way aisles (the directions
+ * robots may travel in a cell), speed limits, and restricted areas that only some robot
+ * types may enter (e.g. the no-go zone in front of dock doors). Path planners, the
+ * simulator and the evaluator check moves against them; prompts describe them to the LLM.
+ */
+
+import type { GridCell } from "./warehouse-map";
+
+export type Direction = "N" | "S" | "E" | "W"; // N = up (row - 1), E = right (col + 1)
+
+/**
+ * Cells listed one by one, as an inclusive rectangle, or both
+ */
+export interface TrafficRegion {
+  name?: string;
+  cells?: GridCell[];
+  area?: { rows: [number, number]; cols: [number, number] };
+}
+
+/**
+ * Robots may not move against the listed directions in these cells; moves across them stay
+ * allowed, so an eastbound aisle (["E"]) forbids westward moves but can be entered from the side
+ */
+export interface OneWayRule extends TrafficRegion {
+  directions: Direction[];
+}
+
+export interface SpeedZone extends TrafficRegion {
+  maxSpeedCellsPerTick: number;
+}
+
+export interface RestrictedArea extends TrafficRegion {
+  allowedRobotTypes?: string[]; // Robot type IDs that may enter; no robot may when omitted
+}
+
+export interface TrafficAnnotations {
+  oneWay?: OneWayRule[];
+  speedZones?: SpeedZone[];
+  restricted?: RestrictedArea[];
+}
+
+const DIRECTIONS: { [direction in Direction]: { step: GridCell; opposite: Direction; name: string } } = {
+  N: { step: [-1, 0], opposite: "S", name: "north" },
+  S: { step: [1, 0], opposite: "N", name: "south" },
+  E: { step: [0, 1], opposite: "W", name: "east" },
+  W: { step: [0, -1], opposite: "E", name: "west" },
+};
+
+const cellKey = ([row, col]: GridCell): string => `${row},${col}`;
+
+/**
+ * Direction of a move between 4-adjacent cells; undefined for any other pair
+ */
+export function moveDirection(from: GridCell, to: GridCell): Direction | undefined {
+  const rowStep = to[0] - from[0];
+  const colStep = to[1] - from[1];
+  return (Object.keys(DIRECTIONS) as Direction[]).find(direction => {
+    const [row, col] = DIRECTIONS[direction].step;
+    return row === rowStep && col === colStep;
+  });
+}
+
+/**
+ * Every cell of a region, listed cells first
+ */
+export function regionCells(region: TrafficRegion): GridCell[] {
+  const cells: GridCell[] = [...(region.cells || [])];
+  if (region.area) {
+    const { rows, cols } = region.area;
+    for (let row = Math.min(...rows); row <= Math.max(...rows); row++) {
+      for (let col = Math.min(...cols); col <= Math.max(...cols); col++) cells.push([row, col]);
+    }
+  }
+  return cells;
+}
+
+function describeRegion(region: TrafficRegion): string {
+  const parts: string[] = [];
+  if (region.area) {
+    const { rows, cols } = region.area;
+    parts.push(`rows ${Math.min(...rows)}-${Math.max(...rows)}, cols ${Math.min(...cols)}-${Math.max(...cols)}`);
+  }
+  if (region.cells && region.cells.length > 0) {
+    parts.push(region.cells.map(([row, col]) => `[${row}, ${col}]`).join(", "));
+  }
+  return `${region.name ? `${region.name}: ` : ""}${parts.join("; ")}`;
+}
+
+export class TrafficRules {
+  readonly annotations: TrafficAnnotations;
+  private directions: Map<string, Direction[]> = new Map(); // Overlapping one-way rules allow all their directions
+  private speedLimits: Map<string, number> = new Map(); // Overlapping zones keep the lowest limit
+  private restrictions: Map<string, RestrictedArea> = new Map(); // The first area listed wins
+
+  constructor(annotations: TrafficAnnotations) {
+    this.annotations = annotations;
+
+    for (const rule of annotations.oneWay || []) {
+      const unknown = rule.directions.filter(direction => !(direction in DIRECTIONS));
+      if (rule.directions.length === 0 || unknown.length > 0) {
+        throw new Error(`One-way rule ${rule.name || describeRegion(rule)} has invalid directions [${rule.directions.join(", ")}]`);
+      }
+      for (const cell of regionCells(rule)) {
+        const key = cellKey(cell);
+        this.directions.set(key, Array.from(new Set([...(this.directions.get(key) || []), ...rule.directions])));
+      }
+    }
+
+    for (const zone of annotations.speedZones || []) {
+      if (!(zone.maxSpeedCellsPerTick > 0)) {
+        throw new Error(`Speed zone ${zone.name || describeRegion(zone)} needs a positive maxSpeedCellsPerTick`);
+      }
+      for (const cell of regionCells(zone)) {
+        const key = cellKey(cell);
+        this.speedLimits.set(key, Math.min(this.speedLimits.get(key) ?? Infinity, zone.maxSpeedCellsPerTick));
+      }
+    }
+
+    for (const area of annotations.restricted || []) {
+      for (const cell of regionCells(area)) {
+        if (!this.restrictions.has(cellKey(cell))) this.restrictions.set(cellKey(cell), area);
+      }
+    }
+  }
+
+  static fromScenario(annotations: TrafficAnnotations | undefined): TrafficRules | undefined {
+    const empty = !annotations || ((annotations.oneWay || []).length === 0 && (annotations.speedZones || []).length === 0 && (annotations.restricted || []).length === 0);
+    return empty ? undefined : new TrafficRules(annotations);
+  }
+
+  /**
+   * Every cell any rule mentions, e.g. to check them against the map bounds
+   */
+  cells(): GridCell[] {
+    const { oneWay = [], speedZones = [], restricted = [] } = this.annotations;
+    return [...oneWay, ...speedZones, ...restricted].flatMap(regionCells);
+  }
+
+  directionsAt(row: number, col: number): Direction[] | undefined {
+    return this.directions.get(cellKey([row, col]));
+  }
+
+  speedLimitAt(row: number, col: number): number | undefined {
+    return this.speedLimits.get(cellKey([row, col]));
+  }
+
+  restrictionAt(row: number, col: number): RestrictedArea | undefined {
+    return this.restrictions.get(cellKey([row, col]));
+  }
+
+  /**
+   * Whether a robot of the given type may stand on a cell; robots of unknown type may not
+   * enter any restricted area
+   */
+  mayEnter(row: number, col: number, robotType?: string): boolean {
+    const area = this.restrictionAt(row, col);
+    return !area || (robotType !== undefined && (area.allowedRobotTypes || []).includes(robotType));
+  }
+
+  /**
+   * Why moving from one cell to the next breaks a rule, or undefined when it is allowed.
+   * Cells that are not adjacent are only checked for restricted areas.
+   */
+  moveViolation(from: GridCell, to: GridCell, robotType?: string): string | undefined {
+    const [row, col] = to;
+    if (!this.mayEnter(row, col, robotType)) {
+      const area = this.restrictionAt(row, col)!;
+      return `enters ${area.name ? `restricted area ${area.name}` : "a restricted area"} at (${row}, ${col})`;
+    }
+
+    const direction = moveDirection(from, to);
+    if (!direction) return undefined;
+    const against = [from, to].find(([r, c]) => {
+      const allowed = this.directionsAt(r, c);
+      return allowed && !allowed.includes(direction) && allowed.includes(DIRECTIONS[direction].opposite);
+    });
+    return against ? `drives ${DIRECTIONS[direction].name} against the one-way flow at (${against[0]}, ${against[1]})` : undefined;
+  }
+
+  /**
+   * Rule violations along a cell sequence; the first cell is where the robot already stands
+   */
+  pathViolations(path: GridCell[], robotType?: string): string[] {
+    const violations: string[] = [];
+    path.forEach((cell, index) => {
+      if (index === 0) return;
+      const violation = this.moveViolation(path[index - 1], cell, robotType);
+      if (violation && !violations.includes(violation)) violations.push(violation);
+    });
+    return violations;
+  }
+
+  /**
+   * Lines for prompts, one per rule
+   */
+  describe(): string {
+    const { oneWay = [], speedZones = [], restricted = [] } = this.annotations;
+    return [
+      ...oneWay.map(rule => `- One-way (travel ${rule.directions.map(direction => DIRECTIONS[direction].name).join("/")} only): ${describeRegion(rule)}`),
+      ...speedZones.map(zone => `- Speed limit ${zone.maxSpeedCellsPerTick} cells/tick: ${describeRegion(zone)}`),
+      ...restricted.map(area => {
+        const allowed = area.allowedRobotTypes && area.allowedRobotTypes.length > 0 ? `only ${area.allowedRobotTypes.join(", ")} robots` : "no robots";
+        return `- Restricted (${allowed}): ${describeRegion(area)}`;
+      }),
+    ].join("\n");
+  }
+}
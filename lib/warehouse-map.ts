@@ -0,0 +1,213 @@
+/**
+ * Warehouse Map
+ * Typed warehouse grid of any size, always addressed as (row, col) with row 0 at the top
+ * and col 0 on the left. Scenario grids (grid[row][col]) load as-is, so no module has to
+ * transpose; planners, the simulator, the evaluator and the UI all read cells through it.
+ * A map may carry traffic rules (one-way aisles, speed zones, restricted areas).
+ */
+
+import { TrafficAnnotations, TrafficRules } from "./traffic-rules";
+
+export type GridCell = [number, number]; // [row, col]
+
+export type ZoneCellType = "." | "S" | "O" | "C" | "L" | "U";
+export type RobotCellType = `R${number}`; // Robot start marker, e.g. R1
+export type CellType = ZoneCellType | RobotCellType;
+
+export const CELL_LEGEND: { [cell in ZoneCellType]: string } = {
+  ".": "Path",
+  S: "Shelf (Obstacle)",
+  O: "Obstacle",
+  C: "Charging Area",
+  L: "Loading Area",
+  U: "Unloading Area",
+};
+
+const BLOCKED_CELLS: ReadonlySet<CellType> = new Set<CellType>(["S", "O"]);
+
+export function isRobotCell(value: string): value is RobotCellType {
+  return /^R\d+$/.test(value);
+}
+
+export function isCellType(value: string): value is CellType {
+  return Object.hasOwn(CELL_LEGEND, value) || isRobotCell(value);
+}
+
+export class WarehouseMap {
+  readonly rows: number;
+  readonly cols: number;
+  private cells: CellType[][];
+  private trafficRules?: TrafficRules;
+
+  constructor(rows: number, cols: number, fill: CellType = ".") {
+    if (!Number.isInteger(rows) || !Number.isInteger(cols) || rows < 0 || cols < 0) {
+      throw new Error(`Invalid warehouse map size ${rows}x${cols}`);
+    }
+    this.rows = rows;
+    this.cols = cols;
+    this.cells = Array.from({ length: rows }, () => Array.from({ length: cols }, () => fill));
+  }
+
+  /**
+   * Load a row-major grid. Every row must have the same length and every cell must be in the legend.
+   */
+  static fromGrid(grid: string[][]): WarehouseMap {
+    const rows = grid.length;
+    const cols = grid[0]?.length || 0;
+    const map = new WarehouseMap(rows, cols);
+
+    grid.forEach((cells, row) => {
+      if (cells.length !== cols) {
+        throw new Error(`Warehouse grid row ${row} has ${cells.length} cells, expected ${cols}`);
+      }
+      cells.forEach((value, col) => {
+        if (!isCellType(value)) {
+          throw new Error(`Unknown warehouse cell "${value}" at (${row}, ${col})`);
+        }
+        map.cells[row][col] = value;
+      });
+    });
+
+    return map;
+  }
+
+  /**
+   * Load a scenario's warehouseMap. The grid must match the declared dimensions; a
+   * scenario with dimensions but no grid gets an all-path map of that size.
+   */
+  static fromScenario(
+    warehouseMap: { dimensions?: { rows: number; columns: number }; grid?: string[][]; traffic?: TrafficAnnotations } | undefined
+  ): WarehouseMap {
+    const dimensions = warehouseMap?.dimensions;
+    const grid = warehouseMap?.grid || [];
+    const traffic = TrafficRules.fromScenario(warehouseMap?.traffic);
+    if (grid.length === 0) {
+      return (dimensions ? new WarehouseMap(dimensions.rows, dimensions.columns) : new WarehouseMap(0, 0)).withTraffic(traffic);
+    }
+
+    const map = WarehouseMap.fromGrid(grid);
+    if (dimensions && (dimensions.rows !== map.rows || dimensions.columns !== map.cols)) {
+      throw new Error(`Warehouse grid is ${map.rows}x${map.cols} but dimensions declare ${dimensions.rows}x${dimensions.columns}`);
+    }
+    return map.withTraffic(traffic);
+  }
+
+  /**
+   * Accept either a map or a raw grid, e.g. from JSON
+   */
+  static from(source: WarehouseMap | string[][] | undefined): WarehouseMap {
+    if (source instanceof WarehouseMap) return source;
+    return WarehouseMap.fromGrid(source || []);
+  }
+
+  get traffic(): TrafficRules | undefined {
+    return this.trafficRules;
+  }
+
+  /**
+   * Attach traffic rules (or remove them with undefined); every rule cell must be on the map
+   */
+  withTraffic(traffic: TrafficRules | undefined): WarehouseMap {
+    const outside = traffic?.cells().find(([row, col]) => !this.inBounds(row, col));
+    if (outside) {
+      throw new Error(`Traffic rule cell (${outside[0]}, ${outside[1]}) is outside the ${this.rows}x${this.cols} warehouse map`);
+    }
+    this.trafficRules = traffic;
+    return this;
+  }
+
+  get isEmpty(): boolean {
+    return this.rows === 0 || this.cols === 0;
+  }
+
+  inBounds(row: number, col: number): boolean {
+    return row >= 0 && row < this.rows && col >= 0 && col < this.cols;
+  }
+
+  /**
+   * Row-major linear index (row * cols + col), as used by scenario gridIndices and specialZones
+   */
+  toIndex(row: number, col: number): number {
+    return row * this.cols + col;
+  }
+
+  /**
+   * Cell for a linear index, or undefined outside the map
+   */
+  fromIndex(index: number): GridCell | undefined {
+    if (!Number.isInteger(index) || index < 0 || index >= this.rows * this.cols) return undefined;
+    return [Math.floor(index / this.cols), index % this.cols];
+  }
+
+  /**
+   * Cell at (row, col), or undefined outside the map
+   */
+  cellAt(row: number, col: number): CellType | undefined {
+    return this.inBounds(row, col) ? this.cells[row][col] : undefined;
+  }
+
+  setCell(row: number, col: number, value: CellType): void {
+    if (!this.inBounds(row, col)) {
+      throw new Error(`Cell (${row}, ${col}) is outside the ${this.rows}x${this.cols} warehouse map`);
+    }
+    this.cells[row][col] = value;
+  }
+
+  /**
+   * Robots may stand anywhere inside the map except on shelves and obstacles
+   */
+  isTraversable(row: number, col: number): boolean {
+    const cell = this.cellAt(row, col);
+    return cell !== undefined && !BLOCKED_CELLS.has(cell);
+  }
+
+  /**
+   * All cells of one type, in row-major order
+   */
+  cellsOfType(type: CellType): GridCell[] {
+    const found: GridCell[] = [];
+    this.cells.forEach((cells, row) => cells.forEach((value, col) => {
+      if (value === type) found.push([row, col]);
+    }));
+    return found;
+  }
+
+  /**
+   * Row-major copy suitable for JSON (scenarioData, API responses)
+   */
+  toGrid(): string[][] {
+    return this.cells.map(cells => [...cells]);
+  }
+
+  /**
+   * Text rendering for prompts: one line per row, with row and column numbers
+   */
+  toText(): string {
+    if (this.isEmpty) return "Warehouse map not provided";
+
+    // Columns are as wide as the widest cell or column number, so headers stay aligned past column 99
+    const width = Math.max(2, String(this.cols - 1).length, ...this.cells.flat().map(cell => cell.length));
+    const pad = (value: string) => value.padEnd(width);
+    const rowLabelWidth = String(this.rows - 1).length;
+
+    const header = " ".repeat(rowLabelWidth + 1) + Array.from({ length: this.cols }, (_, col) => pad(String(col))).join(" ");
+    const lines = this.cells.map((cells, row) =>
+      `${String(row).padStart(rowLabelWidth)} ${cells.map(pad).join(" ")}`.trimEnd()
+    );
+    return [header.trimEnd(), ...lines].join("\n");
+  }
+
+  /**
+   * Legend lines for the cell types that appear on this map (robots listed once)
+   */
+  legendText(): string {
+    const present = new Set(this.cells.flat());
+    const lines = (Object.keys(CELL_LEGEND) as ZoneCellType[])
+      .filter(type => type === "." || present.has(type))
+      .map(type => `${type} = ${CELL_LEGEND[type]}`);
+    if (Array.from(present).some(isRobotCell)) {
+      lines.push("R1, R2, ... = Robot start position");
+    }
+    return lines.join("\n");
+  }
+}